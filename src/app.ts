@@ -1,8 +1,15 @@
 import net from 'net';
 import dotenv from 'dotenv';
 import { handleTCPRequest } from './handlers/tcp-handler';
-import { RpcException } from '@nestjs/microservices';
-import { AppError } from './handlers/error';
+import { DecodedFrame, encodeFrame, FrameDecoder, FramingMode } from './tcp/framing';
+import { toErrorResponse } from './tcp/error-response';
+import { RequestPipeline } from './tcp/pipeline';
+import { startDocsServer } from './contract/docs-server';
+import { isNestPacket, toNestError, toNestResponse, toTCPPayload } from './tcp/nest-protocol';
+import { STOCK_RELEASE_CONFIG } from './jobs/stock-release-sweeper';
+import { SWEEPER_CONFIG } from './jobs/work-log-sweeper';
+import { stockReleaseSweeper } from './services/inventory.service';
+import { workLogSweeper } from './services/work-log-review.service';
 
 dotenv.config();
 
@@ -12,25 +19,11 @@ const CONFIG = {
     MAX_CONNECTIONS: parseInt(process.env.MAX_TCP_CONNECTIONS || '100', 10),
     SOCKET_TIMEOUT: parseInt(process.env.SOCKET_TIMEOUT || '30000', 10), // 30s
     MAX_PAYLOAD_SIZE: parseInt(process.env.MAX_PAYLOAD_SIZE || '1048576', 10), // 1MB
+    MAX_IN_FLIGHT_PER_CONNECTION: parseInt(process.env.MAX_IN_FLIGHT_PER_CONNECTION || '16', 10),
     KEEP_ALIVE: true,
     NO_DELAY: true,
 } as const;
 
-interface RpcErrorFormat {
-    statusCode?: number;
-    code?: string;
-    message?: any;
-    details?: any;
-}
-
-interface ErrorResponse {
-    statusCode: number;
-    error: string;
-    message: { message: string; path: string[] };
-    details?: any;
-    timestamp: string;
-}
-
 interface ConnectionMetrics {
     activeConnections: number;
     totalConnections: number;
@@ -124,23 +117,26 @@ class TCPMicroservice {
 
         console.log(`🔌 New TCP connection established (${connectionManager.getMetrics().activeConnections} active)`);
 
-        let buffer = Buffer.alloc(0);
+        // Framing is detected from the first byte; newline-delimited JSON is the default
+        const decoder = new FrameDecoder(CONFIG.MAX_PAYLOAD_SIZE);
 
-        socket.on('data', async (data: Buffer) => {
-            try {
-                buffer = Buffer.concat([buffer, data]);
+        // Messages on one socket run concurrently up to the in-flight limit and
+        // reply as soon as they finish; callers match replies by payload id.
+        const pipeline = new RequestPipeline<DecodedFrame>(socket, CONFIG.MAX_IN_FLIGHT_PER_CONNECTION, (frame) =>
+            this.processMessage(socket, frame, decoder.mode)
+        );
 
-                // Process complete messages (assuming newline-delimited)
-                const messages = this.extractMessages(buffer);
-
-                for (const message of messages.complete) {
-                    await this.processMessage(socket, message);
-                }
-
-                buffer = messages.remaining;
+        socket.on('data', (data: Buffer) => {
+            try {
+                pipeline.push(...decoder.push(data));
             } catch (error) {
                 console.error('❌ Error processing socket data:', error);
-                this.handleSocketError(socket, error);
+                this.handleSocketError(socket, error, decoder.mode);
+
+                // A broken length prefix can't be resynchronised, so drop the connection
+                if (decoder.mode !== 'newline') {
+                    socket.end();
+                }
             }
         });
 
@@ -172,42 +168,28 @@ class TCPMicroservice {
         socket.setNoDelay(CONFIG.NO_DELAY);
     }
 
-    private extractMessages(buffer: Buffer): { complete: string[]; remaining: Buffer } {
-        const messages: string[] = [];
-        let remaining = buffer;
-
-        while (true) {
-            const newlineIndex = remaining.indexOf('\n');
-            if (newlineIndex === -1) break;
-
-            const messageBuffer = remaining.subarray(0, newlineIndex);
-            const messageStr = messageBuffer.toString('utf8').trim();
-
-            if (messageStr) {
-                messages.push(messageStr);
-            }
-
-            remaining = remaining.subarray(newlineIndex + 1);
-        }
-
-        return { complete: messages, remaining };
-    }
-
-    private async processMessage(socket: net.Socket, message: string): Promise<void> {
+    private async processMessage(socket: net.Socket, frame: DecodedFrame, mode: FramingMode): Promise<void> {
         const startTime = Date.now();
+        let requestId: string | number | undefined;
 
         try {
-            // Validate message size
-            if (Buffer.byteLength(message, 'utf8') > CONFIG.MAX_PAYLOAD_SIZE) {
-                throw new Error('Payload too large');
-            }
-
-            const payload = JSON.parse(message);
+            const parsed = JSON.parse(frame.body);
+            // Nest ClientTCP sends { pattern, data, id }; map it onto the native envelope
+            const payload = mode === 'nest' && isNestPacket(parsed) ? toTCPPayload(parsed) : parsed;
+            requestId = payload?.id;
             connectionManager.incrementRequests();
 
+            if (frame.attachments.length > 0) {
+                payload.attachments = frame.attachments;
+            }
+
             const result = await handleTCPRequest(payload);
 
-            this.sendResponse(socket, result);
+            if (mode !== 'nest') {
+                this.sendResponse(socket, result, mode);
+            } else if (requestId !== undefined) {
+                this.sendResponse(socket, toNestResponse(String(requestId), result), mode);
+            }
 
             console.log(`✅ Request processed in ${Date.now() - startTime}ms`);
         } catch (error) {
@@ -217,64 +199,41 @@ class TCPMicroservice {
                 processingTime: Date.now() - startTime,
             });
 
-            this.handleSocketError(socket, error);
+            this.handleSocketError(socket, error, mode, requestId);
         }
     }
 
-    private sendResponse(socket: net.Socket, data: any): void {
+    private sendResponse(socket: net.Socket, data: any, mode: FramingMode): void {
         if (socket.destroyed || !socket.writable) {
             console.warn('⚠️ Attempted to write to closed socket');
             return;
         }
 
         try {
-            const response = JSON.stringify(data) + '\n';
-            socket.write(response, 'utf8');
+            socket.write(encodeFrame(mode, JSON.stringify(data)));
         } catch (error) {
             console.error('❌ Error sending response:', error);
             socket.destroy();
         }
     }
 
-    private handleSocketError(socket: net.Socket, error: any): void {
-        const errorResponse: ErrorResponse = {
-            statusCode: 500,
-            error: 'Error.Unexpected',
-            message: { message: 'Internal server error', path: [] },
-            timestamp: new Date().toISOString(),
-        };
-
-        if (error instanceof AppError) {
-            errorResponse.statusCode = error.statusCode || 500;
-            errorResponse.error = error.error || 'AppError';
-            errorResponse.message = {
-                message: error.code,
-                path: error.messageObject?.path || [],
-            };
-            errorResponse.details = error.details;
-        } else if (error instanceof RpcException && typeof error.getError === 'function') {
-            const rpcError = error.getError() as RpcErrorFormat;
-
-            errorResponse.statusCode = rpcError.statusCode || 400;
-            errorResponse.error = rpcError.code || 'Error.Rpc';
-            errorResponse.message = {
-                message: rpcError.message?.message || rpcError.code || 'RPC Error',
-                path: rpcError.message?.path || [],
-            };
-            if (rpcError.details) {
-                errorResponse.details = rpcError.details;
+    private handleSocketError(
+        socket: net.Socket,
+        error: any,
+        mode: FramingMode,
+        requestId?: string | number
+    ): void {
+        const errorResponse = toErrorResponse(error, requestId);
+
+        if (mode === 'nest') {
+            // Nest events (client.emit) carry no id and expect no reply
+            if (requestId !== undefined) {
+                this.sendResponse(socket, toNestError(String(requestId), errorResponse), mode);
             }
-        } else if (error instanceof SyntaxError) {
-            errorResponse.statusCode = 400;
-            errorResponse.error = 'Error.InvalidJSON';
-            errorResponse.message = { message: 'Invalid JSON format', path: [] };
-        } else if (error?.message === 'Payload too large') {
-            errorResponse.statusCode = 413;
-            errorResponse.error = 'Error.PayloadTooLarge';
-            errorResponse.message = { message: 'Request payload exceeds maximum size', path: [] };
+            return;
         }
 
-        this.sendResponse(socket, errorResponse);
+        this.sendResponse(socket, errorResponse, mode);
     }
 
     private handleServerError(error: Error): void {
@@ -297,6 +256,7 @@ class TCPMicroservice {
             maxConnections: CONFIG.MAX_CONNECTIONS,
             socketTimeout: CONFIG.SOCKET_TIMEOUT,
             maxPayloadSize: CONFIG.MAX_PAYLOAD_SIZE,
+            maxInFlightPerConnection: CONFIG.MAX_IN_FLIGHT_PER_CONNECTION,
         });
     }
 
@@ -310,6 +270,8 @@ class TCPMicroservice {
             });
 
             connectionManager.closeAllConnections();
+            workLogSweeper.stop();
+            stockReleaseSweeper.stop();
 
             console.log('📊 Final metrics:', connectionManager.getMetrics());
 
@@ -358,5 +320,19 @@ if (process.env.ENABLE_HEALTH_CHECK === 'true') {
     });
 }
 
+if (process.env.ENABLE_DOCS === 'true') {
+    startDocsServer(parseInt(process.env.DOCS_PORT || '4004', 10));
+}
+
+if (SWEEPER_CONFIG.ENABLED) {
+    workLogSweeper.start();
+    console.log(`🧹 Work log sweeper running every ${SWEEPER_CONFIG.INTERVAL}ms`);
+}
+
+if (STOCK_RELEASE_CONFIG.ENABLED) {
+    stockReleaseSweeper.start();
+    console.log(`📦 Stock release sweeper running every ${STOCK_RELEASE_CONFIG.INTERVAL}ms`);
+}
+
 const tcpService = new TCPMicroservice();
 tcpService.start();
\ No newline at end of file
@@ -0,0 +1,174 @@
+import crypto from 'crypto';
+import jwt from 'jsonwebtoken';
+import { AppError } from '../handlers/error';
+import { AuthRepository } from '../repositories/auth.repository';
+import { GatewayHeaders, RequestAuth, StaffIdentity } from './identity';
+
+export type AuthMode = 'off' | 'optional' | 'required';
+
+export const AUTH_CONFIG = {
+    // off: credentials are ignored; optional: verified when present; required: every non-public message needs them
+    MODE: (process.env.AUTH_MODE || 'off') as AuthMode,
+    ACCESS_TOKEN_SECRET: process.env.ACCESS_TOKEN_SECRET || '',
+    GATEWAY_SHARED_SECRET: process.env.GATEWAY_SHARED_SECRET || '',
+    // Check each message's permission against the caller's roles
+    RBAC_ENABLED: process.env.RBAC_ENABLED === 'true',
+    // Upper bound on how long a role change takes to apply when SYSTEM_INVALIDATE_PERMISSIONS is not sent
+    PERMISSION_CACHE_TTL: parseInt(process.env.PERMISSION_CACHE_TTL || '60000', 10), // 1 minute
+} as const;
+
+interface AccessTokenPayload {
+    userId?: number;
+    sub?: string | number;
+}
+
+interface AuthEnvelope {
+    auth?: RequestAuth;
+    headers?: GatewayHeaders;
+}
+
+/**
+ * Resolves the caller to a Staff identity from either a signed access token or
+ * a trusted gateway header. Returns undefined when no credentials are sent and
+ * they are not required.
+ */
+export async function authenticateRequest(
+    envelope: AuthEnvelope,
+    required: boolean
+): Promise<StaffIdentity | undefined> {
+    if (AUTH_CONFIG.MODE === 'off') return undefined;
+
+    const token = envelope.auth?.token;
+    const gatewayKey = envelope.headers?.['x-gateway-key'];
+
+    if (!token && !gatewayKey) {
+        if (required) {
+            throw new AppError(
+                'Authentication required',
+                [{ message: 'Error.Unauthenticated', path: ['auth'] }],
+                {},
+                401
+            );
+        }
+        return undefined;
+    }
+
+    const { userId, source } = token
+        ? { userId: verifyAccessToken(token), source: 'jwt' as const }
+        : { userId: verifyGatewayHeaders(envelope.headers!), source: 'gateway' as const };
+
+    return resolveStaffIdentity(userId, source);
+}
+
+function verifyAccessToken(token: string): number {
+    try {
+        const payload = jwt.verify(token, AUTH_CONFIG.ACCESS_TOKEN_SECRET) as AccessTokenPayload;
+        const userId = Number(payload.userId ?? payload.sub);
+
+        if (!Number.isInteger(userId) || userId <= 0) {
+            throw new Error('Token has no user id');
+        }
+        return userId;
+    } catch (error) {
+        throw new AppError(
+            'Invalid access token',
+            [{ message: 'Error.InvalidAccessToken', path: ['auth', 'token'] }],
+            { reason: (error as Error).message },
+            401
+        );
+    }
+}
+
+function verifyGatewayHeaders(headers: GatewayHeaders): number {
+    const key = String(headers['x-gateway-key'] ?? '');
+    const expected = AUTH_CONFIG.GATEWAY_SHARED_SECRET;
+
+    const trusted = expected.length > 0
+        && key.length === expected.length
+        && crypto.timingSafeEqual(Buffer.from(key), Buffer.from(expected));
+
+    const userId = Number(headers['x-user-id']);
+
+    if (!trusted || !Number.isInteger(userId) || userId <= 0) {
+        throw new AppError(
+            'Untrusted gateway identity',
+            [{ message: 'Error.InvalidGatewayIdentity', path: ['headers'] }],
+            {},
+            401
+        );
+    }
+    return userId;
+}
+
+async function resolveStaffIdentity(userId: number, source: StaffIdentity['source']): Promise<StaffIdentity> {
+    const record = await AuthRepository.findIdentityByUserId(userId);
+    const staff = record?.staff?.isActive ? record.staff : null;
+
+    if (!record || record.isBlocked || (!staff && record.managedProviderId === null)) {
+        throw new AppError(
+            'Caller is not an active staff member or provider manager',
+            [{ message: 'Error.NotStaffAccount', path: ['auth'] }],
+            { userId },
+            403
+        );
+    }
+
+    return {
+        userId: record.userId,
+        staffId: staff?.id ?? null,
+        providerId: staff?.providerId ?? null,
+        managedProviderId: record.managedProviderId,
+        roles: record.roles.map((role) => role.name),
+        source,
+    };
+}
+
+/**
+ * Binds the payload to the caller. Staff are pinned to their own staffId (a
+ * missing one is filled in); provider managers must name a staff member of
+ * their own provider.
+ */
+export async function applyStaffScope(data: unknown, identity: StaffIdentity): Promise<unknown> {
+    const payload = (data && typeof data === 'object' && !Array.isArray(data) ? data : {}) as Record<string, unknown>;
+
+    if (identity.staffId === null) {
+        return applyManagerScope(payload, identity);
+    }
+
+    if (payload.staffId !== undefined && Number(payload.staffId) !== identity.staffId) {
+        throw new AppError(
+            'Access denied: Staff does not own this resource',
+            [{ message: 'Error.UnauthorizedAccess', path: ['staffId'] }],
+            { staffId: payload.staffId, authenticatedStaffId: identity.staffId },
+            403
+        );
+    }
+
+    return { ...payload, staffId: identity.staffId };
+}
+
+async function applyManagerScope(payload: Record<string, unknown>, identity: StaffIdentity): Promise<unknown> {
+    const staffId = Number(payload.staffId);
+
+    if (!Number.isInteger(staffId) || staffId <= 0) {
+        throw new AppError(
+            'Missing required parameters',
+            [{ message: 'Error.MissingParameters', path: ['staffId'] }],
+            {},
+            400
+        );
+    }
+
+    const providerId = await AuthRepository.findStaffProviderId(staffId);
+
+    if (providerId === null || providerId !== identity.managedProviderId) {
+        throw new AppError(
+            'Access denied: Staff does not belong to your provider',
+            [{ message: 'Error.UnauthorizedAccess', path: ['staffId'] }],
+            { staffId, managedProviderId: identity.managedProviderId },
+            403
+        );
+    }
+
+    return payload;
+}
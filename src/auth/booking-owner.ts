@@ -0,0 +1,38 @@
+import { Prisma } from '../generated/prisma';
+import { AppError } from '../handlers/error';
+
+/**
+ * Loads a booking for the staff member it is assigned to, refusing anyone
+ * else with 403.
+ */
+export async function assertBookingOwner(tx: Prisma.TransactionClient, staffId: number, bookingId: number) {
+    const booking = await tx.booking.findUnique({
+        where: { id: bookingId },
+        select: {
+            staffId: true,
+            providerId: true,
+            status: true,
+            ServiceRequest: { select: { id: true, status: true, categoryId: true, preferredDate: true } },
+        },
+    });
+
+    if (!booking) {
+        throw new AppError(
+            'Booking not found',
+            [{ message: 'Error.BookingNotFound', path: ['bookingId'] }],
+            { bookingId },
+            404
+        );
+    }
+
+    if (booking.staffId !== staffId) {
+        throw new AppError(
+            'Access denied: Staff does not own this booking',
+            [{ message: 'Error.UnauthorizedAccess', path: ['staffId'] }],
+            { staffId, bookingStaffId: booking.staffId },
+            403
+        );
+    }
+
+    return booking;
+}
@@ -0,0 +1,28 @@
+export interface StaffIdentity {
+    userId: number;
+    // Null for provider managers, who have no Staff record of their own
+    staffId: number | null;
+    providerId: number | null;
+    // Provider owned by this user, if any
+    managedProviderId: number | null;
+    roles: string[];
+    // How the caller proved who they are
+    source: 'jwt' | 'gateway';
+}
+
+export interface RequestAuth {
+    // Access token issued by the auth service
+    token?: string;
+}
+
+// Set by a trusted gateway that has already authenticated the user
+export interface GatewayHeaders {
+    'x-gateway-key'?: string;
+    'x-user-id'?: string | number;
+}
+
+export interface RequestContext {
+    identity?: StaffIdentity;
+    // Binary parts of a length-prefixed frame, in the order they were sent
+    attachments?: Buffer[];
+}
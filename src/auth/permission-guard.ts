@@ -0,0 +1,99 @@
+import { AppError } from '../handlers/error';
+import { StaffIdentity } from './identity';
+
+export interface PermissionSource {
+    // Names of the permissions granted to a role
+    getRolePermissions(roleName: string): Promise<string[]>;
+}
+
+/**
+ * Fixed role → permissions map, for tests and local runs without a database.
+ */
+export class InMemoryPermissionSource implements PermissionSource {
+    private readonly grants: Map<string, string[]>;
+
+    constructor(grants: Record<string, string[]> = {}) {
+        this.grants = new Map(Object.entries(grants));
+    }
+
+    set(roleName: string, permissions: string[]): void {
+        this.grants.set(roleName, permissions);
+    }
+
+    async getRolePermissions(roleName: string): Promise<string[]> {
+        return this.grants.get(roleName) ?? [];
+    }
+}
+
+export interface PermissionGuardOptions {
+    // How long a role's permissions are cached, in ms
+    ttl?: number;
+    now?: () => number;
+}
+
+interface CacheEntry {
+    permissions: Promise<Set<string>>;
+    expiresAt: number;
+}
+
+/**
+ * Checks that at least one of the caller's roles grants a permission. Role
+ * permissions are cached per role until the TTL passes or they are invalidated
+ * through SYSTEM_INVALIDATE_PERMISSIONS.
+ */
+export class PermissionGuard {
+    private readonly cache = new Map<string, CacheEntry>();
+    private readonly ttl: number;
+    private readonly now: () => number;
+
+    constructor(private readonly source: PermissionSource, options: PermissionGuardOptions = {}) {
+        this.ttl = options.ttl ?? 60_000;
+        this.now = options.now ?? Date.now;
+    }
+
+    async can(identity: StaffIdentity, permission: string): Promise<boolean> {
+        for (const roleName of identity.roles) {
+            const permissions = await this.getRolePermissions(roleName);
+            if (permissions.has(permission)) return true;
+        }
+        return false;
+    }
+
+    async assert(identity: StaffIdentity, permission: string): Promise<void> {
+        if (await this.can(identity, permission)) return;
+
+        throw new AppError(
+            'Permission denied',
+            [{ message: 'Error.PermissionDenied', path: ['type'] }],
+            { permission, roles: identity.roles },
+            403
+        );
+    }
+
+    // Drops one role's cached permissions, or all of them
+    invalidate(roleName?: string): void {
+        if (roleName === undefined) {
+            this.cache.clear();
+        } else {
+            this.cache.delete(roleName);
+        }
+    }
+
+    private getRolePermissions(roleName: string): Promise<Set<string>> {
+        const cached = this.cache.get(roleName);
+        if (cached && cached.expiresAt > this.now()) {
+            return cached.permissions;
+        }
+
+        const permissions = this.source.getRolePermissions(roleName).then((names) => new Set(names));
+        const entry: CacheEntry = { permissions, expiresAt: this.now() + this.ttl };
+        this.cache.set(roleName, entry);
+
+        // Failed lookups are not cached
+        permissions.catch(() => {
+            if (this.cache.get(roleName) === entry) this.cache.delete(roleName);
+        });
+
+        return permissions;
+    }
+}
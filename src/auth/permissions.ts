@@ -0,0 +1,26 @@
+/**
+ * Permission names (the `Permission.name` column) guarding each message type.
+ * Roles are granted these through the RolePermissions relation.
+ */
+export const PERMISSIONS = {
+    BookingsRead: 'staff.bookings.read',
+    BookingsRespond: 'staff.bookings.respond',
+    InspectionsRead: 'staff.inspections.read',
+    InspectionsWrite: 'staff.inspections.write',
+    ReviewsRead: 'staff.reviews.read',
+    WorkLogsRead: 'staff.work-logs.read',
+    WorkLogsWrite: 'staff.work-logs.write',
+    WorkLogsReview: 'staff.work-logs.review',
+    WorkLogsCorrect: 'staff.work-logs.correct',
+    AvailabilityRead: 'staff.availability.read',
+    AvailabilityWrite: 'staff.availability.write',
+    PerformanceRead: 'staff.performance.read',
+    ProposalsRead: 'staff.proposals.read',
+    ProposalsWrite: 'staff.proposals.write',
+    InventoryRead: 'staff.inventory.read',
+    WarrantiesRead: 'staff.warranties.read',
+    WarrantiesClaim: 'staff.warranties.claim',
+    PermissionsInvalidate: 'system.permissions.invalidate',
+} as const;
+
+export type PermissionName = (typeof PERMISSIONS)[keyof typeof PERMISSIONS];
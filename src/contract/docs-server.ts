@@ -0,0 +1,18 @@
+import express from 'express';
+import swaggerUi from 'swagger-ui-express';
+import { messageRegistry } from '../handlers/tcp-handler';
+import { buildContractDocument } from './openapi';
+
+export function startDocsServer(port: number, host = '127.0.0.1') {
+    const document = buildContractDocument(messageRegistry, process.env.npm_package_version);
+    const app = express();
+
+    app.get('/docs/openapi.json', (_req, res) => {
+        res.json(document);
+    });
+    app.use('/docs', swaggerUi.serve, swaggerUi.setup(document));
+
+    return app.listen(port, host, () => {
+        console.log(`📚 Contract docs available at http://${host}:${port}/docs`);
+    });
+}
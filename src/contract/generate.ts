@@ -0,0 +1,15 @@
+import fs from 'fs';
+import path from 'path';
+import { messageRegistry } from '../handlers/tcp-handler';
+import { buildContractDocument } from './openapi';
+
+// Usage: npm run contract -- [output file]
+const outFile = path.resolve(process.argv[2] || 'dist/contract/staff-service.openapi.json');
+
+const document = buildContractDocument(messageRegistry, process.env.npm_package_version);
+
+fs.mkdirSync(path.dirname(outFile), { recursive: true });
+fs.writeFileSync(outFile, JSON.stringify(document, null, 2) + '\n', 'utf8');
+
+console.log(`📄 Contract for ${messageRegistry.list().length} message types written to ${outFile}`);
+process.exit(0);
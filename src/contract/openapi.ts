@@ -0,0 +1,128 @@
+import { z } from 'zod';
+import { createDocument, ZodOpenApiPathsObject, ZodOpenApiResponsesObject } from 'zod-openapi';
+import { AUTH_ERRORS, COMMON_ERRORS, ERROR_CODES, ErrorCodeDefinition } from '../handlers/error-codes';
+import { MessageDefinition, MessageRegistry } from '../handlers/message-registry';
+
+const RequestIdSchema = z.union([z.string(), z.number()]).optional();
+
+const RequestAuthSchema = z
+    .object({ token: z.string() })
+    .optional()
+    .describe('Access token; the caller is resolved to a staff member');
+
+const GatewayHeadersSchema = z
+    .object({
+        'x-gateway-key': z.string(),
+        'x-user-id': z.union([z.string(), z.number()]),
+    })
+    .optional()
+    .describe('Identity asserted by a trusted gateway');
+
+/**
+ * Describes the TCP protocol as an OpenAPI 3.1 document. Each message type is
+ * modelled as `POST /{type}`: the request body is the `{ id, type, data }`
+ * envelope and the responses are the success envelope plus one entry per
+ * status code listing the AppError codes that can come back.
+ */
+export function buildContractDocument(registry: MessageRegistry, version = '1.0.0') {
+    const paths: ZodOpenApiPathsObject = {};
+
+    for (const definition of registry.list()) {
+        paths[`/${definition.type}`] = {
+            post: {
+                operationId: definition.type,
+                summary: definition.description,
+                ...(definition.permission ? { description: `Requires permission \`${definition.permission}\`.` } : {}),
+                tags: [definition.type.split('_')[0]],
+                requestBody: {
+                    required: true,
+                    content: {
+                        'application/json': {
+                            schema: z.object({
+                                id: RequestIdSchema,
+                                type: z.literal(definition.type),
+                                data: definition.input,
+                                auth: RequestAuthSchema,
+                                headers: GatewayHeadersSchema,
+                            }),
+                        },
+                    },
+                },
+                responses: buildResponses(definition),
+            },
+        };
+    }
+
+    return createDocument({
+        openapi: '3.1.0',
+        info: {
+            title: 'Home Care Staff Service TCP contract',
+            version,
+            description:
+                'Messages accepted by the staff microservice over TCP. Frames are newline-delimited JSON by default, '
+                + 'length-prefixed when the connection starts with 0xFE, or NestJS `<length>#<json>` packets.',
+        },
+        paths,
+    });
+}
+
+function buildResponses(definition: MessageDefinition): ZodOpenApiResponsesObject {
+    const responses: ZodOpenApiResponsesObject = {
+        '200': {
+            description: definition.successMessage,
+            content: {
+                'application/json': {
+                    schema: z.object({
+                        id: RequestIdSchema,
+                        success: z.literal(true),
+                        code: z.literal('SUCCESS'),
+                        message: z.string(),
+                        statusCode: z.literal(200),
+                        timestamp: z.string(),
+                        data: definition.output,
+                    }),
+                },
+            },
+        },
+    };
+
+    const byStatus = new Map<number, ErrorCodeDefinition[]>();
+    const possibleErrors = [
+        ...(definition.errors ?? []),
+        ...(definition.public ? [] : AUTH_ERRORS),
+        ...(definition.permission ? [ERROR_CODES.PermissionDenied] : []),
+        ...(definition.staffScoped ? [ERROR_CODES.UnauthorizedAccess] : []),
+        ...COMMON_ERRORS,
+    ];
+
+    for (const error of possibleErrors) {
+        const group = byStatus.get(error.statusCode) ?? [];
+        if (!group.some((existing) => existing.code === error.code)) group.push(error);
+        byStatus.set(error.statusCode, group);
+    }
+
+    for (const [statusCode, errors] of [...byStatus.entries()].sort(([a], [b]) => a - b)) {
+        const codes = errors.map((error) => error.code) as [string, ...string[]];
+
+        responses[String(statusCode) as `${1 | 2 | 3 | 4 | 5}${string}`] = {
+            description: errors.map((error) => `\`${error.code}\`: ${error.description}`).join('\n'),
+            content: {
+                'application/json': {
+                    schema: z.object({
+                        id: RequestIdSchema,
+                        statusCode: z.literal(statusCode),
+                        error: z.string(),
+                        message: z.object({
+                            message: z.enum(codes),
+                            path: z.array(z.string()),
+                        }),
+                        details: z.record(z.string(), z.unknown()).optional(),
+                        timestamp: z.string(),
+                    }),
+                },
+            },
+        };
+    }
+
+    return responses;
+}
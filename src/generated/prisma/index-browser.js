@@ -397,6 +397,18 @@ exports.Prisma.WorkLogScalarFieldEnum = {
   checkIn: 'checkIn',
   checkOut: 'checkOut',
   note: 'note',
+  endReason: 'endReason',
+  checkInLatitude: 'checkInLatitude',
+  checkInLongitude: 'checkInLongitude',
+  checkInDistance: 'checkInDistance',
+  checkOutLatitude: 'checkOutLatitude',
+  checkOutLongitude: 'checkOutLongitude',
+  checkOutDistance: 'checkOutDistance',
+  locationFlagged: 'locationFlagged',
+  autoClosedAt: 'autoClosedAt',
+  correctedAt: 'correctedAt',
+  correctedById: 'correctedById',
+  correctionNote: 'correctionNote',
   createdAt: 'createdAt',
   updatedAt: 'updatedAt'
 };
@@ -408,7 +420,43 @@ exports.Prisma.InspectionReportScalarFieldEnum = {
   estimatedTime: 'estimatedTime',
   note: 'note',
   images: 'images',
-  createdAt: 'createdAt'
+  createdAt: 'createdAt',
+  checklistTemplateId: 'checklistTemplateId'
+};
+
+exports.Prisma.ChecklistTemplateScalarFieldEnum = {
+  id: 'id',
+  categoryId: 'categoryId',
+  name: 'name',
+  version: 'version',
+  isActive: 'isActive',
+  createdAt: 'createdAt',
+  updatedAt: 'updatedAt'
+};
+
+exports.Prisma.ChecklistItemScalarFieldEnum = {
+  id: 'id',
+  templateId: 'templateId',
+  key: 'key',
+  label: 'label',
+  type: 'type',
+  required: 'required',
+  position: 'position',
+  minValue: 'minValue',
+  maxValue: 'maxValue',
+  unit: 'unit',
+  options: 'options'
+};
+
+exports.Prisma.ChecklistAnswerScalarFieldEnum = {
+  id: 'id',
+  reportId: 'reportId',
+  itemId: 'itemId',
+  booleanValue: 'booleanValue',
+  numberValue: 'numberValue',
+  choiceValue: 'choiceValue',
+  photoUrls: 'photoUrls',
+  updatedAt: 'updatedAt'
 };
 
 exports.Prisma.ServiceItemScalarFieldEnum = {
@@ -452,7 +500,11 @@ exports.Prisma.ProposalScalarFieldEnum = {
   bookingId: 'bookingId',
   notes: 'notes',
   createdAt: 'createdAt',
-  status: 'status'
+  status: 'status',
+  totalPrice: 'totalPrice',
+  staffId: 'staffId',
+  updatedAt: 'updatedAt',
+  currentVersion: 'currentVersion'
 };
 
 exports.Prisma.ProposalItemScalarFieldEnum = {
@@ -460,9 +512,51 @@ exports.Prisma.ProposalItemScalarFieldEnum = {
   proposalId: 'proposalId',
   serviceId: 'serviceId',
   quantity: 'quantity',
+  createdAt: 'createdAt',
+  unitPrice: 'unitPrice',
+  lineTotal: 'lineTotal'
+};
+
+exports.Prisma.ProposalItemPartScalarFieldEnum = {
+  id: 'id',
+  proposalItemId: 'proposalItemId',
+  serviceItemId: 'serviceItemId',
+  quantity: 'quantity',
+  unitPrice: 'unitPrice',
+  lineTotal: 'lineTotal',
+  createdAt: 'createdAt'
+};
+
+exports.Prisma.ProposalRevisionScalarFieldEnum = {
+  id: 'id',
+  proposalId: 'proposalId',
+  version: 'version',
+  notes: 'notes',
+  totalPrice: 'totalPrice',
+  staffId: 'staffId',
   createdAt: 'createdAt'
 };
 
+exports.Prisma.ProposalRevisionItemScalarFieldEnum = {
+  id: 'id',
+  revisionId: 'revisionId',
+  serviceId: 'serviceId',
+  serviceName: 'serviceName',
+  quantity: 'quantity',
+  unitPrice: 'unitPrice',
+  lineTotal: 'lineTotal'
+};
+
+exports.Prisma.ProposalRevisionPartScalarFieldEnum = {
+  id: 'id',
+  revisionItemId: 'revisionItemId',
+  serviceItemId: 'serviceItemId',
+  name: 'name',
+  quantity: 'quantity',
+  unitPrice: 'unitPrice',
+  lineTotal: 'lineTotal'
+};
+
 exports.Prisma.WalletScalarFieldEnum = {
   id: 'id',
   userId: 'userId',
@@ -485,6 +579,117 @@ exports.Prisma.WithdrawalRequestScalarFieldEnum = {
   note: 'note'
 };
 
+exports.Prisma.BookingStatusHistoryScalarFieldEnum = {
+  id: 'id',
+  bookingId: 'bookingId',
+  fromStatus: 'fromStatus',
+  toStatus: 'toStatus',
+  actorType: 'actorType',
+  actorId: 'actorId',
+  reason: 'reason',
+  createdAt: 'createdAt'
+};
+
+exports.Prisma.BookingDeclineScalarFieldEnum = {
+  id: 'id',
+  bookingId: 'bookingId',
+  staffId: 'staffId',
+  providerId: 'providerId',
+  reason: 'reason',
+  createdAt: 'createdAt'
+};
+
+exports.Prisma.StockReservationScalarFieldEnum = {
+  id: 'id',
+  bookingId: 'bookingId',
+  proposalId: 'proposalId',
+  serviceItemId: 'serviceItemId',
+  quantity: 'quantity',
+  status: 'status',
+  createdAt: 'createdAt',
+  updatedAt: 'updatedAt'
+};
+
+exports.Prisma.WarrantyScalarFieldEnum = {
+  id: 'id',
+  bookingId: 'bookingId',
+  customerId: 'customerId',
+  providerId: 'providerId',
+  subject: 'subject',
+  serviceId: 'serviceId',
+  serviceItemId: 'serviceItemId',
+  itemId: 'itemId',
+  name: 'name',
+  quantity: 'quantity',
+  startDate: 'startDate',
+  endDate: 'endDate',
+  createdAt: 'createdAt'
+};
+
+exports.Prisma.WarrantyClaimScalarFieldEnum = {
+  id: 'id',
+  warrantyId: 'warrantyId',
+  claimBookingId: 'claimBookingId',
+  staffId: 'staffId',
+  description: 'description',
+  createdAt: 'createdAt'
+};
+
+exports.Prisma.ServiceRequestStatusHistoryScalarFieldEnum = {
+  id: 'id',
+  serviceRequestId: 'serviceRequestId',
+  fromStatus: 'fromStatus',
+  toStatus: 'toStatus',
+  actorType: 'actorType',
+  actorId: 'actorId',
+  reason: 'reason',
+  createdAt: 'createdAt'
+};
+
+exports.Prisma.JobLocationScalarFieldEnum = {
+  id: 'id',
+  serviceRequestId: 'serviceRequestId',
+  address: 'address',
+  latitude: 'latitude',
+  longitude: 'longitude',
+  source: 'source',
+  createdAt: 'createdAt',
+  updatedAt: 'updatedAt'
+};
+
+exports.Prisma.WorkPolicyScalarFieldEnum = {
+  id: 'id',
+  name: 'name',
+  providerId: 'providerId',
+  categoryId: 'categoryId',
+  scopeKey: 'scopeKey',
+  checkInEarlyTolerance: 'checkInEarlyTolerance',
+  checkInLateTolerance: 'checkInLateTolerance',
+  maxSessionMinutes: 'maxSessionMinutes',
+  isActive: 'isActive',
+  createdAt: 'createdAt',
+  updatedAt: 'updatedAt'
+};
+
+exports.Prisma.StaffAvailabilityScalarFieldEnum = {
+  id: 'id',
+  staffId: 'staffId',
+  weekDay: 'weekDay',
+  session: 'session',
+  createdAt: 'createdAt'
+};
+
+exports.Prisma.StaffAvailabilityExceptionScalarFieldEnum = {
+  id: 'id',
+  staffId: 'staffId',
+  date: 'date',
+  session: 'session',
+  type: 'type',
+  note: 'note',
+  createdAt: 'createdAt',
+  updatedAt: 'updatedAt'
+};
+
 exports.Prisma.SortOrder = {
   asc: 'asc',
   desc: 'desc'
@@ -587,6 +792,20 @@ exports.VerificationCodeType = exports.$Enums.VerificationCodeType = {
   DISABLE_2FA: 'DISABLE_2FA'
 };
 
+exports.WorkLogEndReason = exports.$Enums.WorkLogEndReason = {
+  PAUSED: 'PAUSED',
+  CHECKED_OUT: 'CHECKED_OUT',
+  FINISHED: 'FINISHED',
+  AUTO_CLOSED: 'AUTO_CLOSED'
+};
+
+exports.ChecklistItemType = exports.$Enums.ChecklistItemType = {
+  BOOLEAN: 'BOOLEAN',
+  NUMBER: 'NUMBER',
+  CHOICE: 'CHOICE',
+  PHOTO: 'PHOTO'
+};
+
 exports.RequestStatus = exports.$Enums.RequestStatus = {
   PENDING: 'PENDING',
   IN_PROGRESS: 'IN_PROGRESS',
@@ -608,6 +827,45 @@ exports.WithdrawalStatus = exports.$Enums.WithdrawalStatus = {
   COMPLETED: 'COMPLETED'
 };
 
+exports.TransitionActorType = exports.$Enums.TransitionActorType = {
+  STAFF: 'STAFF',
+  CUSTOMER: 'CUSTOMER',
+  PROVIDER: 'PROVIDER',
+  SYSTEM: 'SYSTEM'
+};
+
+exports.StockReservationStatus = exports.$Enums.StockReservationStatus = {
+  RESERVED: 'RESERVED',
+  COMMITTED: 'COMMITTED',
+  RELEASED: 'RELEASED'
+};
+
+exports.WarrantySubject = exports.$Enums.WarrantySubject = {
+  SERVICE: 'SERVICE',
+  PART: 'PART'
+};
+
+exports.WeekDay = exports.$Enums.WeekDay = {
+  MONDAY: 'MONDAY',
+  TUESDAY: 'TUESDAY',
+  WEDNESDAY: 'WEDNESDAY',
+  THURSDAY: 'THURSDAY',
+  FRIDAY: 'FRIDAY',
+  SATURDAY: 'SATURDAY',
+  SUNDAY: 'SUNDAY'
+};
+
+exports.Session = exports.$Enums.Session = {
+  MORNING: 'MORNING',
+  AFTERNOON: 'AFTERNOON'
+};
+
+exports.AvailabilityExceptionType = exports.$Enums.AvailabilityExceptionType = {
+  LEAVE: 'LEAVE',
+  SICK: 'SICK',
+  EXTRA_SHIFT: 'EXTRA_SHIFT'
+};
+
 exports.Prisma.ModelName = {
   Booking: 'Booking',
   Category: 'Category',
@@ -634,13 +892,30 @@ exports.Prisma.ModelName = {
   VerificationCode: 'VerificationCode',
   WorkLog: 'WorkLog',
   InspectionReport: 'InspectionReport',
+  ChecklistTemplate: 'ChecklistTemplate',
+  ChecklistItem: 'ChecklistItem',
+  ChecklistAnswer: 'ChecklistAnswer',
   ServiceItem: 'ServiceItem',
   ServiceRequest: 'ServiceRequest',
   Service_ServiceItems: 'Service_ServiceItems',
   Proposal: 'Proposal',
   ProposalItem: 'ProposalItem',
+  ProposalItemPart: 'ProposalItemPart',
+  ProposalRevision: 'ProposalRevision',
+  ProposalRevisionItem: 'ProposalRevisionItem',
+  ProposalRevisionPart: 'ProposalRevisionPart',
   Wallet: 'Wallet',
-  WithdrawalRequest: 'WithdrawalRequest'
+  WithdrawalRequest: 'WithdrawalRequest',
+  BookingStatusHistory: 'BookingStatusHistory',
+  BookingDecline: 'BookingDecline',
+  StockReservation: 'StockReservation',
+  Warranty: 'Warranty',
+  WarrantyClaim: 'WarrantyClaim',
+  ServiceRequestStatusHistory: 'ServiceRequestStatusHistory',
+  JobLocation: 'JobLocation',
+  WorkPolicy: 'WorkPolicy',
+  StaffAvailability: 'StaffAvailability',
+  StaffAvailabilityException: 'StaffAvailabilityException'
 };
 
 /**
@@ -0,0 +1,96 @@
+import { Coordinates, distanceInMeters } from './distance';
+
+export interface TravelEstimate {
+  distanceMeters: number;
+  durationSeconds: number;
+}
+
+export interface DistanceMatrix {
+  readonly name: string;
+  // Entry [i][j] is travel from points[i] to points[j]; null when there is no route
+  measure(points: Coordinates[]): Promise<(TravelEstimate | null)[][]>;
+}
+
+export const DISTANCE_MATRIX_CONFIG = {
+  PROVIDER: process.env.DISTANCE_MATRIX || 'haversine',
+  // Average door-to-door speed in city traffic
+  AVERAGE_SPEED_KMH: parseFloat(process.env.ROUTE_AVERAGE_SPEED_KMH || '25'),
+  // Roads are longer than the straight line between two points
+  DETOUR_FACTOR: parseFloat(process.env.ROUTE_DETOUR_FACTOR || '1.3'),
+  OSRM_URL: process.env.OSRM_URL || 'https://router.project-osrm.org',
+  TIMEOUT: parseInt(process.env.DISTANCE_MATRIX_TIMEOUT || '5000', 10), // 5s
+} as const;
+
+/**
+ * Offline estimate from great-circle distance, stretched by a detour factor
+ * and driven at a constant average speed.
+ */
+export class HaversineDistanceMatrix implements DistanceMatrix {
+  readonly name = 'haversine';
+
+  constructor(
+    private readonly averageSpeedKmh = DISTANCE_MATRIX_CONFIG.AVERAGE_SPEED_KMH,
+    private readonly detourFactor = DISTANCE_MATRIX_CONFIG.DETOUR_FACTOR
+  ) {}
+
+  async measure(points: Coordinates[]): Promise<TravelEstimate[][]> {
+    const metersPerSecond = (this.averageSpeedKmh * 1000) / 3600;
+
+    return points.map((from) =>
+      points.map((to) => {
+        const distanceMeters = distanceInMeters(from, to) * this.detourFactor;
+        return { distanceMeters, durationSeconds: distanceMeters / metersPerSecond };
+      })
+    );
+  }
+}
+
+/**
+ * OSRM table service, for road distances and durations. Network failures
+ * are thrown to the caller.
+ */
+export class OsrmDistanceMatrix implements DistanceMatrix {
+  readonly name = 'osrm';
+
+  constructor(
+    private readonly baseUrl = DISTANCE_MATRIX_CONFIG.OSRM_URL,
+    private readonly timeout = DISTANCE_MATRIX_CONFIG.TIMEOUT
+  ) {}
+
+  async measure(points: Coordinates[]): Promise<(TravelEstimate | null)[][]> {
+    if (points.length === 0) return [];
+
+    const path = points.map((point) => `${point.longitude},${point.latitude}`).join(';');
+    const url = new URL(`/table/v1/driving/${path}`, this.baseUrl);
+    url.searchParams.set('annotations', 'duration,distance');
+
+    const response = await fetch(url, { signal: AbortSignal.timeout(this.timeout) });
+
+    if (!response.ok) {
+      throw new Error(`Distance matrix responded with ${response.status}`);
+    }
+
+    const { durations, distances } = (await response.json()) as {
+      durations: (number | null)[][];
+      distances: (number | null)[][];
+    };
+
+    return durations.map((row, i) =>
+      row.map((durationSeconds, j) => {
+        const distanceMeters = distances[i][j];
+        return durationSeconds === null || distanceMeters === null ? null : { distanceMeters, durationSeconds };
+      })
+    );
+  }
+}
+
+export function createDistanceMatrix(provider = DISTANCE_MATRIX_CONFIG.PROVIDER): DistanceMatrix {
+  switch (provider) {
+    case 'haversine':
+      return new HaversineDistanceMatrix();
+    case 'osrm':
+      return new OsrmDistanceMatrix();
+    default:
+      throw new Error(`Unknown distance matrix "${provider}"`);
+  }
+}
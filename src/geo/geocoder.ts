@@ -0,0 +1,80 @@
+import { Coordinates } from './distance';
+
+export interface Geocoder {
+  // Stored on JobLocation so coordinates can be traced back to their source
+  readonly name: string;
+  geocode(address: string): Promise<Coordinates | null>;
+}
+
+export const GEOCODER_CONFIG = {
+  PROVIDER: process.env.GEOCODER || 'nominatim',
+  URL: process.env.GEOCODER_URL || 'https://nominatim.openstreetmap.org',
+  USER_AGENT: process.env.GEOCODER_USER_AGENT || 'home-care-staff-service',
+  TIMEOUT: parseInt(process.env.GEOCODER_TIMEOUT || '5000', 10), // 5s
+} as const;
+
+const normalizeAddress = (address: string) => address.trim().toLowerCase().replace(/\s+/g, ' ');
+
+/**
+ * Offline geocoder backed by a fixed address table, for tests and local runs.
+ */
+export class StubGeocoder implements Geocoder {
+  readonly name = 'stub';
+  private readonly addresses = new Map<string, Coordinates>();
+
+  constructor(addresses: Record<string, Coordinates> = {}) {
+    for (const [address, coordinates] of Object.entries(addresses)) {
+      this.addresses.set(normalizeAddress(address), coordinates);
+    }
+  }
+
+  async geocode(address: string): Promise<Coordinates | null> {
+    return this.addresses.get(normalizeAddress(address)) ?? null;
+  }
+}
+
+/**
+ * OpenStreetMap Nominatim search API. Returns null when the address can't be
+ * resolved; network failures are thrown to the caller.
+ */
+export class NominatimGeocoder implements Geocoder {
+  readonly name = 'nominatim';
+
+  constructor(
+    private readonly baseUrl = GEOCODER_CONFIG.URL,
+    private readonly userAgent = GEOCODER_CONFIG.USER_AGENT,
+    private readonly timeout = GEOCODER_CONFIG.TIMEOUT
+  ) {}
+
+  async geocode(address: string): Promise<Coordinates | null> {
+    const url = new URL('/search', this.baseUrl);
+    url.searchParams.set('q', address);
+    url.searchParams.set('format', 'jsonv2');
+    url.searchParams.set('limit', '1');
+
+    const response = await fetch(url, {
+      headers: { 'User-Agent': this.userAgent, Accept: 'application/json' },
+      signal: AbortSignal.timeout(this.timeout),
+    });
+
+    if (!response.ok) {
+      throw new Error(`Geocoder responded with ${response.status}`);
+    }
+
+    const [match] = (await response.json()) as { lat: string; lon: string }[];
+    if (!match) return null;
+
+    return { latitude: Number(match.lat), longitude: Number(match.lon) };
+  }
+}
+
+export function createGeocoder(provider = GEOCODER_CONFIG.PROVIDER): Geocoder {
+  switch (provider) {
+    case 'stub':
+      return new StubGeocoder();
+    case 'nominatim':
+      return new NominatimGeocoder();
+    default:
+      throw new Error(`Unknown geocoder "${provider}"`);
+  }
+}
@@ -0,0 +1,95 @@
+import { AppError } from '../handlers/error';
+import { Coordinates, distanceInMeters } from './distance';
+
+export type GeofenceMode = 'off' | 'flag' | 'enforce';
+
+export interface GeofenceConfig {
+  // off: positions are only stored; flag: off-site sessions are marked; enforce: they are rejected
+  MODE: GeofenceMode;
+  RADIUS_METERS: number;
+}
+
+export const GEOFENCE_CONFIG: GeofenceConfig = {
+  MODE: (process.env.GEOFENCE_MODE || 'off') as GeofenceMode,
+  RADIUS_METERS: parseInt(process.env.GEOFENCE_RADIUS_METERS || '200', 10),
+};
+
+export interface ReportedPosition extends Coordinates {
+  // GPS accuracy radius in meters, as reported by the device
+  accuracy?: number;
+}
+
+// What gets stored on the work log for a check-in or check-out
+export interface SessionLocation {
+  latitude: number | null;
+  longitude: number | null;
+  // Null when the job location is unknown or the geofence is off
+  distanceMeters: number | null;
+  flagged: boolean;
+}
+
+/**
+ * Compares the staff member's reported position with the job location. The
+ * device's accuracy is given the benefit of the doubt, unless it is coarser
+ * than the radius itself and so can't place the staff member on site. A job
+ * that couldn't be located is flagged rather than rejected, since it can't be
+ * verified.
+ */
+export function evaluateGeofence(
+  job: Coordinates | null,
+  position: ReportedPosition | undefined,
+  config: GeofenceConfig = GEOFENCE_CONFIG
+): SessionLocation | undefined {
+  if (config.MODE === 'off') {
+    return position
+      ? { latitude: position.latitude, longitude: position.longitude, distanceMeters: null, flagged: false }
+      : undefined;
+  }
+
+  if (!position) {
+    if (config.MODE === 'enforce') {
+      throw new AppError(
+        'Current location is required',
+        [{ message: 'Error.LocationRequired', path: ['position'] }],
+        {},
+        400
+      );
+    }
+    return { latitude: null, longitude: null, distanceMeters: null, flagged: true };
+  }
+
+  if (!job) {
+    return { latitude: position.latitude, longitude: position.longitude, distanceMeters: null, flagged: true };
+  }
+
+  const distance = distanceInMeters(job, position);
+  const accuracy = position.accuracy ?? 0;
+  const imprecise = accuracy > config.RADIUS_METERS;
+
+  if (imprecise && config.MODE === 'enforce') {
+    throw new AppError(
+      'Current location is not precise enough to verify',
+      [{ message: 'Error.LocationTooImprecise', path: ['position', 'accuracy'] }],
+      { accuracyMeters: accuracy, radiusMeters: config.RADIUS_METERS },
+      400
+    );
+  }
+
+  const outside = imprecise || distance - accuracy > config.RADIUS_METERS;
+
+  if (outside && config.MODE === 'enforce') {
+    throw new AppError(
+      'Current location is too far from the job site',
+      [{ message: 'Error.OutsideGeofence', path: ['position'] }],
+      { distanceMeters: Math.round(distance), radiusMeters: config.RADIUS_METERS },
+      400
+    );
+  }
+
+  return {
+    latitude: position.latitude,
+    longitude: position.longitude,
+    distanceMeters: Math.round(distance),
+    flagged: outside,
+  };
+}
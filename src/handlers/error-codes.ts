@@ -0,0 +1,132 @@
+export interface ErrorCodeDefinition {
+    code: string;
+    statusCode: number;
+    description: string;
+}
+
+/**
+ * Catalogue of AppError codes (the `message.message` of an error envelope)
+ * that message types can return. Used to document each message's failures.
+ */
+export const ERROR_CODES = {
+    // Dispatch-level
+    InvalidPayload: { code: 'Error.InvalidPayload', statusCode: 400, description: 'Payload failed schema validation' },
+    UnknownRequestType: { code: 'Error.UnknownRequestType', statusCode: 400, description: 'Message type is not registered' },
+    AttachmentsNotAccepted: { code: 'Error.AttachmentsNotAccepted', statusCode: 400, description: 'Frame carried attachments but the message takes none' },
+    InvalidResponseShape: { code: 'Error.InvalidResponseShape', statusCode: 500, description: 'Handler result did not match its output schema' },
+    Unexpected: { code: 'Error.Unexpected', statusCode: 500, description: 'Unhandled server error' },
+
+    // Authentication
+    Unauthenticated: { code: 'Error.Unauthenticated', statusCode: 401, description: 'Credentials are required but missing' },
+    InvalidAccessToken: { code: 'Error.InvalidAccessToken', statusCode: 401, description: 'Access token is invalid or expired' },
+    InvalidGatewayIdentity: { code: 'Error.InvalidGatewayIdentity', statusCode: 401, description: 'Gateway key or user id header is invalid' },
+    NotStaffAccount: { code: 'Error.NotStaffAccount', statusCode: 403, description: 'Authenticated user is neither an active staff member nor a provider manager' },
+    PermissionDenied: { code: 'Error.PermissionDenied', statusCode: 403, description: "Caller's roles do not grant the message's permission" },
+
+    // Parameters
+    MissingParameters: { code: 'Error.MissingParameters', statusCode: 400, description: 'Required identifiers are missing' },
+    MissingRequiredFields: { code: 'Error.MissingRequiredFields', statusCode: 400, description: 'Required fields are missing' },
+    InvalidStaffId: { code: 'Error.InvalidStaffId', statusCode: 400, description: 'Staff id is not a positive integer' },
+    InvalidBookingId: { code: 'Error.InvalidBookingId', statusCode: 400, description: 'Booking id is not a positive integer' },
+    InvalidInspectionId: { code: 'Error.InvalidInspectionId', statusCode: 400, description: 'Inspection id is not a positive integer' },
+    InvalidBookingStatus: { code: 'Error.InvalidBookingStatus', statusCode: 400, description: 'Status filter is not a BookingStatus value' },
+    InvalidDateFormat: { code: 'Error.InvalidDateFormat', statusCode: 400, description: 'Date is not in YYYY-MM-DD format' },
+    InvalidMonth: { code: 'Error.InvalidMonth', statusCode: 400, description: 'Month is outside 1-12' },
+    InvalidYear: { code: 'Error.InvalidYear', statusCode: 400, description: 'Year is out of the supported range' },
+    InvalidDateRange: { code: 'Error.InvalidDateRange', statusCode: 400, description: 'Date range is reversed or longer than allowed' },
+
+    // Lookups & ownership
+    NotFound: { code: 'NotFound', statusCode: 404, description: 'Requested record does not exist' },
+    BookingNotFound: { code: 'Error.BookingNotFound', statusCode: 404, description: 'Booking does not exist' },
+    AvailabilityExceptionNotFound: { code: 'Error.AvailabilityExceptionNotFound', statusCode: 404, description: 'Staff member has no such availability exception' },
+    NoProposalFound: { code: 'Error.NoProposalFound', statusCode: 404, description: 'Booking has no proposal yet' },
+    ProposalVersionNotFound: { code: 'Error.ProposalVersionNotFound', statusCode: 404, description: 'Proposal has no such version' },
+    UnauthorizedAccess: { code: 'Error.UnauthorizedAccess', statusCode: 403, description: 'Staff does not own the requested resource' },
+    MissingServiceRequestId: { code: 'Error.MissingServiceRequestId', statusCode: 500, description: 'Booking is not linked to a service request' },
+    InvalidStatusTransition: { code: 'Error.InvalidStatusTransition', statusCode: 409, description: 'Booking or service request cannot move to the requested status' },
+    BookingInProgress: { code: 'Error.BookingInProgress', statusCode: 409, description: 'Work on the booking has started, so it can no longer be declined' },
+
+    // Inspection reports
+    CreateInspectionReportBookingConnectError: { code: 'Error.CreateInspectionReportBookingConnectError', statusCode: 400, description: 'Inspection report is not linked to a booking' },
+    InspectionReportExists: { code: 'Error.InspectionReportExists', statusCode: 400, description: 'Booking already has an inspection report' },
+    NoValidUpdateData: { code: 'Error.NoValidUpdateData', statusCode: 400, description: 'Update contains no usable fields' },
+    ReportUpdateTooLate: { code: 'Error.ReportUpdateTooLate', statusCode: 400, description: 'Report is older than the update window' },
+    InvalidChecklistAnswers: { code: 'Error.InvalidChecklistAnswers', statusCode: 400, description: "Checklist answers are missing, of the wrong type or unknown to the category's template" },
+    NoChecklistTemplate: { code: 'Error.NoChecklistTemplate', statusCode: 400, description: "Checklist answers were sent but the booking's category has no checklist" },
+    InvalidInspectionPhoto: { code: 'Error.InvalidInspectionPhoto', statusCode: 400, description: 'Attached photo is not a JPEG, PNG or WebP image' },
+    CategoryNotAssigned: { code: 'Error.CategoryNotAssigned', statusCode: 403, description: 'Staff member does not work in the requested category' },
+
+    // Proposals
+    InspectionRequired: { code: 'Error.InspectionRequired', statusCode: 400, description: 'Booking must have an inspection report before it can be quoted' },
+    ServiceNotAvailable: { code: 'Error.ServiceNotAvailable', statusCode: 400, description: "Service is not an approved offering of the booking's provider" },
+    PartNotAvailable: { code: 'Error.PartNotAvailable', statusCode: 400, description: "Part is not an active item of the booking's provider" },
+    ProposalExists: { code: 'Error.ProposalExists', statusCode: 409, description: 'Booking already has a proposal' },
+    ProposalNotEditable: { code: 'Error.ProposalNotEditable', statusCode: 409, description: 'Customer already acted on the proposal' },
+    InsufficientStock: { code: 'Error.InsufficientStock', statusCode: 409, description: 'Not enough of a part is left in stock to reserve it' },
+
+    // Warranties
+    WarrantyNotFound: { code: 'Error.WarrantyNotFound', statusCode: 404, description: 'Warranty does not exist' },
+    WarrantyExpired: { code: 'Error.WarrantyExpired', statusCode: 409, description: 'Warranty ended before the claim was opened' },
+    WarrantyClaimOpen: { code: 'Error.WarrantyClaimOpen', statusCode: 409, description: 'Warranty already has a claim booking in progress' },
+
+    // Work logs
+    InvalidBookingStatusForCheckIn: { code: 'Error.InvalidBookingStatusForCheckIn', statusCode: 400, description: 'Booking can no longer be checked in to' },
+    AlreadyCheckedIn: { code: 'Error.AlreadyCheckedIn', statusCode: 400, description: 'Staff already checked in to this booking' },
+    DateMismatchPreferredDate: { code: 'Error.DateMismatchPreferredDate', statusCode: 400, description: "Check-in is outside the work policy's tolerance around the preferred date" },
+    AlreadyCheckedOut: { code: 'Error.AlreadyCheckedOut', statusCode: 400, description: 'Work log is already checked out' },
+    MissingCheckIn: { code: 'Error.MissingCheckIn', statusCode: 400, description: 'Work log has no check-in time' },
+    CheckOutTooLate: { code: 'Error.CheckOutTooLate', statusCode: 400, description: "Session has been open longer than the work policy's maximum, so it can't be checked out, paused or finished until the sweeper auto-closes it" },
+    WorkPaused: { code: 'Error.WorkPaused', statusCode: 400, description: 'Work is paused and must be resumed instead' },
+    WorkNotPaused: { code: 'Error.WorkNotPaused', statusCode: 400, description: 'Latest work session was not paused' },
+    NoWorkSessions: { code: 'Error.NoWorkSessions', statusCode: 400, description: 'Booking has no work sessions to finish' },
+    LocationRequired: { code: 'Error.LocationRequired', statusCode: 400, description: 'Position is required while the geofence is enforced' },
+    OutsideGeofence: { code: 'Error.OutsideGeofence', statusCode: 400, description: 'Position is outside the allowed radius of the job site' },
+    LocationTooImprecise: { code: 'Error.LocationTooImprecise', statusCode: 400, description: 'Reported GPS accuracy is coarser than the geofence radius while the geofence is enforced' },
+    WorkLogNotFound: { code: 'Error.WorkLogNotFound', statusCode: 404, description: 'Work log does not exist' },
+    WorkLogNotAutoClosed: { code: 'Error.WorkLogNotAutoClosed', statusCode: 400, description: 'Only work logs closed by the sweeper can be corrected' },
+    InvalidCorrectionTimes: { code: 'Error.InvalidCorrectionTimes', statusCode: 400, description: 'Corrected check-out is not after check-in or is in the future' },
+
+    // Repository failures
+    GetBookingDetailError: { code: 'Repo.GetBookingDetailError', statusCode: 500, description: 'Booking detail could not be loaded' },
+    CreateInspectionReportError: { code: 'Error.CreateInspectionReportError', statusCode: 500, description: 'Inspection report could not be created' },
+    UpdateInspectionReportError: { code: 'Error.UpdateInspectionReportError', statusCode: 500, description: 'Inspection report could not be updated' },
+    GetReviewsError: { code: 'Error.GetReviewsError', statusCode: 500, description: 'Reviews could not be loaded' },
+    GetReviewSummaryError: { code: 'Error.GetReviewSummaryError', statusCode: 500, description: 'Review summary could not be computed' },
+    GetInspectionReportByIdError: { code: 'Error.GetInspectionReportByIdError', statusCode: 500, description: 'Inspection report could not be loaded' },
+    GetInspectionReportsByStaffError: { code: 'Error.GetInspectionReportsByStaffError', statusCode: 500, description: 'Inspection reports could not be loaded' },
+    GetAllInspectionReportsError: { code: 'Error.GetAllInspectionReportsError', statusCode: 500, description: 'Inspection reports could not be loaded' },
+    GetRecentWorkLogsError: { code: 'Error.GetRecentWorkLogsError', statusCode: 500, description: 'Work logs could not be loaded' },
+    GetStaffPerformanceError: { code: 'Error.GetStaffPerformanceError', statusCode: 500, description: 'Performance could not be computed' },
+    CreateWorkLogError: { code: 'Error.CreateWorkLogError', statusCode: 500, description: 'Work log could not be created' },
+    GetJobLocationError: { code: 'Error.GetJobLocationError', statusCode: 500, description: 'Job location could not be loaded' },
+    SaveJobLocationError: { code: 'Error.SaveJobLocationError', statusCode: 500, description: 'Geocoded job location could not be stored' },
+    ListAutoClosedLogsError: { code: 'Error.ListAutoClosedLogsError', statusCode: 500, description: 'Auto-closed work logs could not be loaded' },
+    CorrectWorkLogError: { code: 'Error.CorrectWorkLogError', statusCode: 500, description: 'Work log correction could not be saved' },
+    GetAvailabilityError: { code: 'Error.GetAvailabilityError', statusCode: 500, description: 'Availability could not be loaded' },
+    SaveAvailabilityError: { code: 'Error.SaveAvailabilityError', statusCode: 500, description: 'Availability could not be saved' },
+    GetScheduleError: { code: 'Error.GetScheduleError', statusCode: 500, description: 'Scheduled bookings could not be loaded' },
+    GetProposalByBookingError: { code: 'Error.GetProposalByBookingError', statusCode: 500, description: 'Proposal could not be loaded' },
+    GetChecklistTemplateError: { code: 'Error.GetChecklistTemplateError', statusCode: 500, description: 'Inspection checklist could not be loaded' },
+    DeclineBookingError: { code: 'Error.DeclineBookingError', statusCode: 500, description: 'Booking decline could not be saved' },
+    SaveProposalError: { code: 'Error.SaveProposalError', statusCode: 500, description: 'Proposal could not be saved' },
+    SearchServiceItemsError: { code: 'Error.SearchServiceItemsError', statusCode: 500, description: 'Service items could not be searched' },
+    LookupWarrantyError: { code: 'Error.LookupWarrantyError', statusCode: 500, description: 'Warranties could not be loaded' },
+    OpenWarrantyClaimError: { code: 'Error.OpenWarrantyClaimError', statusCode: 500, description: 'Warranty claim booking could not be created' },
+} as const satisfies Record<string, ErrorCodeDefinition>;
+
+// Every message can fail with these regardless of its handler
+export const COMMON_ERRORS: ErrorCodeDefinition[] = [
+    ERROR_CODES.InvalidPayload,
+    ERROR_CODES.UnknownRequestType,
+    ERROR_CODES.AttachmentsNotAccepted,
+    ERROR_CODES.InvalidResponseShape,
+    ERROR_CODES.Unexpected,
+];
+
+// Added for every message that is not public
+export const AUTH_ERRORS: ErrorCodeDefinition[] = [
+    ERROR_CODES.Unauthenticated,
+    ERROR_CODES.InvalidAccessToken,
+    ERROR_CODES.InvalidGatewayIdentity,
+    ERROR_CODES.NotStaffAccount,
+];
@@ -0,0 +1,158 @@
+import { z } from 'zod';
+import { createSchema } from 'zod-openapi';
+import { RequestContext, StaffIdentity } from '../auth/identity';
+import { PermissionGuard } from '../auth/permission-guard';
+import { AppError } from './error';
+import { ErrorCodeDefinition } from './error-codes';
+import { parseWithSchema } from './parseWithSchema';
+
+export interface MessageDefinition<I extends z.ZodTypeAny = z.ZodTypeAny, O extends z.ZodTypeAny = z.ZodTypeAny> {
+    type: string;
+    description: string;
+    // Message returned in the success envelope
+    successMessage: string;
+    input: I;
+    output: O;
+    // AppError codes the handler can raise, on top of COMMON_ERRORS
+    errors?: ErrorCodeDefinition[];
+    // Callable without credentials even when AUTH_MODE=required
+    public?: boolean;
+    // Permission name the caller's roles must grant (see PERMISSIONS)
+    permission?: string;
+    // Payload staffId is replaced by the authenticated staff member's id
+    staffScoped?: boolean;
+    // Refused without an authenticated caller, even when AUTH_MODE is off or optional
+    requiresIdentity?: boolean;
+    // Frame attachments reach the handler through its context; refused otherwise
+    acceptsAttachments?: boolean;
+    handler: (input: z.output<I>, context: RequestContext) => Promise<z.input<O>>;
+}
+
+export interface MessageDescription {
+    type: string;
+    description: string;
+    input: unknown;
+    output: unknown;
+}
+
+export interface DispatchResult {
+    message: string;
+    data: unknown;
+}
+
+export function defineMessage<I extends z.ZodTypeAny, O extends z.ZodTypeAny>(
+    definition: MessageDefinition<I, O>
+): MessageDefinition<I, O> {
+    return definition;
+}
+
+export interface MessageRegistryOptions {
+    // Enforces `permission` for authenticated callers; unchecked when absent
+    guard?: PermissionGuard;
+    // Rewrites the payload of `staffScoped` messages for authenticated callers
+    staffScope?: (data: unknown, identity: StaffIdentity) => Promise<unknown>;
+}
+
+export class MessageRegistry {
+    private definitions = new Map<string, MessageDefinition>();
+    private descriptions: MessageDescription[] | null = null;
+
+    constructor(private readonly options: MessageRegistryOptions = {}) {}
+
+    register(...definitions: MessageDefinition<any, any>[]): this {
+        for (const definition of definitions) {
+            if (this.definitions.has(definition.type)) {
+                throw new Error(`Message type ${definition.type} is already registered`);
+            }
+            this.definitions.set(definition.type, definition);
+        }
+        this.descriptions = null;
+        return this;
+    }
+
+    has(type: string): boolean {
+        return this.definitions.has(type);
+    }
+
+    get(type: string): MessageDefinition | undefined {
+        return this.definitions.get(type);
+    }
+
+    list(): MessageDefinition[] {
+        return [...this.definitions.values()];
+    }
+
+    /**
+     * Validates the payload against the input schema, runs the handler and
+     * strips the result down to the declared output schema.
+     */
+    async dispatch(type: string, data: unknown, context: RequestContext = {}): Promise<DispatchResult> {
+        const definition = this.definitions.get(type);
+
+        if (!definition) {
+            throw new AppError(
+                'Error.UnknownRequestType',
+                [{ message: 'Unknown request type', path: ['type'] }],
+                { receivedType: type },
+                400
+            );
+        }
+
+        if (context.attachments?.length && !definition.acceptsAttachments) {
+            throw new AppError(
+                'Message does not accept attachments',
+                [{ message: 'Error.AttachmentsNotAccepted', path: ['attachments'] }],
+                { type, attachments: context.attachments.length },
+                400
+            );
+        }
+
+        if (definition.requiresIdentity && !context.identity) {
+            throw new AppError(
+                'Authentication required',
+                [{ message: 'Error.Unauthenticated', path: ['auth'] }],
+                { type },
+                401
+            );
+        }
+
+        if (this.options.guard && definition.permission && context.identity) {
+            await this.options.guard.assert(context.identity, definition.permission);
+        }
+
+        const { staffScope } = this.options;
+        const scoped = staffScope && definition.staffScoped && context.identity
+            ? await staffScope(data, context.identity)
+            : data;
+
+        const input = parseWithSchema(definition.input, scoped);
+        const result = await definition.handler(input, context);
+        const shaped = definition.output.safeParse(result);
+
+        if (!shaped.success) {
+            throw new AppError(
+                'Error.InvalidResponseShape',
+                [{ message: 'Handler result does not match its output schema', path: [] }],
+                { type, issues: shaped.error.issues },
+                500
+            );
+        }
+
+        return { message: definition.successMessage, data: shaped.data };
+    }
+
+    /**
+     * JSON Schema for every registered message, generated from its zod definitions.
+     */
+    describe(): MessageDescription[] {
+        if (!this.descriptions) {
+            this.descriptions = this.list().map((definition) => ({
+                type: definition.type,
+                description: definition.description,
+                input: createSchema(definition.input, { schemaType: 'input' }).schema,
+                output: createSchema(definition.output, { schemaType: 'output' }).schema,
+            }));
+        }
+        return this.descriptions;
+    }
+}
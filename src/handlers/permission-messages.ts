@@ -0,0 +1,25 @@
+import { z } from 'zod';
+import { PermissionGuard } from '../auth/permission-guard';
+import { PERMISSIONS } from '../auth/permissions';
+import { defineMessage } from './message-registry';
+
+/**
+ * Roles are edited by the admin service, which sends this message after a
+ * change so it applies right away instead of after PERMISSION_CACHE_TTL.
+ */
+export const invalidatePermissionsMessage = (guard: PermissionGuard) =>
+    defineMessage({
+        type: 'SYSTEM_INVALIDATE_PERMISSIONS',
+        description: "Drops the cached permissions of one role, or of every role when none is given, after the role's grants changed",
+        successMessage: 'Permission cache invalidated successfully',
+        input: z.object({ roleName: z.string().min(1).max(100).optional() }).default({}),
+        output: z.object({
+            // Null when every role was invalidated
+            roleName: z.string().nullable(),
+        }),
+        permission: PERMISSIONS.PermissionsInvalidate,
+        handler: async (input) => {
+            guard.invalidate(input.roleName);
+            return { roleName: input.roleName ?? null };
+        },
+    });
@@ -1,74 +1,760 @@
+import { z } from 'zod';
+import { applyStaffScope, AUTH_CONFIG, authenticateRequest } from '../auth/authenticate';
+import { GatewayHeaders, RequestAuth } from '../auth/identity';
+import { PermissionGuard } from '../auth/permission-guard';
+import { PERMISSIONS } from '../auth/permissions';
 import { TCPResponseSuccess } from '../interfaces/tcp-response.interface';
+import { AuthRepository } from '../repositories/auth.repository';
 import {
+    AcceptBookingSchema,
+    AddAvailabilityExceptionSchema,
+    CheckInSchema,
+    CheckOutSchema,
+    CorrectWorkLogSchema,
+    CreateInspectionReportSchema,
+    CreateProposalSchema,
+    DeclineBookingSchema,
+    ExportCalendarSchema,
+    FinishJobSchema,
+    GetBookingDetailSchema,
     GetBookingsByDateSchema,
     GetBookingsListSchema,
-    GetReviewsSchema,
-    GetRecentWorkLogsSchema,
+    GetAvailabilityCalendarSchema,
+    GetAvailabilitySchema,
+    GetBookingWorkflowSchema,
+    GetChecklistTemplateSchema,
+    GetDailyRouteSchema,
+    GetInspectionDetailSchema,
     GetInspectionReportsSchema,
+    GetMonthlyStatsSchema,
+    GetPendingAssignmentsSchema,
+    GetRecentWorkLogsSchema,
+    GetReviewsSchema,
+    GetScheduleConflictsSchema,
+    GetWorkPolicySchema,
+    ListAutoClosedLogsSchema,
+    LookupWarrantySchema,
+    OpenWarrantyClaimSchema,
+    PauseWorkSchema,
+    RemoveAvailabilityExceptionSchema,
+    ResumeWorkSchema,
+    SearchServiceItemsSchema,
+    SetWeeklyAvailabilitySchema,
+    StaffIdSchema,
+    UpdateInspectionReportPayloadSchema,
+    UpdateProposalSchema,
 } from '../schemas/app.schema';
 import {
-    CreateInspectionReportDto,
-    UpdateInspectionReportDto,
-} from '../schemas/type';
+    AcceptBookingResponseSchema,
+    AllInspectionReportsResponseSchema,
+    AutoClosedLogsResponseSchema,
+    AvailabilityCalendarResponseSchema,
+    AvailabilityExceptionResponseSchema,
+    AvailabilityResponseSchema,
+    BookingDetailResponseSchema,
+    BookingsByDateResponseSchema,
+    BookingsListResponseSchema,
+    CalendarExportResponseSchema,
+    CheckOutResponseSchema,
+    ChecklistTemplateResponseSchema,
+    DailyRouteResponseSchema,
+    DeclineBookingResponseSchema,
+    FinishJobResponseSchema,
+    InspectionReportDetailResponseSchema,
+    InspectionReportResponseSchema,
+    InspectionReportsListResponseSchema,
+    MonthlyStatsResponseSchema,
+    PendingAssignmentsResponseSchema,
+    PerformanceResponseSchema,
+    ProposalHistoryResponseSchema,
+    ProposalResponseSchema,
+    ServiceItemSearchResponseSchema,
+    WarrantyClaimResponseSchema,
+    WarrantyLookupResponseSchema,
+    RemoveAvailabilityExceptionResponseSchema,
+    ReviewsResponseSchema,
+    ReviewSummaryResponseSchema,
+    ScheduleConflictsResponseSchema,
+    WeeklyAvailabilityResponseSchema,
+    WorkLogResponseSchema,
+    WorkLogsResponseSchema,
+    WorkPolicyResponseSchema,
+} from '../schemas/response.schema';
+import { AvailabilityService } from '../services/availability.service';
+import { ChecklistService } from '../services/checklist.service';
+import { InventoryService } from '../services/inventory.service';
+import { ProposalService } from '../services/proposal.service';
+import { ScheduleService } from '../services/schedule.service';
 import { StaffService } from '../services/staff.service';
+import { WarrantyService } from '../services/warranty.service';
+import { WorkLogReviewService } from '../services/work-log-review.service';
 import { AppError } from './error';
-import { parseWithSchema } from './parseWithSchema';
+import { ERROR_CODES } from './error-codes';
+import { defineMessage, MessageRegistry } from './message-registry';
+import { invalidatePermissionsMessage } from './permission-messages';
 import { throwRpcAppError } from './throwRpcAppError';
 
 interface TCPPayload {
+    // Correlation id chosen by the caller, echoed back in the response envelope
+    id?: string | number;
     type: string;
     data: any;
-}
-
-interface HandlerResult {
-    message: string;
-    data: any;
+    // Raw binary parts, only present on length-prefixed connections
+    attachments?: Buffer[];
+    auth?: RequestAuth;
+    headers?: GatewayHeaders;
 }
 
 type HandleTCPReturn<T = any> = TCPResponseSuccess<T>;
 
-// Handler map for better performance and maintainability
-const HANDLER_MAP = new Map<string, (data: any) => Promise<HandlerResult>>([
-    ['STAFF_GET_BOOKINGS', handleGetBookings],
-    ['STAFF_GET_BOOKING_DETAIL', handleGetBookingDetail],
-    ['STAFF_CREATE_INSPECTION_REPORT', handleCreateInspectionReport],
-    ['STAFF_GET_REVIEWS', handleGetReviews],
-    ['STAFF_GET_INSPECTION_REPORTS', handleGetInspectionReports],
-    ['STAFF_GET_INSPECTION_DETAIL', handleGetInspectionDetail],
-    ['UPDATE_INSPECTION_REPORT', handleUpdateInspectionReport],
-    ['STAFF_GET_WORK_LOGS', handleGetWorkLogs],
-    ['STAFF_GET_PERFORMANCE', handleGetPerformance],
-    ['STAFF_GET_REVIEW_SUMMARY', handleGetReviewSummary],
-    ['STAFF_CREATE_WORK_LOG', handleCreateWorkLog],
-    ['STAFF_CHECK_OUT', handleCheckOut],
-    ['STAFF_GET_BOOKINGS_BY_DATE', handleGetBookingsByDate],
-    ['STAFF_GET_MONTHLY_STATS', handleGetMonthlyStats],
-    ['STAFF_GET_INSPECTION_STAFF', handleGetInspectionByStaff],
-    ['STAFF_GET_PROPOSAL', handleGetBookingWorkflow],
-]);
+// Raised while checking a session's position against the job site
+const GEOFENCE_ERRORS = [
+    ERROR_CODES.LocationRequired,
+    ERROR_CODES.OutsideGeofence,
+    ERROR_CODES.LocationTooImprecise,
+    ERROR_CODES.GetJobLocationError,
+    ERROR_CODES.SaveJobLocationError,
+];
+
+export const permissionGuard = new PermissionGuard(
+    { getRolePermissions: (roleName) => AuthRepository.findPermissionNamesByRole(roleName) },
+    { ttl: AUTH_CONFIG.PERMISSION_CACHE_TTL }
+);
+
+export const messageRegistry = new MessageRegistry({
+    guard: AUTH_CONFIG.RBAC_ENABLED ? permissionGuard : undefined,
+    staffScope: applyStaffScope,
+});
+
+messageRegistry.register(
+    defineMessage({
+        type: 'STAFF_GET_BOOKINGS',
+        description: 'Paginated bookings assigned to a staff member, filterable by status, keyword and a date range on the scheduled, created or check-in date (Vietnam time)',
+        successMessage: 'Staff bookings retrieved successfully',
+        input: GetBookingsListSchema,
+        output: BookingsListResponseSchema,
+        errors: [ERROR_CODES.InvalidBookingStatus],
+        permission: PERMISSIONS.BookingsRead,
+        staffScoped: true,
+        handler: (input) => StaffService.getBookingsList(input.staffId, input),
+    }),
+    defineMessage({
+        type: 'STAFF_GET_BOOKING_DETAIL',
+        description: 'Detail of a single booking owned by the staff member',
+        successMessage: 'Booking detail retrieved successfully',
+        input: GetBookingDetailSchema,
+        output: BookingDetailResponseSchema,
+        errors: [ERROR_CODES.MissingParameters, ERROR_CODES.GetBookingDetailError],
+        permission: PERMISSIONS.BookingsRead,
+        staffScoped: true,
+        handler: (input) => StaffService.getBookingDetail(input.bookingId, input.staffId),
+    }),
+    defineMessage({
+        type: 'STAFF_LIST_PENDING_ASSIGNMENTS',
+        description: 'Bookings assigned to a staff member that are still pending and not yet started, awaiting their accept or decline, soonest first',
+        successMessage: 'Pending assignments retrieved successfully',
+        input: GetPendingAssignmentsSchema,
+        output: PendingAssignmentsResponseSchema,
+        permission: PERMISSIONS.BookingsRead,
+        staffScoped: true,
+        handler: (input) => StaffService.getPendingAssignments(input.staffId, input),
+    }),
+    defineMessage({
+        type: 'STAFF_ACCEPT_BOOKING',
+        description: 'Accepts an assigned booking, moving it from PENDING to CONFIRMED',
+        successMessage: 'Booking accepted successfully',
+        input: AcceptBookingSchema,
+        output: AcceptBookingResponseSchema,
+        errors: [
+            ERROR_CODES.MissingParameters,
+            ERROR_CODES.BookingNotFound,
+            ERROR_CODES.UnauthorizedAccess,
+            ERROR_CODES.InvalidStatusTransition,
+        ],
+        permission: PERMISSIONS.BookingsRespond,
+        staffScoped: true,
+        handler: (input) => StaffService.acceptBooking(input.staffId, input.bookingId),
+    }),
+    defineMessage({
+        type: 'STAFF_DECLINE_BOOKING',
+        description: 'Declines a pending or accepted booking that has not been started: unassigns the staff member, returns it to PENDING, records the reason and notifies the provider to reassign it',
+        successMessage: 'Booking declined successfully',
+        input: DeclineBookingSchema,
+        output: DeclineBookingResponseSchema,
+        errors: [
+            ERROR_CODES.MissingParameters,
+            ERROR_CODES.MissingRequiredFields,
+            ERROR_CODES.BookingNotFound,
+            ERROR_CODES.UnauthorizedAccess,
+            ERROR_CODES.BookingInProgress,
+            ERROR_CODES.InvalidStatusTransition,
+            ERROR_CODES.DeclineBookingError,
+        ],
+        permission: PERMISSIONS.BookingsRespond,
+        staffScoped: true,
+        handler: (input) => StaffService.declineBooking(input.staffId, input.bookingId, input.reason),
+    }),
+    defineMessage({
+        type: 'STAFF_CREATE_INSPECTION_REPORT',
+        description: "Creates the inspection report for a booking with answers to its category's checklist and marks its service request as estimated. JPEG, PNG or WebP photos may be sent inline as frame attachments",
+        successMessage: 'Inspection report created successfully',
+        input: CreateInspectionReportSchema,
+        output: InspectionReportResponseSchema,
+        errors: [
+            ERROR_CODES.MissingRequiredFields,
+            ERROR_CODES.CreateInspectionReportBookingConnectError,
+            ERROR_CODES.BookingNotFound,
+            ERROR_CODES.UnauthorizedAccess,
+            ERROR_CODES.InspectionReportExists,
+            ERROR_CODES.InvalidStatusTransition,
+            ERROR_CODES.MissingServiceRequestId,
+            ERROR_CODES.InvalidChecklistAnswers,
+            ERROR_CODES.NoChecklistTemplate,
+            ERROR_CODES.InvalidInspectionPhoto,
+            ERROR_CODES.GetChecklistTemplateError,
+            ERROR_CODES.CreateInspectionReportError,
+        ],
+        permission: PERMISSIONS.InspectionsWrite,
+        staffScoped: true,
+        acceptsAttachments: true,
+        handler: (input, context) => StaffService.createInspectionReport(input, context.attachments),
+    }),
+    defineMessage({
+        type: 'STAFF_GET_REVIEWS',
+        description: 'Paginated customer reviews for a staff member',
+        successMessage: 'Staff reviews retrieved successfully',
+        input: GetReviewsSchema,
+        output: ReviewsResponseSchema,
+        errors: [ERROR_CODES.GetReviewsError],
+        permission: PERMISSIONS.ReviewsRead,
+        staffScoped: true,
+        handler: (input) => StaffService.getReviews(input.staffId, input),
+    }),
+    defineMessage({
+        type: 'STAFF_GET_INSPECTION_REPORTS',
+        description: 'Paginated inspection reports written by a staff member',
+        successMessage: 'Inspection reports retrieved successfully',
+        input: GetInspectionReportsSchema,
+        output: InspectionReportsListResponseSchema,
+        errors: [ERROR_CODES.GetInspectionReportsByStaffError],
+        permission: PERMISSIONS.InspectionsRead,
+        staffScoped: true,
+        handler: (input) => StaffService.getInspectionReportsByStaff(input.staffId, input),
+    }),
+    defineMessage({
+        type: 'STAFF_GET_INSPECTION_DETAIL',
+        description: 'Detail of a single inspection report',
+        successMessage: 'Inspection report detail retrieved successfully',
+        input: GetInspectionDetailSchema,
+        output: InspectionReportDetailResponseSchema,
+        errors: [
+            ERROR_CODES.MissingParameters,
+            ERROR_CODES.InvalidInspectionId,
+            ERROR_CODES.UnauthorizedAccess,
+            ERROR_CODES.GetInspectionReportByIdError,
+        ],
+        permission: PERMISSIONS.InspectionsRead,
+        staffScoped: true,
+        handler: (input) => StaffService.getInspectionReportById(input.staffId, input.inspectionId),
+    }),
+    defineMessage({
+        type: 'UPDATE_INSPECTION_REPORT',
+        description: 'Updates note, images, estimated time or checklist answers of an inspection report within 24 hours of creation',
+        successMessage: 'Inspection report updated successfully',
+        input: UpdateInspectionReportPayloadSchema,
+        output: InspectionReportResponseSchema,
+        errors: [
+            ERROR_CODES.NoValidUpdateData,
+            ERROR_CODES.NotFound,
+            ERROR_CODES.UnauthorizedAccess,
+            ERROR_CODES.ReportUpdateTooLate,
+            ERROR_CODES.InvalidChecklistAnswers,
+            ERROR_CODES.NoChecklistTemplate,
+            ERROR_CODES.GetChecklistTemplateError,
+            ERROR_CODES.UpdateInspectionReportError,
+        ],
+        permission: PERMISSIONS.InspectionsWrite,
+        staffScoped: true,
+        handler: (input) =>
+            StaffService.updateInspectionReport(input.staffId, input.inspectionId, input.dataInspection),
+    }),
+    defineMessage({
+        type: 'STAFF_GET_CHECKLIST_TEMPLATE',
+        description: "Inspection checklist for a booking's category (or one of the staff member's categories), inherited from the nearest parent category when the category has none",
+        successMessage: 'Checklist template retrieved successfully',
+        input: GetChecklistTemplateSchema,
+        output: ChecklistTemplateResponseSchema,
+        errors: [
+            ERROR_CODES.MissingParameters,
+            ERROR_CODES.BookingNotFound,
+            ERROR_CODES.UnauthorizedAccess,
+            ERROR_CODES.CategoryNotAssigned,
+            ERROR_CODES.GetChecklistTemplateError,
+        ],
+        permission: PERMISSIONS.InspectionsRead,
+        staffScoped: true,
+        handler: (input) => ChecklistService.getTemplate(input.staffId, input),
+    }),
+    defineMessage({
+        type: 'STAFF_GET_WORK_LOGS',
+        description: 'Most recent work logs of a staff member',
+        successMessage: 'Recent work logs retrieved successfully',
+        input: GetRecentWorkLogsSchema,
+        output: WorkLogsResponseSchema,
+        errors: [ERROR_CODES.GetRecentWorkLogsError],
+        permission: PERMISSIONS.WorkLogsRead,
+        staffScoped: true,
+        handler: (input) => StaffService.getRecentWorkLogs(input.staffId, input),
+    }),
+    defineMessage({
+        type: 'STAFF_GET_PERFORMANCE',
+        description: 'Lifetime booking, hours and rating totals for a staff member',
+        successMessage: 'Staff performance retrieved successfully',
+        input: StaffIdSchema,
+        output: PerformanceResponseSchema,
+        errors: [ERROR_CODES.InvalidStaffId, ERROR_CODES.GetStaffPerformanceError],
+        permission: PERMISSIONS.PerformanceRead,
+        staffScoped: true,
+        handler: (input) => StaffService.getStaffPerformanceById(input.staffId),
+    }),
+    defineMessage({
+        type: 'STAFF_GET_REVIEW_SUMMARY',
+        description: 'Number of reviews per star rating for a staff member',
+        successMessage: 'Review summary retrieved successfully',
+        input: StaffIdSchema,
+        output: ReviewSummaryResponseSchema,
+        errors: [ERROR_CODES.GetReviewSummaryError],
+        permission: PERMISSIONS.ReviewsRead,
+        staffScoped: true,
+        handler: (input) => StaffService.getReviewSummary(input.staffId),
+    }),
+    defineMessage({
+        type: 'STAFF_CREATE_WORK_LOG',
+        description: 'Starts a work session on a booking. The first session moves its service request to in progress and must fall near the preferred date',
+        successMessage: 'Work log created and booking updated successfully',
+        input: CheckInSchema,
+        output: WorkLogResponseSchema,
+        errors: [
+            ERROR_CODES.MissingParameters,
+            ERROR_CODES.BookingNotFound,
+            ERROR_CODES.UnauthorizedAccess,
+            ERROR_CODES.InvalidBookingStatusForCheckIn,
+            ERROR_CODES.AlreadyCheckedIn,
+            ERROR_CODES.WorkPaused,
+            ERROR_CODES.DateMismatchPreferredDate,
+            ERROR_CODES.MissingServiceRequestId,
+            ERROR_CODES.CreateWorkLogError,
+            ERROR_CODES.InvalidStatusTransition,
+            ...GEOFENCE_ERRORS,
+        ],
+        permission: PERMISSIONS.WorkLogsWrite,
+        staffScoped: true,
+        handler: (input) => StaffService.createWorkLogWithStatusUpdate(input.staffId, input.bookingId, input.position),
+    }),
+    defineMessage({
+        type: 'STAFF_CHECK_OUT',
+        description: 'Ends the current work session on a booking. The booking stays open for later visits until STAFF_FINISH_JOB',
+        successMessage: 'Staff checked out successfully',
+        input: CheckOutSchema,
+        output: CheckOutResponseSchema,
+        errors: [
+            ERROR_CODES.InvalidStaffId,
+            ERROR_CODES.InvalidBookingId,
+            ERROR_CODES.BookingNotFound,
+            ERROR_CODES.UnauthorizedAccess,
+            ERROR_CODES.NotFound,
+            ERROR_CODES.AlreadyCheckedOut,
+            ERROR_CODES.MissingCheckIn,
+            ERROR_CODES.CheckOutTooLate,
+            ...GEOFENCE_ERRORS,
+        ],
+        permission: PERMISSIONS.WorkLogsWrite,
+        staffScoped: true,
+        handler: (input) => StaffService.checkOutWorkLog(input.staffId, input.bookingId, input.position),
+    }),
+    defineMessage({
+        type: 'STAFF_PAUSE_WORK',
+        description: 'Pauses the current work session on a booking',
+        successMessage: 'Work paused successfully',
+        input: PauseWorkSchema,
+        output: WorkLogResponseSchema,
+        errors: [
+            ERROR_CODES.MissingParameters,
+            ERROR_CODES.BookingNotFound,
+            ERROR_CODES.UnauthorizedAccess,
+            ERROR_CODES.NotFound,
+            ERROR_CODES.AlreadyCheckedOut,
+            ERROR_CODES.MissingCheckIn,
+            ERROR_CODES.CheckOutTooLate,
+            ...GEOFENCE_ERRORS,
+        ],
+        permission: PERMISSIONS.WorkLogsWrite,
+        staffScoped: true,
+        handler: (input) => StaffService.pauseWork(input.staffId, input.bookingId, input),
+    }),
+    defineMessage({
+        type: 'STAFF_RESUME_WORK',
+        description: 'Opens a new work session after STAFF_PAUSE_WORK',
+        successMessage: 'Work resumed successfully',
+        input: ResumeWorkSchema,
+        output: WorkLogResponseSchema,
+        errors: [
+            ERROR_CODES.MissingParameters,
+            ERROR_CODES.BookingNotFound,
+            ERROR_CODES.UnauthorizedAccess,
+            ERROR_CODES.InvalidBookingStatusForCheckIn,
+            ERROR_CODES.AlreadyCheckedIn,
+            ERROR_CODES.WorkNotPaused,
+            ...GEOFENCE_ERRORS,
+        ],
+        permission: PERMISSIONS.WorkLogsWrite,
+        staffScoped: true,
+        handler: (input) => StaffService.resumeWork(input.staffId, input.bookingId, input.position),
+    }),
+    defineMessage({
+        type: 'STAFF_GET_WORK_POLICY',
+        description: 'Check-in window and session limit that apply to a booking, resolved by provider and category',
+        successMessage: 'Work policy retrieved successfully',
+        input: GetWorkPolicySchema,
+        output: WorkPolicyResponseSchema,
+        errors: [ERROR_CODES.MissingParameters, ERROR_CODES.BookingNotFound, ERROR_CODES.UnauthorizedAccess],
+        permission: PERMISSIONS.WorkLogsRead,
+        staffScoped: true,
+        handler: (input) => StaffService.getWorkPolicy(input.staffId, input.bookingId),
+    }),
+    defineMessage({
+        type: 'STAFF_FINISH_JOB',
+        description: 'Closes any open work session, completes the booking and issues warranties for the services and parts delivered',
+        successMessage: 'Job finished successfully',
+        input: FinishJobSchema,
+        output: FinishJobResponseSchema,
+        errors: [
+            ERROR_CODES.MissingParameters,
+            ERROR_CODES.BookingNotFound,
+            ERROR_CODES.UnauthorizedAccess,
+            ERROR_CODES.NoWorkSessions,
+            ERROR_CODES.MissingCheckIn,
+            ERROR_CODES.CheckOutTooLate,
+            ERROR_CODES.InvalidStatusTransition,
+            ...GEOFENCE_ERRORS,
+        ],
+        permission: PERMISSIONS.WorkLogsWrite,
+        staffScoped: true,
+        handler: (input) => StaffService.finishJob(input.staffId, input.bookingId, input),
+    }),
+    defineMessage({
+        type: 'STAFF_LIST_AUTO_CLOSED_LOGS',
+        description: 'Paginated work logs closed by the sweeper with an estimated check-out, for supervisor review. Managers see their provider, staff their own logs',
+        successMessage: 'Auto-closed work logs retrieved successfully',
+        input: ListAutoClosedLogsSchema,
+        output: AutoClosedLogsResponseSchema,
+        errors: [ERROR_CODES.UnauthorizedAccess, ERROR_CODES.ListAutoClosedLogsError],
+        permission: PERMISSIONS.WorkLogsReview,
+        requiresIdentity: true,
+        handler: (input, context) => WorkLogReviewService.listAutoClosedLogs(input, context.identity!),
+    }),
+    defineMessage({
+        type: 'SUPERVISOR_CORRECT_WORK_LOG',
+        description: "Replaces the estimated times of an auto-closed work log. Only the booking provider's manager may correct it",
+        successMessage: 'Work log corrected successfully',
+        input: CorrectWorkLogSchema,
+        output: WorkLogResponseSchema,
+        errors: [
+            ERROR_CODES.UnauthorizedAccess,
+            ERROR_CODES.WorkLogNotFound,
+            ERROR_CODES.WorkLogNotAutoClosed,
+            ERROR_CODES.InvalidCorrectionTimes,
+            ERROR_CODES.CorrectWorkLogError,
+        ],
+        permission: PERMISSIONS.WorkLogsCorrect,
+        requiresIdentity: true,
+        handler: (input, context) => WorkLogReviewService.correctWorkLog(input, context.identity!),
+    }),
+    defineMessage({
+        type: 'STAFF_GET_BOOKINGS_BY_DATE',
+        description: 'Paginated bookings of a staff member on a given day in Vietnam time, by scheduled date unless another date field is chosen, optionally flagged against their availability',
+        successMessage: 'Bookings for date retrieved successfully',
+        input: GetBookingsByDateSchema,
+        output: BookingsByDateResponseSchema,
+        errors: [ERROR_CODES.InvalidDateFormat, ERROR_CODES.GetAvailabilityError],
+        permission: PERMISSIONS.BookingsRead,
+        staffScoped: true,
+        handler: (input) =>
+            StaffService.getBookingsByDate(
+                input.staffId,
+                input.date,
+                input.page,
+                input.limit,
+                input.checkAvailability,
+                input.dateField
+            ),
+    }),
+    defineMessage({
+        type: 'STAFF_GET_SCHEDULE_CONFLICTS',
+        description: 'Overlapping bookings of a staff member in a date range (default the next 7 days). Each booking lasts its proposal services, else its inspection estimate, else 2 hours from the preferred date',
+        successMessage: 'Schedule conflicts retrieved successfully',
+        input: GetScheduleConflictsSchema,
+        output: ScheduleConflictsResponseSchema,
+        errors: [ERROR_CODES.InvalidDateRange, ERROR_CODES.GetScheduleError],
+        permission: PERMISSIONS.BookingsRead,
+        staffScoped: true,
+        handler: (input) => ScheduleService.getScheduleConflicts(input.staffId, input.fromDate, input.toDate),
+    }),
+    defineMessage({
+        type: 'STAFF_GET_DAILY_ROUTE',
+        description: "Visiting order for a staff member's jobs on one day, by time window then travel distance, with estimated travel between stops and jobs that can't be reached in time",
+        successMessage: 'Daily route planned successfully',
+        input: GetDailyRouteSchema,
+        output: DailyRouteResponseSchema,
+        errors: [ERROR_CODES.GetScheduleError],
+        permission: PERMISSIONS.BookingsRead,
+        staffScoped: true,
+        handler: (input) => ScheduleService.getDailyRoute(input.staffId, input.date, input.startPosition),
+    }),
+    defineMessage({
+        type: 'STAFF_EXPORT_CALENDAR',
+        description: "A staff member's bookings in a date range (default the next 30 days) as iCalendar text. Event UIDs come from booking ids, so re-importing updates events and cancelled bookings are marked cancelled",
+        successMessage: 'Calendar exported successfully',
+        input: ExportCalendarSchema,
+        output: CalendarExportResponseSchema,
+        errors: [ERROR_CODES.InvalidDateRange, ERROR_CODES.GetScheduleError],
+        permission: PERMISSIONS.BookingsRead,
+        staffScoped: true,
+        handler: (input) => ScheduleService.exportCalendar(input.staffId, input.fromDate, input.toDate),
+    }),
+    defineMessage({
+        type: 'STAFF_GET_AVAILABILITY',
+        description: 'Weekly shifts of a staff member and their date exceptions in a range (default the next 30 days)',
+        successMessage: 'Availability retrieved successfully',
+        input: GetAvailabilitySchema,
+        output: AvailabilityResponseSchema,
+        errors: [ERROR_CODES.InvalidDateRange, ERROR_CODES.GetAvailabilityError],
+        permission: PERMISSIONS.AvailabilityRead,
+        staffScoped: true,
+        handler: (input) => AvailabilityService.getAvailability(input.staffId, input.fromDate, input.toDate),
+    }),
+    defineMessage({
+        type: 'STAFF_SET_WEEKLY_AVAILABILITY',
+        description: 'Replaces the recurring weekly shifts (week day and session) a staff member can work',
+        successMessage: 'Weekly availability saved successfully',
+        input: SetWeeklyAvailabilitySchema,
+        output: WeeklyAvailabilityResponseSchema,
+        errors: [ERROR_CODES.SaveAvailabilityError],
+        permission: PERMISSIONS.AvailabilityWrite,
+        staffScoped: true,
+        handler: (input) => AvailabilityService.setWeeklyAvailability(input.staffId, input.slots),
+    }),
+    defineMessage({
+        type: 'STAFF_ADD_AVAILABILITY_EXCEPTION',
+        description: 'Marks a date or one of its sessions as leave, sick or an extra shift, replacing an exception already set there',
+        successMessage: 'Availability exception saved successfully',
+        input: AddAvailabilityExceptionSchema,
+        output: AvailabilityExceptionResponseSchema,
+        errors: [ERROR_CODES.SaveAvailabilityError],
+        permission: PERMISSIONS.AvailabilityWrite,
+        staffScoped: true,
+        handler: ({ staffId, ...exception }) => AvailabilityService.addException(staffId, exception),
+    }),
+    defineMessage({
+        type: 'STAFF_REMOVE_AVAILABILITY_EXCEPTION',
+        description: "Deletes one of the staff member's availability exceptions",
+        successMessage: 'Availability exception removed successfully',
+        input: RemoveAvailabilityExceptionSchema,
+        output: RemoveAvailabilityExceptionResponseSchema,
+        errors: [ERROR_CODES.AvailabilityExceptionNotFound],
+        permission: PERMISSIONS.AvailabilityWrite,
+        staffScoped: true,
+        handler: (input) => AvailabilityService.removeException(input.staffId, input.exceptionId),
+    }),
+    defineMessage({
+        type: 'STAFF_GET_AVAILABILITY_CALENDAR',
+        description: 'Per-session availability of a staff member for each day of a range of up to 62 days',
+        successMessage: 'Availability calendar retrieved successfully',
+        input: GetAvailabilityCalendarSchema,
+        output: AvailabilityCalendarResponseSchema,
+        errors: [ERROR_CODES.InvalidDateRange, ERROR_CODES.GetAvailabilityError],
+        permission: PERMISSIONS.AvailabilityRead,
+        staffScoped: true,
+        handler: (input) => AvailabilityService.getCalendar(input.staffId, input.fromDate, input.toDate),
+    }),
+    defineMessage({
+        type: 'STAFF_GET_MONTHLY_STATS',
+        description: 'Completed bookings and hours worked by a staff member in a calendar month in Vietnam time',
+        successMessage: 'Monthly stats retrieved successfully',
+        input: GetMonthlyStatsSchema,
+        output: MonthlyStatsResponseSchema,
+        errors: [ERROR_CODES.InvalidMonth, ERROR_CODES.InvalidYear],
+        permission: PERMISSIONS.PerformanceRead,
+        staffScoped: true,
+        handler: (input) => StaffService.getMonthlyStats(input.staffId, input.month, input.year, input.dateField),
+    }),
+    defineMessage({
+        type: 'STAFF_GET_INSPECTION_STAFF',
+        description: 'Paginated inspection reports of a staff member including staff and booking details',
+        successMessage: 'Inspection reports retrieved successfully',
+        input: GetInspectionReportsSchema,
+        output: AllInspectionReportsResponseSchema,
+        errors: [ERROR_CODES.InvalidStaffId, ERROR_CODES.GetAllInspectionReportsError],
+        permission: PERMISSIONS.InspectionsRead,
+        staffScoped: true,
+        handler: (input) => StaffService.getAllInspectionReportsByStaff(input.staffId, input),
+    }),
+    defineMessage({
+        type: 'STAFF_GET_PROPOSAL',
+        description: 'Proposal and its items for a booking owned by the staff member, with its version history, a chosen version as quoted, and a diff against an earlier version',
+        successMessage: 'Booking workflow retrieved successfully',
+        input: GetBookingWorkflowSchema,
+        output: ProposalHistoryResponseSchema,
+        errors: [
+            ERROR_CODES.MissingParameters,
+            ERROR_CODES.BookingNotFound,
+            ERROR_CODES.UnauthorizedAccess,
+            ERROR_CODES.NoProposalFound,
+            ERROR_CODES.ProposalVersionNotFound,
+            ERROR_CODES.GetProposalByBookingError,
+        ],
+        permission: PERMISSIONS.ProposalsRead,
+        staffScoped: true,
+        handler: (input) => StaffService.getBookingWorkflow(input.staffId, input.bookingId, input),
+    }),
+    defineMessage({
+        type: 'STAFF_CREATE_PROPOSAL',
+        description: "Quote an inspected booking with the provider's approved services and optional parts; prices and totals are computed server-side and the proposal stays PENDING until the customer acts",
+        successMessage: 'Proposal created successfully',
+        input: CreateProposalSchema,
+        output: ProposalResponseSchema,
+        errors: [
+            ERROR_CODES.MissingRequiredFields,
+            ERROR_CODES.BookingNotFound,
+            ERROR_CODES.UnauthorizedAccess,
+            ERROR_CODES.InvalidStatusTransition,
+            ERROR_CODES.InspectionRequired,
+            ERROR_CODES.ProposalExists,
+            ERROR_CODES.ServiceNotAvailable,
+            ERROR_CODES.PartNotAvailable,
+            ERROR_CODES.InsufficientStock,
+            ERROR_CODES.SaveProposalError,
+        ],
+        permission: PERMISSIONS.ProposalsWrite,
+        staffScoped: true,
+        handler: (input) => ProposalService.createProposal(input.staffId, input),
+    }),
+    defineMessage({
+        type: 'STAFF_UPDATE_PROPOSAL',
+        description: 'Change the notes or replace the lines of a proposal the customer has not acted on yet, repricing it',
+        successMessage: 'Proposal updated successfully',
+        input: UpdateProposalSchema,
+        output: ProposalResponseSchema,
+        errors: [
+            ERROR_CODES.NoValidUpdateData,
+            ERROR_CODES.BookingNotFound,
+            ERROR_CODES.UnauthorizedAccess,
+            ERROR_CODES.InvalidStatusTransition,
+            ERROR_CODES.InspectionRequired,
+            ERROR_CODES.NoProposalFound,
+            ERROR_CODES.ProposalNotEditable,
+            ERROR_CODES.ServiceNotAvailable,
+            ERROR_CODES.PartNotAvailable,
+            ERROR_CODES.InsufficientStock,
+            ERROR_CODES.SaveProposalError,
+        ],
+        permission: PERMISSIONS.ProposalsWrite,
+        staffScoped: true,
+        handler: (input) => ProposalService.updateProposal(input.staffId, input),
+    }),
+    defineMessage({
+        type: 'STAFF_SEARCH_SERVICE_ITEMS',
+        description: "Search the staff member's provider's active parts by name, brand or model, with the stock not yet reserved by other jobs",
+        successMessage: 'Service items retrieved successfully',
+        input: SearchServiceItemsSchema,
+        output: ServiceItemSearchResponseSchema,
+        errors: [ERROR_CODES.InvalidStaffId, ERROR_CODES.SearchServiceItemsError],
+        permission: PERMISSIONS.InventoryRead,
+        staffScoped: true,
+        handler: (input) => InventoryService.searchItems(input.staffId, input),
+    }),
+    defineMessage({
+        type: 'STAFF_LOOKUP_WARRANTY',
+        description: "Warranties the staff member's provider issued on a booking or to a customer, with whether each is still running and its claims",
+        successMessage: 'Warranties retrieved successfully',
+        input: LookupWarrantySchema,
+        output: WarrantyLookupResponseSchema,
+        errors: [ERROR_CODES.MissingParameters, ERROR_CODES.InvalidStaffId, ERROR_CODES.LookupWarrantyError],
+        permission: PERMISSIONS.WarrantiesRead,
+        staffScoped: true,
+        handler: (input) => WarrantyService.lookupWarranty(input.staffId, input),
+    }),
+    defineMessage({
+        type: 'STAFF_OPEN_WARRANTY_CLAIM',
+        description: 'Open a return-visit booking under a running warranty, assigned to the staff member and tied to the original booking',
+        successMessage: 'Warranty claim opened successfully',
+        input: OpenWarrantyClaimSchema,
+        output: WarrantyClaimResponseSchema,
+        errors: [
+            ERROR_CODES.InvalidStaffId,
+            ERROR_CODES.WarrantyNotFound,
+            ERROR_CODES.UnauthorizedAccess,
+            ERROR_CODES.WarrantyExpired,
+            ERROR_CODES.WarrantyClaimOpen,
+            ERROR_CODES.MissingServiceRequestId,
+            ERROR_CODES.OpenWarrantyClaimError,
+        ],
+        permission: PERMISSIONS.WarrantiesClaim,
+        staffScoped: true,
+        handler: (input) => WarrantyService.openClaim(input.staffId, input),
+    })
+);
+
+messageRegistry.register(
+    invalidatePermissionsMessage(permissionGuard),
+    defineMessage({
+        type: 'SYSTEM_DESCRIBE',
+        description: 'Lists every registered message type with JSON Schemas for its payload and result',
+        successMessage: 'Message types described successfully',
+        public: true,
+        input: z.object({ type: z.string().optional() }).default({}),
+        output: z.array(
+            z.object({
+                type: z.string(),
+                description: z.string(),
+                input: z.unknown(),
+                output: z.unknown(),
+            })
+        ),
+        handler: async (input) =>
+            messageRegistry
+                .describe()
+                .filter((description) => !input.type || description.type === input.type),
+    })
+);
 
 export async function handleTCPRequest(payload: TCPPayload): Promise<HandleTCPReturn> {
-    const { type, data } = payload;
+    const { id, type, data } = payload;
 
     console.log(`[TCP] Incoming: ${type}`, {
-        payload: { ...payload, data: data ? '[REDACTED]' : undefined },
+        payload: {
+            ...payload,
+            data: data ? '[REDACTED]' : undefined,
+            auth: payload.auth ? '[REDACTED]' : undefined,
+            headers: payload.headers ? '[REDACTED]' : undefined,
+            attachments: payload.attachments
+                ? payload.attachments.map((attachment) => `[${attachment.length} bytes]`)
+                : undefined,
+        },
     });
 
     try {
-        const handler = HANDLER_MAP.get(type);
-
-        if (!handler) {
-            throw new AppError(
-                'Error.UnknownRequestType',
-                [{ message: 'Unknown request type', path: ['type'] }],
-                { receivedType: type },
-                400
-            );
-        }
+        const definition = messageRegistry.get(type);
+        const identity = await authenticateRequest(
+            payload,
+            definition !== undefined
+                && (definition.requiresIdentity === true || (AUTH_CONFIG.MODE === 'required' && !definition.public))
+        );
 
-        const result = await handler(data);
+        const result = await messageRegistry.dispatch(type, data, { identity, attachments: payload.attachments });
 
         return {
+            ...(id !== undefined && { id }),
             success: true,
             code: 'SUCCESS',
             message: result.message,
@@ -111,152 +797,3 @@ function handleError(err: any, payload: TCPPayload): never {
         )
     );
 }
-
-async function handleGetBookings(data: any): Promise<HandlerResult> {
-    const parsed = parseWithSchema(GetBookingsListSchema, data);
-    const result = await StaffService.getBookingsList(parsed.staffId, parsed);
-    return { message: 'Staff bookings retrieved successfully', data: result };
-}
-
-async function handleGetBookingDetail(data: any): Promise<HandlerResult> {
-    validateId(data?.bookingId, 'bookingId');
-    validateId(data?.staffId, 'staffId');
-    const result = await StaffService.getBookingDetail(data.bookingId, data.staffId);
-    return { message: 'Booking detail retrieved successfully', data: result };
-}
-
-async function handleCreateInspectionReport(data: any): Promise<HandlerResult> {
-    console.log(data);
-
-    validateUpdateData(data, 'inspectionReport');
-    const result = await StaffService.createInspectionReport(data as CreateInspectionReportDto);
-    return { message: 'Inspection report created successfully', data: result };
-}
-
-async function handleGetReviews(data: any): Promise<HandlerResult> {
-    const parsed = parseWithSchema(GetReviewsSchema, data);
-    const result = await StaffService.getReviews(parsed.staffId, parsed);
-    return { message: 'Staff reviews retrieved successfully', data: result };
-}
-
-async function handleGetInspectionReports(data: any): Promise<HandlerResult> {
-    const parsed = parseWithSchema(GetInspectionReportsSchema, data);
-    const result = await StaffService.getInspectionReportsByStaff(parsed.staffId, parsed);
-    return { message: 'Inspection reports retrieved successfully', data: result };
-}
-
-async function handleGetInspectionDetail(data: any): Promise<HandlerResult> {
-    validateId(data?.inspectionId, 'inspectionId');
-    const result = await StaffService.getInspectionReportById(data.inspectionId);
-    return { message: 'Inspection report detail retrieved successfully', data: result };
-}
-
-async function handleUpdateInspectionReport(data: any): Promise<HandlerResult> {
-    validateId(data?.inspectionId, 'inspectionId');
-    validateUpdateData(data?.dataInspection, 'inspectionReport');
-    const result = await StaffService.updateInspectionReport(
-        data.inspectionId,
-        data.dataInspection as UpdateInspectionReportDto
-    );
-    return { message: 'Inspection report updated successfully', data: result };
-}
-
-async function handleGetWorkLogs(data: any): Promise<HandlerResult> {
-    const parsed = parseWithSchema(GetRecentWorkLogsSchema, data);
-    const result = await StaffService.getRecentWorkLogs(parsed.staffId, parsed);
-    return { message: 'Recent work logs retrieved successfully', data: result };
-}
-
-async function handleGetPerformance(data: any): Promise<HandlerResult> {
-    validateId(data?.staffId, 'staffId');
-    const result = await StaffService.getStaffPerformanceById(data.staffId);
-    return { message: 'Staff performance retrieved successfully', data: result };
-}
-
-async function handleGetReviewSummary(data: any): Promise<HandlerResult> {
-    validateId(data?.staffId, 'staffId');
-    const result = await StaffService.getReviewSummary(data.staffId);
-    return { message: 'Review summary retrieved successfully', data: result };
-}
-
-async function handleCreateWorkLog(data: any): Promise<HandlerResult> {
-    validateId(data?.staffId, 'staffId');
-    validateId(data?.bookingId, 'bookingId');
-    const result = await StaffService.createWorkLogWithStatusUpdate(data.staffId, data.bookingId);
-    return { message: 'Work log created and booking updated successfully', data: result };
-}
-
-async function handleCheckOut(data: any): Promise<HandlerResult> {
-    validateId(data?.bookingId, 'bookingId');
-    const result = await StaffService.checkOutWorkLog(data.bookingId);
-    return { message: 'Staff checked out successfully', data: result };
-}
-
-async function handleGetBookingsByDate(data: any): Promise<HandlerResult> {
-    const parsed = parseWithSchema(GetBookingsByDateSchema, data);
-    const result = await StaffService.getBookingsByDate(
-        parsed.staffId,
-        parsed.date,
-        parsed.page,
-        parsed.limit
-    );
-    return { message: 'Bookings for date retrieved successfully', data: result };
-}
-
-async function handleGetMonthlyStats(data: any): Promise<HandlerResult> {
-    validateId(data?.staffId, 'staffId');
-    const result = await StaffService.getMonthlyStats(data.staffId, data.month, data.year);
-    return { message: 'Monthly stats retrieved successfully', data: result };
-}
-
-async function handleGetInspectionByStaff(data: any): Promise<HandlerResult> {
-  const parsed = parseWithSchema(GetInspectionReportsSchema, data);
-  const result = await StaffService.getAllInspectionReportsByStaff(parsed.staffId, parsed);
-  return { message: 'Inspection reports retrieved successfully', data: result };
-}
-
-function validateId(value: any, key: string): void {
-    if (!Number.isInteger(value) || value <= 0) {
-        throw new AppError(
-            `Error.Invalid${capitalize(key)}`,
-            [{ message: `Invalid ${key}`, path: [key] }],
-            { receivedValue: value },
-            400
-        );
-    }
-}
-
-function validateUpdateData(data: any, entityType: string): void {
-    if (!data || typeof data !== 'object' || Array.isArray(data)) {
-        throw new AppError(
-            'Error.InvalidUpdateData',
-            [{ message: 'Invalid update data', path: ['data'] }],
-            { receivedType: typeof data, entityType },
-            400
-        );
-    }
-
-    if (Object.keys(data).length === 0) {
-        throw new AppError(
-            'Error.EmptyUpdateData',
-            [{ message: 'Update data cannot be empty', path: ['data'] }],
-            { entityType },
-            400
-        );
-    }
-}
-
-function capitalize(str: string): string {
-    return str.charAt(0).toUpperCase() + str.slice(1);
-}
-
-async function handleGetBookingWorkflow(data: any): Promise<HandlerResult> {
-    validateId(data?.staffId, 'staffId');
-    validateId(data?.bookingId, 'bookingId');
-
-    const result = await StaffService.getBookingWorkflow(data.staffId, data.bookingId);
-    return {
-        message: 'Booking workflow retrieved successfully',
-        data: result,
-    };
-}
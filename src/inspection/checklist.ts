@@ -0,0 +1,147 @@
+import { ChecklistItemType } from '../generated/prisma';
+import { AppError } from '../handlers/error';
+
+export interface ChecklistItemDefinition {
+  id: number;
+  key: string;
+  label: string;
+  type: ChecklistItemType;
+  required: boolean;
+  // NUMBER bounds, inclusive
+  minValue: number | null;
+  maxValue: number | null;
+  // CHOICE values
+  options: string[];
+}
+
+// BOOLEAN → boolean, NUMBER → number, CHOICE → one of the options, PHOTO → image URLs
+export type ChecklistValue = boolean | number | string | string[];
+
+export interface ChecklistAnswerInput {
+  key: string;
+  value: ChecklistValue;
+}
+
+// Stored form of an answer: only the column matching the item's type is set
+export interface ChecklistAnswerValues {
+  itemId: number;
+  booleanValue: boolean | null;
+  numberValue: number | null;
+  choiceValue: string | null;
+  photoUrls: string[];
+}
+
+export type ChecklistProblem =
+  | 'UNKNOWN_ITEM'
+  | 'DUPLICATE_ANSWER'
+  | 'WRONG_TYPE'
+  | 'OUT_OF_RANGE'
+  | 'INVALID_CHOICE'
+  | 'MISSING_REQUIRED';
+
+export interface ChecklistIssue {
+  key: string;
+  problem: ChecklistProblem;
+}
+
+const isPhotoList = (value: ChecklistValue): value is string[] =>
+  Array.isArray(value) && value.length > 0 && value.every((url) => typeof url === 'string');
+
+/**
+ * Why a value can't answer an item, or null when it can.
+ */
+export function checkAnswer(item: ChecklistItemDefinition, value: ChecklistValue): ChecklistProblem | null {
+  switch (item.type) {
+    case ChecklistItemType.BOOLEAN:
+      return typeof value === 'boolean' ? null : 'WRONG_TYPE';
+    case ChecklistItemType.NUMBER:
+      if (typeof value !== 'number' || !Number.isFinite(value)) return 'WRONG_TYPE';
+      if ((item.minValue !== null && value < item.minValue) || (item.maxValue !== null && value > item.maxValue)) {
+        return 'OUT_OF_RANGE';
+      }
+      return null;
+    case ChecklistItemType.CHOICE:
+      if (typeof value !== 'string') return 'WRONG_TYPE';
+      return item.options.includes(value) ? null : 'INVALID_CHOICE';
+    case ChecklistItemType.PHOTO:
+      return isPhotoList(value) ? null : 'WRONG_TYPE';
+  }
+}
+
+const toStored = (item: ChecklistItemDefinition, value: ChecklistValue): ChecklistAnswerValues => ({
+  itemId: item.id,
+  booleanValue: item.type === ChecklistItemType.BOOLEAN ? (value as boolean) : null,
+  numberValue: item.type === ChecklistItemType.NUMBER ? (value as number) : null,
+  choiceValue: item.type === ChecklistItemType.CHOICE ? (value as string) : null,
+  photoUrls: item.type === ChecklistItemType.PHOTO ? (value as string[]) : [],
+});
+
+/**
+ * Reads a stored answer back as the value the client sent.
+ */
+export function storedValue(item: Pick<ChecklistItemDefinition, 'type'>, answer: ChecklistAnswerValues): ChecklistValue | null {
+  switch (item.type) {
+    case ChecklistItemType.BOOLEAN:
+      return answer.booleanValue;
+    case ChecklistItemType.NUMBER:
+      return answer.numberValue;
+    case ChecklistItemType.CHOICE:
+      return answer.choiceValue;
+    case ChecklistItemType.PHOTO:
+      return answer.photoUrls.length > 0 ? answer.photoUrls : null;
+  }
+}
+
+/**
+ * Checks answers against a template's items and converts them to their stored
+ * form. `answeredItemIds` are items already answered on the report, which count
+ * towards required items when a report is updated.
+ */
+export function validateChecklistAnswers(
+  items: ChecklistItemDefinition[],
+  answers: ChecklistAnswerInput[],
+  answeredItemIds: ReadonlySet<number> = new Set()
+): ChecklistAnswerValues[] {
+  const itemsByKey = new Map(items.map((item) => [item.key, item]));
+  const seen = new Set<string>();
+  const issues: ChecklistIssue[] = [];
+  const stored: ChecklistAnswerValues[] = [];
+
+  for (const answer of answers) {
+    const item = itemsByKey.get(answer.key);
+
+    if (!item) {
+      issues.push({ key: answer.key, problem: 'UNKNOWN_ITEM' });
+      continue;
+    }
+    if (seen.has(answer.key)) {
+      issues.push({ key: answer.key, problem: 'DUPLICATE_ANSWER' });
+      continue;
+    }
+    seen.add(answer.key);
+
+    const problem = checkAnswer(item, answer.value);
+    if (problem) {
+      issues.push({ key: answer.key, problem });
+      continue;
+    }
+    stored.push(toStored(item, answer.value));
+  }
+
+  for (const item of items) {
+    if (item.required && !seen.has(item.key) && !answeredItemIds.has(item.id)) {
+      issues.push({ key: item.key, problem: 'MISSING_REQUIRED' });
+    }
+  }
+
+  if (issues.length > 0) {
+    throw new AppError(
+      'Checklist answers do not match the inspection template',
+      [{ message: 'Error.InvalidChecklistAnswers', path: ['checklist'] }],
+      { issues },
+      400
+    );
+  }
+
+  return stored;
+}
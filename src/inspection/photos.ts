@@ -0,0 +1,36 @@
+import { AppError } from '../handlers/error';
+
+// Leading bytes of the image formats accepted as inline photos
+const SIGNATURES: { mimeType: string; matches: (data: Buffer) => boolean }[] = [
+  { mimeType: 'image/jpeg', matches: (data) => data.subarray(0, 3).equals(Buffer.from([0xff, 0xd8, 0xff])) },
+  {
+    mimeType: 'image/png',
+    matches: (data) => data.subarray(0, 8).equals(Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]))
+  },
+  {
+    mimeType: 'image/webp',
+    matches: (data) => data.toString('latin1', 0, 4) === 'RIFF' && data.toString('latin1', 8, 12) === 'WEBP'
+  }
+];
+
+/**
+ * Turns photos sent as frame attachments into data URLs stored alongside the
+ * report's image links. The format is taken from the file's own leading
+ * bytes, so anything that is not a JPEG, PNG or WebP image is refused.
+ */
+export function inlinePhotos(attachments: Buffer[]): string[] {
+  return attachments.map((attachment, index) => {
+    const signature = SIGNATURES.find((candidate) => candidate.matches(attachment));
+
+    if (!signature) {
+      throw new AppError(
+        'Attachment is not a JPEG, PNG or WebP image',
+        [{ message: 'Error.InvalidInspectionPhoto', path: ['attachments', String(index)] }],
+        { index, size: attachment.length },
+        400
+      );
+    }
+
+    return `data:${signature.mimeType};base64,${attachment.toString('base64')}`;
+  });
+}
@@ -0,0 +1,29 @@
+import { AppError } from '../handlers/error';
+
+/**
+ * Rejects ids that cannot name an inspection report.
+ */
+export function assertInspectionId(inspectionId: number): void {
+  if (!inspectionId || inspectionId <= 0) {
+    throw new AppError(
+      'Invalid inspection ID',
+      [{ message: 'Error.InvalidInspectionId', path: ['inspectionId'] }],
+      { inspectionId },
+      400
+    );
+  }
+}
+
+/**
+ * Only the staff member who filed a report may read or change it.
+ */
+export function assertReportOwner(report: { staffId: number }, staffId: number): void {
+  if (report.staffId !== staffId) {
+    throw new AppError(
+      'Access denied: Staff does not own this inspection report',
+      [{ message: 'Error.UnauthorizedAccess', path: ['staffId'] }],
+      { staffId, reportStaffId: report.staffId },
+      403
+    );
+  }
+}
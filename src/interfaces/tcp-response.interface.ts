@@ -1,4 +1,5 @@
 export interface TCPResponseSuccess<T = any> {
+  id?: string | number;
   success: boolean;
   code: string;
   message: string;
@@ -8,6 +9,7 @@ export interface TCPResponseSuccess<T = any> {
 }
 
 export interface TCPResponseError {
+  id?: string | number;
   message: {
     message: string;
     path: string[];
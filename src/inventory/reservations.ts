@@ -0,0 +1,135 @@
+import { BookingStatus, Prisma, ProposalStatus, StockReservationStatus } from '../generated/prisma';
+import { AppError } from '../handlers/error';
+import { partQuantities, PartUsage, stillToReserve } from './stock';
+
+type Tx = Prisma.TransactionClient;
+
+/**
+ * Puts a booking's RESERVED stock back on the shelf. Each reservation is
+ * flipped conditionally first so it is never returned twice.
+ */
+export async function releaseReserved(tx: Tx, bookingId: number): Promise<number> {
+  const reservations = await tx.stockReservation.findMany({
+    where: { bookingId, status: StockReservationStatus.RESERVED },
+    select: { id: true, serviceItemId: true, quantity: true }
+  });
+
+  let released = 0;
+  for (const reservation of reservations) {
+    const { count } = await tx.stockReservation.updateMany({
+      where: { id: reservation.id, status: StockReservationStatus.RESERVED },
+      data: { status: StockReservationStatus.RELEASED }
+    });
+    if (count === 0) continue;
+
+    await tx.serviceItem.update({
+      where: { id: reservation.serviceItemId },
+      data: { stockQuantity: { increment: reservation.quantity }, updatedAt: new Date() }
+    });
+    released++;
+  }
+
+  return released;
+}
+
+const committedQuantities = async (tx: Tx, bookingId: number) => {
+  const committed = await tx.stockReservation.findMany({
+    where: { bookingId, status: StockReservationStatus.COMMITTED },
+    select: { serviceItemId: true, quantity: true }
+  });
+
+  return partQuantities([{ parts: committed }]);
+};
+
+/**
+ * Holds back the parts of a proposal's lines, replacing the booking's
+ * earlier holds. Parts already used on the job are not held again.
+ * Must run inside the transaction that saves the proposal.
+ */
+export async function reserveForProposal(
+  tx: Tx,
+  bookingId: number,
+  proposalId: number,
+  lines: { parts: PartUsage[] }[]
+): Promise<void> {
+  await releaseReserved(tx, bookingId);
+
+  const toReserve = stillToReserve(partQuantities(lines), await committedQuantities(tx, bookingId));
+  const shortfalls: { serviceItemId: number; requested: number }[] = [];
+
+  for (const [serviceItemId, quantity] of toReserve) {
+    // The stock check and decrement happen in one statement, so concurrent jobs can't oversell
+    const { count } = await tx.serviceItem.updateMany({
+      where: { id: serviceItemId, stockQuantity: { gte: quantity } },
+      data: { stockQuantity: { decrement: quantity }, updatedAt: new Date() }
+    });
+
+    if (count === 0) {
+      shortfalls.push({ serviceItemId, requested: quantity });
+      continue;
+    }
+
+    await tx.stockReservation.create({
+      data: { bookingId, proposalId, serviceItemId, quantity }
+    });
+  }
+
+  if (shortfalls.length > 0) {
+    const stock = await tx.serviceItem.findMany({
+      where: { id: { in: shortfalls.map((shortfall) => shortfall.serviceItemId) } },
+      select: { id: true, stockQuantity: true }
+    });
+    const available = new Map(stock.map((item) => [item.id, item.stockQuantity]));
+
+    throw new AppError(
+      'Not enough parts in stock',
+      [{ message: 'Error.InsufficientStock', path: ['items'] }],
+      {
+        bookingId,
+        items: shortfalls.map((shortfall) => ({
+          ...shortfall,
+          available: available.get(shortfall.serviceItemId) ?? 0
+        }))
+      },
+      409
+    );
+  }
+}
+
+/**
+ * Marks the parts held for a booking's accepted proposal as used. Parts of a
+ * proposal the customer has not accepted stay RESERVED, so a later rejection
+ * still returns them. Must run inside the check-out transaction.
+ */
+export async function commitReserved(tx: Tx, bookingId: number): Promise<number> {
+  const { count } = await tx.stockReservation.updateMany({
+    where: {
+      bookingId,
+      status: StockReservationStatus.RESERVED,
+      Proposal: { status: ProposalStatus.ACCEPTED }
+    },
+    data: { status: StockReservationStatus.COMMITTED }
+  });
+
+  return count;
+}
+
+/**
+ * Bookings still holding parts they will never use: the booking was canceled
+ * or completed without accepting its proposal, or the customer rejected it.
+ */
+export async function findReleasableBookings(client: Tx): Promise<number[]> {
+  const reservations = await client.stockReservation.findMany({
+    where: {
+      status: StockReservationStatus.RESERVED,
+      OR: [
+        { Booking: { status: { in: [BookingStatus.CANCELLED, BookingStatus.COMPLETED] } } },
+        { Proposal: { status: ProposalStatus.REJECTED } }
+      ]
+    },
+    distinct: ['bookingId'],
+    select: { bookingId: true }
+  });
+
+  return reservations.map((reservation) => reservation.bookingId);
+}
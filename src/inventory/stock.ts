@@ -0,0 +1,37 @@
+export interface PartUsage {
+  serviceItemId: number;
+  quantity: number;
+}
+
+/**
+ * Total quantity of each part across a proposal's lines.
+ */
+export function partQuantities(lines: { parts: PartUsage[] }[]): Map<number, number> {
+  const totals = new Map<number, number>();
+
+  for (const part of lines.flatMap((line) => line.parts)) {
+    totals.set(part.serviceItemId, (totals.get(part.serviceItemId) ?? 0) + part.quantity);
+  }
+
+  return totals;
+}
+
+/**
+ * Stock a proposal still has to hold back: what it needs minus what was
+ * already used on the job. Ordered by part id so concurrent jobs lock
+ * ServiceItem rows in the same order.
+ */
+export function stillToReserve(
+  needed: ReadonlyMap<number, number>,
+  committed: ReadonlyMap<number, number>
+): Map<number, number> {
+  return new Map(
+    [...needed]
+      .map(([serviceItemId, quantity]): [number, number] => [
+        serviceItemId,
+        quantity - (committed.get(serviceItemId) ?? 0)
+      ])
+      .filter(([, quantity]) => quantity > 0)
+      .sort(([a], [b]) => a - b)
+  );
+}
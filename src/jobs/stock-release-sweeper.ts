@@ -0,0 +1,75 @@
+export const STOCK_RELEASE_CONFIG = {
+  ENABLED: process.env.STOCK_RELEASE_SWEEPER_ENABLED !== 'false',
+  INTERVAL: parseInt(process.env.STOCK_RELEASE_SWEEPER_INTERVAL || '600000', 10), // 10 minutes
+} as const;
+
+export interface StockReleaseStore {
+  // Bookings holding parts they will never use: canceled, completed without an accepted proposal, or rejected
+  findReleasableBookings(): Promise<number[]>;
+  // Number of reservations returned to stock
+  releaseForBooking(bookingId: number): Promise<number>;
+}
+
+export interface StockReleaseResult {
+  scanned: number;
+  released: number;
+  failed: number[];
+}
+
+/**
+ * Returns parts held for bookings that will no longer use them. Cancelling a
+ * booking through the status machine already releases its parts; this is the
+ * backstop for bookings canceled and proposals rejected outside this service.
+ */
+export class StockReleaseSweeper {
+  private timer: NodeJS.Timeout | null = null;
+  private running: Promise<StockReleaseResult> | null = null;
+
+  constructor(
+    private readonly store: StockReleaseStore,
+    private readonly interval: number = STOCK_RELEASE_CONFIG.INTERVAL
+  ) {}
+
+  // Overlapping calls share the sweep already in progress
+  sweep(): Promise<StockReleaseResult> {
+    if (!this.running) {
+      this.running = this.run().finally(() => {
+        this.running = null;
+      });
+    }
+    return this.running;
+  }
+
+  start(): void {
+    if (this.timer) return;
+
+    this.timer = setInterval(() => {
+      this.sweep().catch((error) => console.error('❌ Stock release sweep failed:', error));
+    }, this.interval);
+    // Never keeps the process alive on its own
+    this.timer.unref();
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  private async run(): Promise<StockReleaseResult> {
+    const bookingIds = await this.store.findReleasableBookings();
+    const result: StockReleaseResult = { scanned: bookingIds.length, released: 0, failed: [] };
+
+    for (const bookingId of bookingIds) {
+      try {
+        result.released += await this.store.releaseForBooking(bookingId);
+      } catch (error) {
+        console.error(`❌ Could not release stock of booking ${bookingId}:`, error);
+        result.failed.push(bookingId);
+      }
+    }
+
+    return result;
+  }
+}
@@ -0,0 +1,124 @@
+import { WorkPolicy } from '../policy/work-policy';
+
+export const SWEEPER_CONFIG = {
+  ENABLED: process.env.WORK_LOG_SWEEPER_ENABLED !== 'false',
+  INTERVAL: parseInt(process.env.WORK_LOG_SWEEPER_INTERVAL || '300000', 10), // 5 minutes
+} as const;
+
+const MINUTE_MS = 60 * 1000;
+
+export interface OpenSession {
+  id: number;
+  staffId: number;
+  bookingId: number;
+  checkIn: Date;
+  providerId: number | null;
+  categoryId: number | null;
+  // Inspection report's estimated job length in minutes, if any
+  estimatedMinutes: number | null;
+}
+
+export interface SweeperStore {
+  // Sessions with a check-in and no check-out
+  findOpenSessions(): Promise<OpenSession[]>;
+  resolvePolicy(providerId: number | null, categoryId: number | null): Promise<WorkPolicy>;
+  // False when the session was closed by someone else in the meantime
+  autoClose(sessionId: number, checkOut: Date, now: Date): Promise<boolean>;
+}
+
+export interface WorkLogSweeperOptions {
+  // How often start() sweeps, in ms
+  interval?: number;
+  now?: () => Date;
+}
+
+export interface SweepResult {
+  scanned: number;
+  closed: number[];
+  failed: number[];
+}
+
+export function isSessionOverdue(session: OpenSession, policy: WorkPolicy, now: Date): boolean {
+  return now.getTime() - session.checkIn.getTime() > policy.maxSessionMinutes * MINUTE_MS;
+}
+
+/**
+ * Check-out time recorded for a forgotten session: the inspection estimate
+ * when there is one, never longer than the policy allows.
+ */
+export function estimateCheckOut(session: OpenSession, policy: WorkPolicy): Date {
+  const minutes = Math.min(session.estimatedMinutes ?? policy.maxSessionMinutes, policy.maxSessionMinutes);
+  return new Date(session.checkIn.getTime() + minutes * MINUTE_MS);
+}
+
+/**
+ * Closes work sessions left open past their policy's maxSessionMinutes so
+ * the booking can be finished, leaving them for a supervisor to correct.
+ */
+export class WorkLogSweeper {
+  private readonly interval: number;
+  private readonly now: () => Date;
+  private timer: NodeJS.Timeout | null = null;
+  private running: Promise<SweepResult> | null = null;
+
+  constructor(private readonly store: SweeperStore, options: WorkLogSweeperOptions = {}) {
+    this.interval = options.interval ?? SWEEPER_CONFIG.INTERVAL;
+    this.now = options.now ?? (() => new Date());
+  }
+
+  // Overlapping calls share the sweep already in progress
+  sweep(): Promise<SweepResult> {
+    if (!this.running) {
+      this.running = this.run().finally(() => {
+        this.running = null;
+      });
+    }
+    return this.running;
+  }
+
+  start(): void {
+    if (this.timer) return;
+
+    this.timer = setInterval(() => {
+      this.sweep().catch((error) => console.error('❌ Work log sweep failed:', error));
+    }, this.interval);
+    // Never keeps the process alive on its own
+    this.timer.unref();
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  private async run(): Promise<SweepResult> {
+    const now = this.now();
+    const sessions = await this.store.findOpenSessions();
+    const policies = new Map<string, Promise<WorkPolicy>>();
+    const result: SweepResult = { scanned: sessions.length, closed: [], failed: [] };
+
+    for (const session of sessions) {
+      const key = `${session.providerId}:${session.categoryId}`;
+      if (!policies.has(key)) {
+        policies.set(key, this.store.resolvePolicy(session.providerId, session.categoryId));
+      }
+
+      try {
+        const policy = await policies.get(key)!;
+        if (!isSessionOverdue(session, policy, now)) continue;
+
+        if (await this.store.autoClose(session.id, estimateCheckOut(session, policy), now)) {
+          result.closed.push(session.id);
+        }
+      } catch (error) {
+        // One bad session must not hold up the rest
+        console.error(`❌ Could not auto-close work log ${session.id}:`, error);
+        result.failed.push(session.id);
+      }
+    }
+
+    return result;
+  }
+}
@@ -0,0 +1,145 @@
+import { AppError } from '../handlers/error';
+
+export type WorkPolicyScope = 'provider-category' | 'provider' | 'category' | 'global' | 'default';
+
+export interface WorkPolicy {
+  // Null for the built-in default
+  id: number | null;
+  name: string;
+  scope: WorkPolicyScope;
+  checkInEarlyTolerance: number;
+  checkInLateTolerance: number;
+  maxSessionMinutes: number;
+}
+
+export interface WorkPolicyRecord {
+  id: number;
+  name: string;
+  providerId: number | null;
+  categoryId: number | null;
+  checkInEarlyTolerance: number;
+  checkInLateTolerance: number;
+  maxSessionMinutes: number;
+}
+
+// Applies when no WorkPolicy row matches: one day either side, 24h sessions
+export const DEFAULT_WORK_POLICY: WorkPolicy = {
+  id: null,
+  name: 'Default',
+  scope: 'default',
+  checkInEarlyTolerance: 24 * 60,
+  checkInLateTolerance: 24 * 60,
+  maxSessionMinutes: 24 * 60,
+};
+
+const MINUTE_MS = 60 * 1000;
+
+function scopeOf(record: WorkPolicyRecord): WorkPolicyScope {
+  if (record.providerId !== null && record.categoryId !== null) return 'provider-category';
+  if (record.providerId !== null) return 'provider';
+  if (record.categoryId !== null) return 'category';
+  return 'global';
+}
+
+const SCOPE_PRECEDENCE: WorkPolicyScope[] = ['provider-category', 'provider', 'category', 'global'];
+
+/**
+ * Key of the scope a policy row applies to, stored in WorkPolicy.scopeKey so
+ * each scope has at most one row. Writers of WorkPolicy rows must set it.
+ */
+export function workPolicyScopeKey(providerId: number | null, categoryId: number | null): string {
+  const parts = [
+    ...(providerId !== null ? [`provider:${providerId}`] : []),
+    ...(categoryId !== null ? [`category:${categoryId}`] : []),
+  ];
+  return parts.length > 0 ? parts.join(':') : 'global';
+}
+
+/**
+ * Scope keys of every policy that can apply to a job, most specific first.
+ */
+export function candidateScopeKeys(providerId: number | null, categoryId: number | null): string[] {
+  const keys = [workPolicyScopeKey(null, null)];
+  if (categoryId !== null) keys.unshift(workPolicyScopeKey(null, categoryId));
+  if (providerId !== null) keys.unshift(workPolicyScopeKey(providerId, null));
+  if (providerId !== null && categoryId !== null) keys.unshift(workPolicyScopeKey(providerId, categoryId));
+  return keys;
+}
+
+/**
+ * Picks the most specific active policy for a job from the candidate rows.
+ */
+export function resolveWorkPolicy(
+  candidates: WorkPolicyRecord[],
+  providerId: number | null,
+  categoryId: number | null
+): WorkPolicy {
+  const applicable = candidates.filter(
+    (record) =>
+      (record.providerId === null || record.providerId === providerId)
+      && (record.categoryId === null || record.categoryId === categoryId)
+  );
+
+  for (const scope of SCOPE_PRECEDENCE) {
+    const match = applicable.find((record) => scopeOf(record) === scope);
+    if (match) {
+      return {
+        id: match.id,
+        name: match.name,
+        scope,
+        checkInEarlyTolerance: match.checkInEarlyTolerance,
+        checkInLateTolerance: match.checkInLateTolerance,
+        maxSessionMinutes: match.maxSessionMinutes,
+      };
+    }
+  }
+
+  return DEFAULT_WORK_POLICY;
+}
+
+const describePolicy = (policy: WorkPolicy) => ({ id: policy.id, name: policy.name, scope: policy.scope });
+
+/**
+ * Rejects a first check-in outside the policy's tolerance around the preferred date.
+ */
+export function assertCheckInWindow(policy: WorkPolicy, preferredDate: Date, now: Date): void {
+  const offsetMinutes = Math.round((now.getTime() - preferredDate.getTime()) / MINUTE_MS);
+
+  const early = offsetMinutes < -policy.checkInEarlyTolerance;
+  const late = offsetMinutes > policy.checkInLateTolerance;
+  if (!early && !late) return;
+
+  throw new AppError(
+    early ? 'Check-in is too early for the preferred date' : 'Check-in is too late for the preferred date',
+    [{ message: 'Error.DateMismatchPreferredDate', path: ['bookingId'] }],
+    {
+      policy: describePolicy(policy),
+      rule: early ? 'checkInEarlyTolerance' : 'checkInLateTolerance',
+      toleranceMinutes: early ? policy.checkInEarlyTolerance : policy.checkInLateTolerance,
+      offsetMinutes,
+      preferredDate,
+      today: now,
+    },
+    400
+  );
+}
+
+/**
+ * Rejects closing a session that has been open longer than the policy allows.
+ */
+export function assertSessionLength(policy: WorkPolicy, checkIn: Date, now: Date): void {
+  const sessionMinutes = Math.round((now.getTime() - checkIn.getTime()) / MINUTE_MS);
+  if (sessionMinutes <= policy.maxSessionMinutes) return;
+
+  throw new AppError(
+    'Check-out expired',
+    [{ message: 'Error.CheckOutTooLate', path: ['bookingId'] }],
+    {
+      policy: describePolicy(policy),
+      rule: 'maxSessionMinutes',
+      maxSessionMinutes: policy.maxSessionMinutes,
+      sessionMinutes,
+    },
+    400
+  );
+}
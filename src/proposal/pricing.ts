@@ -0,0 +1,69 @@
+export interface ProposalPartInput {
+  serviceItemId: number;
+  quantity: number;
+}
+
+export interface ProposalLineInput {
+  serviceId: number;
+  quantity: number;
+  parts: ProposalPartInput[];
+}
+
+export interface PricedPart extends ProposalPartInput {
+  unitPrice: number;
+  lineTotal: number;
+}
+
+export interface PricedLine {
+  serviceId: number;
+  quantity: number;
+  // Service basePrice
+  unitPrice: number;
+  lineTotal: number;
+  parts: PricedPart[];
+}
+
+export interface PricedProposal {
+  lines: PricedLine[];
+  // Service lines and their parts
+  totalPrice: number;
+}
+
+// Prices are stored as floats; keep sums free of binary rounding noise
+export const roundMoney = (amount: number) => Math.round(amount * 100) / 100;
+
+/**
+ * Prices proposal lines from the current service and part prices. Every id in
+ * the lines must have a price; callers check availability first.
+ */
+export function priceProposal(
+  lines: ProposalLineInput[],
+  servicePrices: ReadonlyMap<number, number>,
+  partPrices: ReadonlyMap<number, number>
+): PricedProposal {
+  let totalPrice = 0;
+
+  const priced = lines.map((line) => {
+    const unitPrice = servicePrices.get(line.serviceId)!;
+    const lineTotal = roundMoney(unitPrice * line.quantity);
+
+    const parts = line.parts.map((part) => {
+      const partPrice = partPrices.get(part.serviceItemId)!;
+      const partTotal = roundMoney(partPrice * part.quantity);
+      totalPrice += partTotal;
+      return { ...part, unitPrice: partPrice, lineTotal: partTotal };
+    });
+
+    totalPrice += lineTotal;
+    return { serviceId: line.serviceId, quantity: line.quantity, unitPrice, lineTotal, parts };
+  });
+
+  return { lines: priced, totalPrice: roundMoney(totalPrice) };
+}
+
+/**
+ * Requested ids missing from the available set, each reported once.
+ */
+export function missingIds(requested: number[], available: ReadonlySet<number>): number[] {
+  return [...new Set(requested)].filter((id) => !available.has(id));
+}
@@ -0,0 +1,173 @@
+import { AppError } from '../handlers/error';
+import { roundMoney } from './pricing';
+
+export interface RevisionPart {
+  serviceItemId: number;
+  name: string;
+  quantity: number;
+  unitPrice: number;
+  lineTotal: number;
+}
+
+export interface RevisionLine {
+  serviceId: number;
+  serviceName: string;
+  quantity: number;
+  // Null on lines priced before quoting moved to this service
+  unitPrice: number | null;
+  lineTotal: number | null;
+  parts: RevisionPart[];
+}
+
+export interface RevisionSnapshot {
+  version: number;
+  notes: string | null;
+  totalPrice: number | null;
+  staffId: number | null;
+  createdAt: Date;
+  items: RevisionLine[];
+}
+
+export type RevisionChangeKind = 'ADDED' | 'REMOVED' | 'CHANGED';
+
+export interface PricedQuantity {
+  quantity: number;
+  unitPrice: number | null;
+  total: number | null;
+}
+
+export interface RevisionEntryChange {
+  // serviceId for services, serviceItemId for parts
+  id: number;
+  name: string;
+  change: RevisionChangeKind;
+  before: PricedQuantity | null;
+  after: PricedQuantity | null;
+}
+
+export interface RevisionDiff {
+  fromVersion: number;
+  toVersion: number;
+  notesChanged: boolean;
+  totalPriceBefore: number | null;
+  totalPriceAfter: number | null;
+  // Null when either side was never priced
+  totalPriceChange: number | null;
+  services: RevisionEntryChange[];
+  parts: RevisionEntryChange[];
+}
+
+export interface RevisionSelection {
+  version?: number;
+  compareTo?: number;
+}
+
+interface Entry extends PricedQuantity {
+  name: string;
+}
+
+const addTotals = (a: number | null, b: number | null) => (a === null || b === null ? null : roundMoney(a + b));
+
+/**
+ * Folds entries sharing an id, since a service or part may appear on several
+ * lines of one proposal.
+ */
+function collect<T>(rows: T[], idOf: (row: T) => number, entryOf: (row: T) => Entry): Map<number, Entry> {
+  const entries = new Map<number, Entry>();
+
+  for (const row of rows) {
+    const id = idOf(row);
+    const entry = entryOf(row);
+    const existing = entries.get(id);
+
+    entries.set(
+      id,
+      existing
+        ? { ...existing, quantity: existing.quantity + entry.quantity, total: addTotals(existing.total, entry.total) }
+        : entry
+    );
+  }
+
+  return entries;
+}
+
+function compareEntries(before: Map<number, Entry>, after: Map<number, Entry>): RevisionEntryChange[] {
+  const ids = [...new Set([...before.keys(), ...after.keys()])].sort((a, b) => a - b);
+  const priced = ({ quantity, unitPrice, total }: Entry): PricedQuantity => ({ quantity, unitPrice, total });
+
+  return ids.flatMap((id): RevisionEntryChange[] => {
+    const from = before.get(id);
+    const to = after.get(id);
+
+    if (!from) return [{ id, name: to!.name, change: 'ADDED', before: null, after: priced(to!) }];
+    if (!to) return [{ id, name: from.name, change: 'REMOVED', before: priced(from), after: null }];
+
+    const unchanged = from.quantity === to.quantity && from.unitPrice === to.unitPrice && from.total === to.total;
+    return unchanged ? [] : [{ id, name: to.name, change: 'CHANGED', before: priced(from), after: priced(to) }];
+  });
+}
+
+/**
+ * What changed between two versions of a proposal, listing only services and
+ * parts that were added, removed, or requoted.
+ */
+export function diffRevisions(from: RevisionSnapshot, to: RevisionSnapshot): RevisionDiff {
+  const services = (snapshot: RevisionSnapshot) =>
+    collect(
+      snapshot.items,
+      (line) => line.serviceId,
+      (line) => ({ name: line.serviceName, quantity: line.quantity, unitPrice: line.unitPrice, total: line.lineTotal })
+    );
+  const parts = (snapshot: RevisionSnapshot) =>
+    collect(
+      snapshot.items.flatMap((line) => line.parts),
+      (part) => part.serviceItemId,
+      (part) => ({ name: part.name, quantity: part.quantity, unitPrice: part.unitPrice, total: part.lineTotal })
+    );
+
+  return {
+    fromVersion: from.version,
+    toVersion: to.version,
+    notesChanged: (from.notes ?? '') !== (to.notes ?? ''),
+    totalPriceBefore: from.totalPrice,
+    totalPriceAfter: to.totalPrice,
+    totalPriceChange:
+      from.totalPrice === null || to.totalPrice === null ? null : roundMoney(to.totalPrice - from.totalPrice),
+    services: compareEntries(services(from), services(to)),
+    parts: compareEntries(parts(from), parts(to))
+  };
+}
+
+const versionNotFound = (field: keyof RevisionSelection, version: number) =>
+  new AppError(
+    'Proposal version not found',
+    [{ message: 'Error.ProposalVersionNotFound', path: [field] }],
+    { [field]: version },
+    404
+  );
+
+/**
+ * Picks the requested version (the current one by default) and the version it
+ * is compared with (the one before it by default).
+ */
+export function selectRevisions(
+  revisions: RevisionSnapshot[],
+  currentVersion: number | null,
+  selection: RevisionSelection = {}
+): { revision: RevisionSnapshot | null; diff: RevisionDiff | null } {
+  const byVersion = new Map(revisions.map((revision) => [revision.version, revision]));
+
+  const version = selection.version ?? currentVersion;
+  const revision = version !== null ? byVersion.get(version) : undefined;
+  if (selection.version !== undefined && !revision) throw versionNotFound('version', selection.version);
+  if (!revision) return { revision: null, diff: null };
+
+  if (selection.compareTo !== undefined) {
+    const base = byVersion.get(selection.compareTo);
+    if (!base) throw versionNotFound('compareTo', selection.compareTo);
+    return { revision, diff: diffRevisions(base, revision) };
+  }
+
+  const previous = byVersion.get(revision.version - 1);
+  return { revision, diff: previous ? diffRevisions(previous, revision) : null };
+}
@@ -0,0 +1,55 @@
+import { UserStatus } from '../generated/prisma';
+import { prisma } from './prisma';
+
+export const AuthRepository = {
+  async findIdentityByUserId(userId: number) {
+    const user = await prisma.user.findFirst({
+      where: { id: userId, deletedAt: null },
+      select: {
+        id: true,
+        status: true,
+        Role_UserRoles: {
+          where: { deletedAt: null },
+          select: { id: true, name: true }
+        },
+        Staff: {
+          select: { id: true, providerId: true, isActive: true }
+        },
+        ServiceProvider_ServiceProvider_userIdToUser: {
+          select: { id: true }
+        }
+      }
+    });
+
+    if (!user) return null;
+
+    return {
+      userId: user.id,
+      isBlocked: user.status === UserStatus.BLOCKED,
+      roles: user.Role_UserRoles,
+      staff: user.Staff,
+      managedProviderId: user.ServiceProvider_ServiceProvider_userIdToUser?.id ?? null
+    };
+  },
+
+  async findPermissionNamesByRole(roleName: string): Promise<string[]> {
+    const permissions = await prisma.permission.findMany({
+      where: {
+        deletedAt: null,
+        Role: { some: { name: roleName, deletedAt: null } }
+      },
+      select: { name: true }
+    });
+
+    return permissions.map((permission) => permission.name);
+  },
+
+  async findStaffProviderId(staffId: number): Promise<number | null> {
+    const staff = await prisma.staff.findUnique({
+      where: { id: staffId },
+      select: { providerId: true }
+    });
+
+    return staff?.providerId ?? null;
+  }
+};
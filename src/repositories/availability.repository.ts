@@ -0,0 +1,127 @@
+import { AvailabilityExceptionType, Session } from '../generated/prisma';
+import { AppError } from '../handlers/error';
+import { WeeklySlot } from '../schedule/availability';
+import { prisma } from './prisma';
+
+export interface AvailabilityExceptionInput {
+  // YYYY-MM-DD
+  date: string;
+  session: Session | null;
+  type: AvailabilityExceptionType;
+  note?: string;
+}
+
+const SLOT_SELECT = { weekDay: true, session: true } as const;
+
+const EXCEPTION_SELECT = {
+  id: true,
+  date: true,
+  session: true,
+  type: true,
+  note: true
+} as const;
+
+const WEEK_DAY_ORDER = ['MONDAY', 'TUESDAY', 'WEDNESDAY', 'THURSDAY', 'FRIDAY', 'SATURDAY', 'SUNDAY'];
+
+const sortSlots = (slots: WeeklySlot[]) =>
+  [...slots].sort(
+    (a, b) => WEEK_DAY_ORDER.indexOf(a.weekDay) - WEEK_DAY_ORDER.indexOf(b.weekDay) || a.session.localeCompare(b.session)
+  );
+
+export const AvailabilityRepository = {
+  async getAvailability(staffId: number, fromDate: string, toDate: string) {
+    try {
+      const [slots, exceptions] = await Promise.all([
+        prisma.staffAvailability.findMany({ where: { staffId }, select: SLOT_SELECT }),
+        prisma.staffAvailabilityException.findMany({
+          where: { staffId, date: { gte: new Date(fromDate), lte: new Date(toDate) } },
+          orderBy: { date: 'asc' },
+          select: EXCEPTION_SELECT
+        })
+      ]);
+
+      return { slots: sortSlots(slots), exceptions };
+    } catch (error) {
+      throw new AppError(
+        'Failed to get staff availability',
+        [{ message: 'Error.GetAvailabilityError', path: ['staffId'] }],
+        { staffId, error },
+        500
+      );
+    }
+  },
+
+  /**
+   * Replaces every weekly slot of the staff member with the given set.
+   */
+  async replaceWeeklySlots(staffId: number, slots: WeeklySlot[]) {
+    try {
+      return await prisma.$transaction(async (tx) => {
+        await tx.staffAvailability.deleteMany({ where: { staffId } });
+        await tx.staffAvailability.createMany({
+          data: slots.map((slot) => ({ staffId, ...slot }))
+        });
+
+        const saved = await tx.staffAvailability.findMany({ where: { staffId }, select: SLOT_SELECT });
+        return sortSlots(saved);
+      });
+    } catch (error) {
+      throw new AppError(
+        'Failed to save weekly availability',
+        [{ message: 'Error.SaveAvailabilityError', path: ['slots'] }],
+        { staffId, error },
+        500
+      );
+    }
+  },
+
+  /**
+   * Records an exception, replacing one already set for the same date and session.
+   */
+  async saveException(staffId: number, input: AvailabilityExceptionInput) {
+    try {
+      const date = new Date(input.date);
+      const existing = await prisma.staffAvailabilityException.findFirst({
+        where: { staffId, date, session: input.session },
+        select: { id: true }
+      });
+
+      const data = { type: input.type, note: input.note ?? null };
+
+      return existing
+        ? await prisma.staffAvailabilityException.update({
+          where: { id: existing.id },
+          data,
+          select: EXCEPTION_SELECT
+        })
+        : await prisma.staffAvailabilityException.create({
+          data: { staffId, date, session: input.session, ...data },
+          select: EXCEPTION_SELECT
+        });
+    } catch (error) {
+      throw new AppError(
+        'Failed to save availability exception',
+        [{ message: 'Error.SaveAvailabilityError', path: ['date'] }],
+        { staffId, input, error },
+        500
+      );
+    }
+  },
+
+  async removeException(staffId: number, exceptionId: number) {
+    const { count } = await prisma.staffAvailabilityException.deleteMany({
+      where: { id: exceptionId, staffId }
+    });
+
+    if (count === 0) {
+      throw new AppError(
+        'Availability exception not found',
+        [{ message: 'Error.AvailabilityExceptionNotFound', path: ['exceptionId'] }],
+        { staffId, exceptionId },
+        404
+      );
+    }
+
+    return { exceptionId, deleted: true };
+  }
+};
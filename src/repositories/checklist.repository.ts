@@ -0,0 +1,180 @@
+import { Prisma } from '../generated/prisma';
+import { AppError } from '../handlers/error';
+import { ChecklistAnswerValues, ChecklistItemDefinition, storedValue } from '../inspection/checklist';
+import { prisma } from './prisma';
+
+// Guards against cycles in the category tree
+const MAX_CATEGORY_DEPTH = 10;
+
+const TEMPLATE_SELECT = {
+  id: true,
+  name: true,
+  version: true,
+  categoryId: true,
+  ChecklistItem: {
+    orderBy: { position: 'asc' },
+    select: {
+      id: true,
+      key: true,
+      label: true,
+      type: true,
+      required: true,
+      position: true,
+      minValue: true,
+      maxValue: true,
+      unit: true,
+      options: true
+    }
+  }
+} as const;
+
+const ANSWER_SELECT = {
+  itemId: true,
+  booleanValue: true,
+  numberValue: true,
+  choiceValue: true,
+  photoUrls: true
+} as const;
+
+type TemplateRow = Prisma.ChecklistTemplateGetPayload<{ select: typeof TEMPLATE_SELECT }>;
+
+export interface ChecklistTemplateRecord {
+  id: number;
+  name: string;
+  version: number;
+  categoryId: number;
+  items: (ChecklistItemDefinition & { position: number; unit: string | null })[];
+}
+
+const toTemplate = ({ ChecklistItem, ...template }: TemplateRow): ChecklistTemplateRecord => ({
+  ...template,
+  items: ChecklistItem
+});
+
+const loadError = (details: object, error: unknown) =>
+  new AppError(
+    'Failed to load inspection checklist',
+    [{ message: 'Error.GetChecklistTemplateError', path: ['checklist'] }],
+    { ...details, error },
+    500
+  );
+
+export const ChecklistRepository = {
+  /**
+   * Latest active template of a category, inherited from the nearest parent
+   * category that has one. Runs on the given transaction client when called
+   * from inside one.
+   */
+  async findActiveTemplate(
+    categoryId: number,
+    client: Prisma.TransactionClient = prisma
+  ): Promise<ChecklistTemplateRecord | null> {
+    try {
+      let current: number | null = categoryId;
+
+      for (let depth = 0; current !== null && depth < MAX_CATEGORY_DEPTH; depth++) {
+        const template = await client.checklistTemplate.findFirst({
+          where: { categoryId: current, isActive: true },
+          orderBy: { version: 'desc' },
+          select: TEMPLATE_SELECT
+        });
+        if (template) return toTemplate(template);
+
+        const category: { parentCategoryId: number | null } | null = await client.category.findUnique({
+          where: { id: current },
+          select: { parentCategoryId: true }
+        });
+        current = category?.parentCategoryId ?? null;
+      }
+
+      return null;
+    } catch (error) {
+      throw loadError({ categoryId }, error);
+    }
+  },
+
+  async findTemplate(templateId: number, client: Prisma.TransactionClient = prisma) {
+    try {
+      const template = await client.checklistTemplate.findUnique({
+        where: { id: templateId },
+        select: TEMPLATE_SELECT
+      });
+
+      return template ? toTemplate(template) : null;
+    } catch (error) {
+      throw loadError({ templateId }, error);
+    }
+  },
+
+  async findAnswers(reportId: number, client: Prisma.TransactionClient = prisma): Promise<ChecklistAnswerValues[]> {
+    return client.checklistAnswer.findMany({ where: { reportId }, select: ANSWER_SELECT });
+  },
+
+  /**
+   * Writes answers for a report, replacing earlier answers to the same items.
+   */
+  async saveAnswers(reportId: number, answers: ChecklistAnswerValues[], client: Prisma.TransactionClient) {
+    const now = new Date();
+
+    for (const { itemId, ...values } of answers) {
+      await client.checklistAnswer.upsert({
+        where: { reportId_itemId: { reportId, itemId } },
+        create: { reportId, itemId, ...values, updatedAt: now },
+        update: { ...values, updatedAt: now }
+      });
+    }
+  },
+
+  /**
+   * A report's answers labelled with its template's items, or null when the
+   * report has no checklist.
+   */
+  async getReportChecklist(
+    report: { id: number; checklistTemplateId: number | null },
+    client: Prisma.TransactionClient = prisma
+  ) {
+    if (report.checklistTemplateId === null) return null;
+
+    const [template, answers] = await Promise.all([
+      ChecklistRepository.findTemplate(report.checklistTemplateId, client),
+      ChecklistRepository.findAnswers(report.id, client)
+    ]);
+    if (!template) return null;
+
+    const answersByItem = new Map(answers.map((answer) => [answer.itemId, answer]));
+
+    return {
+      templateId: template.id,
+      name: template.name,
+      version: template.version,
+      answers: template.items.flatMap((item) => {
+        const answer = answersByItem.get(item.id);
+        return answer
+          ? [{ key: item.key, label: item.label, type: item.type, value: storedValue(item, answer) }]
+          : [];
+      })
+    };
+  },
+
+  async findBookingCategory(bookingId: number) {
+    try {
+      return await prisma.booking.findUnique({
+        where: { id: bookingId },
+        select: { staffId: true, ServiceRequest: { select: { categoryId: true } } }
+      });
+    } catch (error) {
+      throw loadError({ bookingId }, error);
+    }
+  },
+
+  async hasStaffCategory(staffId: number, categoryId: number): Promise<boolean> {
+    try {
+      const assignment = await prisma.staffCategory.findUnique({
+        where: { staffId_categoryId: { staffId, categoryId } }
+      });
+      return assignment !== null;
+    } catch (error) {
+      throw loadError({ staffId, categoryId }, error);
+    }
+  }
+};
@@ -0,0 +1,103 @@
+import { Prisma } from '../generated/prisma';
+import { AppError } from '../handlers/error';
+import { commitReserved, findReleasableBookings, releaseReserved, reserveForProposal } from '../inventory/reservations';
+import { prisma } from './prisma';
+
+export interface ServiceItemSearch {
+  query?: string;
+  inStockOnly: boolean;
+  page: number;
+  limit: number;
+}
+
+const ITEM_SELECT = {
+  id: true,
+  name: true,
+  brand: true,
+  model: true,
+  description: true,
+  unit: true,
+  unitPrice: true,
+  stockQuantity: true,
+  warrantyPeriod: true
+} as const;
+
+export const InventoryRepository = {
+  reserveForProposal,
+  commitReserved,
+
+  findReleasableBookings(): Promise<number[]> {
+    return findReleasableBookings(prisma);
+  },
+
+  async releaseForBooking(bookingId: number) {
+    return prisma.$transaction((tx) => releaseReserved(tx, bookingId));
+  },
+
+  /**
+   * Active items of the staff member's provider matching a name, brand or
+   * model fragment.
+   */
+  async searchItems(staffId: number, search: ServiceItemSearch) {
+    try {
+      const staff = await prisma.staff.findUnique({
+        where: { id: staffId },
+        select: { providerId: true }
+      });
+
+      if (!staff) {
+        throw new AppError(
+          'Staff not found',
+          [{ message: 'Error.InvalidStaffId', path: ['staffId'] }],
+          { staffId },
+          400
+        );
+      }
+
+      const text = search.query?.trim();
+      const where: Prisma.ServiceItemWhereInput = {
+        providerId: staff.providerId,
+        isActive: true,
+        deletedAt: null,
+        ...(search.inStockOnly ? { stockQuantity: { gt: 0 } } : {}),
+        ...(text
+          ? {
+            OR: [
+              { name: { contains: text, mode: 'insensitive' } },
+              { brand: { contains: text, mode: 'insensitive' } },
+              { model: { contains: text, mode: 'insensitive' } }
+            ]
+          }
+          : {})
+      };
+
+      const [items, total] = await Promise.all([
+        prisma.serviceItem.findMany({
+          where,
+          orderBy: { name: 'asc' },
+          skip: (search.page - 1) * search.limit,
+          take: search.limit,
+          select: ITEM_SELECT
+        }),
+        prisma.serviceItem.count({ where })
+      ]);
+
+      return {
+        items,
+        total,
+        page: search.page,
+        limit: search.limit,
+        totalPages: Math.ceil(total / search.limit)
+      };
+    } catch (error) {
+      if (error instanceof AppError) throw error;
+
+      throw new AppError(
+        'Failed to search service items',
+        [{ message: 'Error.SearchServiceItemsError', path: ['query'] }],
+        { staffId, query: search.query, error },
+        500
+      );
+    }
+  }
+};
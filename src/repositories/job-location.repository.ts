@@ -0,0 +1,48 @@
+import { Coordinates } from '../geo/distance';
+import { AppError } from '../handlers/error';
+import { prisma } from './prisma';
+
+export const JobLocationRepository = {
+  async findByBookingId(bookingId: number) {
+    try {
+      const booking = await prisma.booking.findUnique({
+        where: { id: bookingId },
+        select: {
+          ServiceRequest: {
+            select: {
+              id: true,
+              location: true,
+              JobLocation: { select: { address: true, latitude: true, longitude: true } }
+            }
+          }
+        }
+      });
+
+      return booking?.ServiceRequest ?? null;
+    } catch (error) {
+      throw new AppError(
+        'Failed to get job location',
+        [{ message: 'Error.GetJobLocationError', path: ['bookingId'] }],
+        { bookingId, error },
+        500
+      );
+    }
+  },
+
+  async save(serviceRequestId: number, address: string, coordinates: Coordinates, source: string) {
+    try {
+      return await prisma.jobLocation.upsert({
+        where: { serviceRequestId },
+        create: { serviceRequestId, address, ...coordinates, source },
+        update: { address, ...coordinates, source }
+      });
+    } catch (error) {
+      throw new AppError(
+        'Failed to save job location',
+        [{ message: 'Error.SaveJobLocationError', path: ['serviceRequestId'] }],
+        { serviceRequestId, error },
+        500
+      );
+    }
+  }
+};
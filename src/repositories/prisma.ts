@@ -0,0 +1,4 @@
+import { PrismaClient } from '../generated/prisma';
+
+// Single client shared by every repository so they share one connection pool
+export const prisma = new PrismaClient();
@@ -0,0 +1,403 @@
+import { BookingStatus, Prisma, ProposalStatus, ServiceStatus } from '../generated/prisma';
+import { AppError } from '../handlers/error';
+import { missingIds, PricedProposal, priceProposal, ProposalLineInput } from '../proposal/pricing';
+import { RevisionSnapshot } from '../proposal/revisions';
+import { InventoryRepository } from './inventory.repository';
+import { prisma } from './prisma';
+
+type Tx = Prisma.TransactionClient;
+
+export const PROPOSAL_SELECT = {
+  id: true,
+  status: true,
+  notes: true,
+  totalPrice: true,
+  createdAt: true,
+  updatedAt: true,
+  currentVersion: true,
+  ProposalItem: {
+    orderBy: { id: 'asc' },
+    select: {
+      id: true,
+      quantity: true,
+      unitPrice: true,
+      lineTotal: true,
+      Service: { select: { id: true, name: true, basePrice: true, durationMinutes: true } },
+      ProposalItemPart: {
+        orderBy: { id: 'asc' },
+        select: {
+          id: true,
+          quantity: true,
+          unitPrice: true,
+          lineTotal: true,
+          ServiceItem: { select: { id: true, name: true, brand: true, model: true } }
+        }
+      }
+    }
+  }
+} as const;
+
+const REVISION_SELECT = {
+  version: true,
+  notes: true,
+  totalPrice: true,
+  staffId: true,
+  createdAt: true,
+  ProposalRevisionItem: {
+    orderBy: { id: 'asc' },
+    select: {
+      serviceId: true,
+      serviceName: true,
+      quantity: true,
+      unitPrice: true,
+      lineTotal: true,
+      ProposalRevisionPart: {
+        orderBy: { id: 'asc' },
+        select: { serviceItemId: true, name: true, quantity: true, unitPrice: true, lineTotal: true }
+      }
+    }
+  }
+} as const;
+
+type ProposalRow = Prisma.ProposalGetPayload<{ select: typeof PROPOSAL_SELECT }>;
+
+export const mapProposal = (proposal: ProposalRow) => ({
+  id: proposal.id,
+  status: proposal.status,
+  notes: proposal.notes ?? '',
+  totalPrice: proposal.totalPrice,
+  createdAt: proposal.createdAt,
+  updatedAt: proposal.updatedAt,
+  currentVersion: proposal.currentVersion,
+  items: proposal.ProposalItem.map((item) => ({
+    id: item.id,
+    quantity: item.quantity,
+    unitPrice: item.unitPrice,
+    lineTotal: item.lineTotal,
+    service: item.Service,
+    parts: item.ProposalItemPart.map((part) => ({
+      id: part.id,
+      quantity: part.quantity,
+      unitPrice: part.unitPrice,
+      lineTotal: part.lineTotal,
+      serviceItem: part.ServiceItem
+    }))
+  }))
+});
+
+export interface ProposalInput {
+  notes?: string;
+  // Replaces every line when given
+  lines?: ProposalLineInput[];
+}
+
+/**
+ * Loads a booking the staff member may quote: theirs, still open and inspected.
+ */
+const loadQuotableBooking = async (tx: Tx, staffId: number, bookingId: number) => {
+  const booking = await tx.booking.findUnique({
+    where: { id: bookingId },
+    select: {
+      id: true,
+      staffId: true,
+      providerId: true,
+      status: true,
+      InspectionReport: { select: { id: true } },
+      Proposal: { select: { id: true, status: true, staffId: true, currentVersion: true } }
+    }
+  });
+
+  if (!booking) {
+    throw new AppError(
+      'Booking not found',
+      [{ message: 'Error.BookingNotFound', path: ['bookingId'] }],
+      { bookingId },
+      404
+    );
+  }
+
+  if (booking.staffId !== staffId) {
+    throw new AppError(
+      'Access denied: Staff does not own this booking',
+      [{ message: 'Error.UnauthorizedAccess', path: ['staffId'] }],
+      { staffId, bookingStaffId: booking.staffId },
+      403
+    );
+  }
+
+  if (booking.status === BookingStatus.COMPLETED || booking.status === BookingStatus.CANCELLED) {
+    throw new AppError(
+      'Cannot quote a completed or canceled booking',
+      [{ message: 'Error.InvalidStatusTransition', path: ['status'] }],
+      { bookingId, status: booking.status },
+      409
+    );
+  }
+
+  if (!booking.InspectionReport) {
+    throw new AppError(
+      'Booking must be inspected before it can be quoted',
+      [{ message: 'Error.InspectionRequired', path: ['bookingId'] }],
+      { bookingId },
+      400
+    );
+  }
+
+  return booking;
+};
+
+/**
+ * Prices lines with the provider's approved services and active parts,
+ * rejecting anything else.
+ */
+const priceLines = async (tx: Tx, providerId: number, lines: ProposalLineInput[]): Promise<PricedProposal> => {
+  const serviceIds = lines.map((line) => line.serviceId);
+  const partIds = lines.flatMap((line) => line.parts.map((part) => part.serviceItemId));
+
+  const [services, parts] = await Promise.all([
+    tx.service.findMany({
+      where: { id: { in: serviceIds }, providerId, status: ServiceStatus.ACCEPTED, deletedAt: null },
+      select: { id: true, basePrice: true }
+    }),
+    partIds.length > 0
+      ? tx.serviceItem.findMany({
+        where: { id: { in: partIds }, providerId, isActive: true, deletedAt: null },
+        select: { id: true, unitPrice: true }
+      })
+      : []
+  ]);
+
+  const unavailableServices = missingIds(serviceIds, new Set(services.map((service) => service.id)));
+  if (unavailableServices.length > 0) {
+    throw new AppError(
+      "Services are not offered by the booking's provider",
+      [{ message: 'Error.ServiceNotAvailable', path: ['items'] }],
+      { providerId, serviceIds: unavailableServices },
+      400
+    );
+  }
+
+  const unavailableParts = missingIds(partIds, new Set(parts.map((part) => part.id)));
+  if (unavailableParts.length > 0) {
+    throw new AppError(
+      "Parts are not stocked by the booking's provider",
+      [{ message: 'Error.PartNotAvailable', path: ['items'] }],
+      { providerId, serviceItemIds: unavailableParts },
+      400
+    );
+  }
+
+  return priceProposal(
+    lines,
+    new Map(services.map((service) => [service.id, service.basePrice])),
+    new Map(parts.map((part) => [part.id, part.unitPrice]))
+  );
+};
+
+const writeLines = async (tx: Tx, proposalId: number, priced: PricedProposal) => {
+  for (const line of priced.lines) {
+    await tx.proposalItem.create({
+      data: {
+        proposalId,
+        serviceId: line.serviceId,
+        quantity: line.quantity,
+        unitPrice: line.unitPrice,
+        lineTotal: line.lineTotal,
+        ProposalItemPart: {
+          create: line.parts.map((part) => ({
+            serviceItemId: part.serviceItemId,
+            quantity: part.quantity,
+            unitPrice: part.unitPrice,
+            lineTotal: part.lineTotal
+          }))
+        }
+      }
+    });
+  }
+};
+
+/**
+ * Stores an immutable copy of the proposal as it now stands.
+ */
+const recordRevision = async (
+  tx: Tx,
+  proposal: ReturnType<typeof mapProposal>,
+  version: number,
+  staffId: number | null
+) => {
+  await tx.proposalRevision.create({
+    data: {
+      proposalId: proposal.id,
+      version,
+      notes: proposal.notes || null,
+      totalPrice: proposal.totalPrice,
+      staffId,
+      ProposalRevisionItem: {
+        create: proposal.items.map((item) => ({
+          serviceId: item.service.id,
+          serviceName: item.service.name,
+          quantity: item.quantity,
+          unitPrice: item.unitPrice,
+          lineTotal: item.lineTotal,
+          ProposalRevisionPart: {
+            create: item.parts.map((part) => ({
+              serviceItemId: part.serviceItem.id,
+              name: part.serviceItem.name,
+              quantity: part.quantity,
+              unitPrice: part.unitPrice,
+              lineTotal: part.lineTotal
+            }))
+          }
+        }))
+      }
+    }
+  });
+};
+
+const findProposal = async (tx: Tx, proposalId: number) =>
+  mapProposal(await tx.proposal.findUniqueOrThrow({ where: { id: proposalId }, select: PROPOSAL_SELECT }));
+
+const saveError = (details: object, error: unknown) =>
+  new AppError(
+    'Failed to save proposal',
+    [{ message: 'Error.SaveProposalError', path: ['bookingId'] }],
+    { ...details, error },
+    500
+  );
+
+export const ProposalRepository = {
+  /**
+   * Quotes a booking with server-computed prices, recorded as version 1, and
+   * reserves its parts. The proposal stays PENDING until the customer accepts
+   * or rejects it.
+   */
+  async createProposal(staffId: number, bookingId: number, input: Required<Pick<ProposalInput, 'lines'>> & ProposalInput) {
+    try {
+      return await prisma.$transaction(async (tx) => {
+        const booking = await loadQuotableBooking(tx, staffId, bookingId);
+
+        if (booking.Proposal) {
+          throw new AppError(
+            'Booking already has a proposal',
+            [{ message: 'Error.ProposalExists', path: ['bookingId'] }],
+            { bookingId, proposalId: booking.Proposal.id },
+            409
+          );
+        }
+
+        const priced = await priceLines(tx, booking.providerId, input.lines);
+
+        const proposal = await tx.proposal.create({
+          data: {
+            bookingId,
+            staffId,
+            notes: input.notes,
+            status: ProposalStatus.PENDING,
+            totalPrice: priced.totalPrice,
+            updatedAt: new Date(),
+            currentVersion: 1
+          }
+        });
+        await writeLines(tx, proposal.id, priced);
+        await InventoryRepository.reserveForProposal(tx, bookingId, proposal.id, input.lines);
+
+        const saved = await findProposal(tx, proposal.id);
+        await recordRevision(tx, saved, 1, staffId);
+        return saved;
+      });
+    } catch (error) {
+      if (error instanceof AppError) throw error;
+      throw saveError({ staffId, bookingId }, error);
+    }
+  },
+
+  /**
+   * Changes the notes or lines of a proposal the customer has not acted on yet,
+   * recording the result as its next version.
+   */
+  async updateProposal(staffId: number, bookingId: number, input: ProposalInput) {
+    try {
+      return await prisma.$transaction(async (tx) => {
+        const booking = await loadQuotableBooking(tx, staffId, bookingId);
+
+        if (!booking.Proposal) {
+          throw new AppError(
+            'No proposal found for this booking',
+            [{ message: 'Error.NoProposalFound', path: ['bookingId'] }],
+            { bookingId },
+            404
+          );
+        }
+
+        const proposalId = booking.Proposal.id;
+        const priced = input.lines ? await priceLines(tx, booking.providerId, input.lines) : null;
+
+        // Proposals quoted before revisions existed keep their original terms as version 1
+        let baseVersion = booking.Proposal.currentVersion;
+        if (baseVersion === null) {
+          baseVersion = 1;
+          await recordRevision(tx, await findProposal(tx, proposalId), baseVersion, booking.Proposal.staffId);
+        }
+
+        // Conditional on PENDING so a customer decision made meanwhile is never overwritten
+        const { count } = await tx.proposal.updateMany({
+          where: { id: proposalId, status: ProposalStatus.PENDING },
+          data: {
+            ...(input.notes !== undefined ? { notes: input.notes } : {}),
+            ...(priced ? { totalPrice: priced.totalPrice } : {}),
+            staffId,
+            updatedAt: new Date(),
+            currentVersion: baseVersion + 1
+          }
+        });
+
+        if (count === 0) {
+          throw new AppError(
+            'Proposal can no longer be changed',
+            [{ message: 'Error.ProposalNotEditable', path: ['bookingId'] }],
+            { bookingId, proposalId, status: booking.Proposal.status },
+            409
+          );
+        }
+
+        if (priced && input.lines) {
+          await tx.proposalItem.deleteMany({ where: { proposalId } });
+          await writeLines(tx, proposalId, priced);
+          await InventoryRepository.reserveForProposal(tx, bookingId, proposalId, input.lines);
+        }
+
+        const saved = await findProposal(tx, proposalId);
+        await recordRevision(tx, saved, baseVersion + 1, staffId);
+        return saved;
+      });
+    } catch (error) {
+      if (error instanceof AppError) throw error;
+      throw saveError({ staffId, bookingId }, error);
+    }
+  },
+
+  /**
+   * Every saved version of a proposal, oldest first.
+   */
+  async findRevisions(proposalId: number): Promise<RevisionSnapshot[]> {
+    try {
+      const revisions = await prisma.proposalRevision.findMany({
+        where: { proposalId },
+        orderBy: { version: 'asc' },
+        select: REVISION_SELECT
+      });
+
+      return revisions.map(({ ProposalRevisionItem, ...revision }) => ({
+        ...revision,
+        items: ProposalRevisionItem.map(({ ProposalRevisionPart, ...item }) => ({ ...item, parts: ProposalRevisionPart }))
+      }));
+    } catch (error) {
+      throw new AppError(
+        'Failed to fetch proposal revisions',
+        [{ message: 'Error.GetProposalByBookingError', path: ['bookingId'] }],
+        { proposalId, error },
+        500
+      );
+    }
+  }
+};
@@ -0,0 +1,131 @@
+import { BookingStatus, Prisma, ProposalStatus } from '../generated/prisma';
+import { Coordinates } from '../geo/distance';
+import { AppError } from '../handlers/error';
+import { ScheduledBooking } from '../schedule/conflicts';
+import { prisma } from './prisma';
+
+export interface ScheduledJob extends ScheduledBooking {
+  address: string | null;
+  coordinates: Coordinates | null;
+}
+
+const SCHEDULED_BOOKING_SELECT = {
+  id: true,
+  ServiceRequest: {
+    select: {
+      preferredDate: true,
+      location: true,
+      JobLocation: { select: { address: true, latitude: true, longitude: true } }
+    }
+  },
+  InspectionReport: { select: { estimatedTime: true } },
+  Proposal: {
+    select: {
+      status: true,
+      ProposalItem: { select: { quantity: true, Service: { select: { durationMinutes: true } } } }
+    }
+  }
+} as const;
+
+const CALENDAR_BOOKING_SELECT = {
+  ...SCHEDULED_BOOKING_SELECT,
+  status: true,
+  updatedAt: true,
+  CustomerProfile: { select: { User: { select: { name: true, phone: true } } } },
+  ServiceRequest: {
+    select: {
+      ...SCHEDULED_BOOKING_SELECT.ServiceRequest.select,
+      note: true,
+      phoneNumber: true,
+      Category: { select: { name: true } }
+    }
+  }
+} as const;
+
+type ScheduledBookingRow = Prisma.BookingGetPayload<{ select: typeof SCHEDULED_BOOKING_SELECT }>;
+
+const toScheduledJob = (booking: ScheduledBookingRow): ScheduledJob => {
+  const request = booking.ServiceRequest!;
+  const proposal = booking.Proposal?.status === ProposalStatus.REJECTED ? null : booking.Proposal;
+  const proposalMinutes = proposal?.ProposalItem.reduce(
+    (sum, item) => sum + item.Service.durationMinutes * item.quantity,
+    0
+  );
+  // Coordinates geocoded from an older address no longer apply
+  const located = request.JobLocation && request.JobLocation.address === request.location ? request.JobLocation : null;
+
+  return {
+    bookingId: booking.id,
+    start: request.preferredDate,
+    proposalMinutes: proposalMinutes || null,
+    estimatedMinutes: booking.InspectionReport?.estimatedTime ?? null,
+    address: request.location,
+    coordinates: located ? { latitude: located.latitude, longitude: located.longitude } : null
+  };
+};
+
+export const ScheduleRepository = {
+  /**
+   * Non-cancelled bookings of a staff member whose preferred date falls in
+   * [start, end), with what is needed to work out how long and where each one is.
+   */
+  async findScheduledBookings(staffId: number, start: Date, end: Date): Promise<ScheduledJob[]> {
+    try {
+      const bookings = await prisma.booking.findMany({
+        where: {
+          staffId,
+          deletedAt: null,
+          status: { not: BookingStatus.CANCELLED },
+          ServiceRequest: { preferredDate: { gte: start, lt: end } }
+        },
+        orderBy: { ServiceRequest: { preferredDate: 'asc' } },
+        select: SCHEDULED_BOOKING_SELECT
+      });
+
+      return bookings.map(toScheduledJob);
+    } catch (error) {
+      throw new AppError(
+        'Failed to load staff schedule',
+        [{ message: 'Error.GetScheduleError', path: ['staffId'] }],
+        { staffId, error },
+        500
+      );
+    }
+  },
+
+  /**
+   * Bookings of a staff member whose preferred date falls in [start, end),
+   * cancelled ones included so calendar clients can drop them.
+   */
+  async findCalendarBookings(staffId: number, start: Date, end: Date) {
+    try {
+      const bookings = await prisma.booking.findMany({
+        where: {
+          staffId,
+          deletedAt: null,
+          ServiceRequest: { preferredDate: { gte: start, lt: end } }
+        },
+        orderBy: { ServiceRequest: { preferredDate: 'asc' } },
+        select: CALENDAR_BOOKING_SELECT
+      });
+
+      return bookings.map((booking) => ({
+        ...toScheduledJob(booking),
+        status: booking.status,
+        updatedAt: booking.updatedAt,
+        customerName: booking.CustomerProfile.User.name,
+        // The number given on the request is the one to call on the day
+        customerPhone: booking.ServiceRequest!.phoneNumber || booking.CustomerProfile.User.phone,
+        categoryName: booking.ServiceRequest!.Category.name,
+        note: booking.ServiceRequest!.note
+      }));
+    } catch (error) {
+      throw new AppError(
+        'Failed to load staff schedule',
+        [{ message: 'Error.GetScheduleError', path: ['staffId'] }],
+        { staffId, error },
+        500
+      );
+    }
+  }
+};
@@ -1,13 +1,34 @@
-import { PrismaClient, Prisma, BookingStatus, InspectionStatus, RequestStatus } from '../generated/prisma';
+import {
+  Prisma,
+  BookingStatus,
+  InspectionStatus,
+  RequestStatus,
+  TransitionActorType,
+  WorkLogEndReason
+} from '../generated/prisma';
+import { assertBookingOwner } from '../auth/booking-owner';
+import { SessionLocation } from '../geo/geofence';
 import { AppError } from '../handlers/error';
-
-const prisma = new PrismaClient();
+import { ChecklistAnswerInput, validateChecklistAnswers } from '../inspection/checklist';
+import { assertReportOwner } from '../inspection/report-access';
+import { assertCheckInWindow, assertSessionLength, WorkPolicy } from '../policy/work-policy';
+import { InstantRange, zonedDateKey, zonedDayBounds, zonedFilterBounds, zonedMonthBounds } from '../schedule/time-zone';
+import { BookingDateField } from '../schemas/type';
+import {
+  canStartWork,
+  canTransitionRequest,
+  transitionBooking,
+  transitionServiceRequest
+} from '../state/status-machine';
+import { ChecklistRepository, ChecklistTemplateRecord } from './checklist.repository';
+import { InventoryRepository } from './inventory.repository';
+import { prisma } from './prisma';
+import { mapProposal, PROPOSAL_SELECT } from './proposal.repository';
+import { WorkPolicyRepository } from './work-policy.repository';
 
 const DEFAULT_PAGE = 1;
 const DEFAULT_LIMIT = 10;
 const MAX_UPDATE_HOURS = 24;
-const MAX_CHECKOUT_HOURS = 24;
-const MAX_DATE_DIFF_DAYS = 1;
 
 const USER_SELECT = { name: true, phone: true } as const;
 const STAFF_USER_SELECT = { name: true, avatar: true } as const;
@@ -52,6 +73,25 @@ const buildDateFilter = (fromDate?: string, toDate?: string) => {
   };
 };
 
+// Restricts bookings to those whose chosen date falls within the bounds
+const buildBookingDateFilter = (
+  field: BookingDateField,
+  bounds: { gte?: Date; lt?: Date }
+): Prisma.BookingWhereInput => {
+  if (!bounds.gte && !bounds.lt) return {};
+
+  switch (field) {
+    case 'createdAt':
+      return { createdAt: bounds };
+    case 'preferredDate':
+      return { ServiceRequest: { preferredDate: bounds } };
+    case 'checkIn':
+      return { WorkLog: { some: { checkIn: bounds } } };
+  }
+};
+
+const boundsOf = (range: InstantRange) => ({ gte: range.start, lt: range.end });
+
 const buildKeywordFilter = (keyword?: string) => {
   if (!keyword) return {};
 
@@ -98,10 +138,6 @@ const calculateHoursDifference = (startDate: Date, endDate: Date): number => {
   return (endDate.getTime() - startDate.getTime()) / (1000 * 60 * 60);
 };
 
-const calculateDaysDifference = (date1: Date, date2: Date): number => {
-  return Math.abs(Math.floor((date1.getTime() - date2.getTime()) / (1000 * 60 * 60 * 24)));
-};
-
 const validateBookingConnection = (data: Prisma.InspectionReportCreateInput) => {
   if (!data.Booking?.connect || typeof data.Booking.connect.id !== 'number') {
     throw new AppError(
@@ -114,6 +150,169 @@ const validateBookingConnection = (data: Prisma.InspectionReportCreateInput) =>
   return data.Booking.connect.id;
 };
 
+// Work can only be logged while the booking can still be completed
+const assertCanStartWork = (
+  bookingId: number,
+  status: BookingStatus,
+  requestStatus: RequestStatus | undefined,
+  firstSession: boolean
+) => {
+  if (!canStartWork(status, requestStatus, firstSession)) {
+    throw new AppError(
+      'Cannot check in to a completed or canceled booking',
+      [{ message: 'Error.InvalidBookingStatusForCheckIn', path: ['bookingId'] }],
+      { bookingId, status, requestStatus },
+      400
+    );
+  }
+};
+
+// Answers sent for a category without a checklist would be silently lost
+const assertChecklistTemplate = (
+  template: ChecklistTemplateRecord | null,
+  answers: ChecklistAnswerInput[],
+  bookingId: number
+) => {
+  if (!template && answers.length > 0) {
+    throw new AppError(
+      "Booking's category has no inspection checklist",
+      [{ message: 'Error.NoChecklistTemplate', path: ['checklist'] }],
+      { bookingId },
+      400
+    );
+  }
+};
+
+// Accepted bookings can still be handed back, but not once work has started
+const assertCanDecline = (
+  bookingId: number,
+  status: BookingStatus,
+  requestStatus: RequestStatus | undefined,
+  workLogCount: number
+) => {
+  if (status !== BookingStatus.PENDING && status !== BookingStatus.CONFIRMED) {
+    throw new AppError(
+      'Cannot decline a completed or canceled booking',
+      [{ message: 'Error.InvalidStatusTransition', path: ['status'] }],
+      { bookingId, status },
+      409
+    );
+  }
+
+  if (workLogCount > 0 || (requestStatus && requestStatus !== RequestStatus.PENDING)) {
+    throw new AppError(
+      'Booking is already in progress',
+      [{ message: 'Error.BookingInProgress', path: ['bookingId'] }],
+      { bookingId, requestStatus, workLogCount },
+      409
+    );
+  }
+};
+
+const findLatestSession = (tx: Prisma.TransactionClient, staffId: number, bookingId: number) =>
+  tx.workLog.findFirst({
+    where: { bookingId, staffId },
+    orderBy: { createdAt: 'desc' },
+    select: { id: true, checkIn: true, checkOut: true, endReason: true }
+  });
+
+const checkInLocationData = (location?: SessionLocation) =>
+  location
+    ? {
+      checkInLatitude: location.latitude,
+      checkInLongitude: location.longitude,
+      checkInDistance: location.distanceMeters,
+      locationFlagged: location.flagged
+    }
+    : {};
+
+// Never clears a flag raised at check-in
+const checkOutLocationData = (location?: SessionLocation) =>
+  location
+    ? {
+      checkOutLatitude: location.latitude,
+      checkOutLongitude: location.longitude,
+      checkOutDistance: location.distanceMeters,
+      ...(location.flagged ? { locationFlagged: true } : {})
+    }
+    : {};
+
+const resolveBookingPolicy = (
+  tx: Prisma.TransactionClient,
+  booking: { providerId: number; ServiceRequest: { categoryId: number } | null }
+) => WorkPolicyRepository.resolve(booking.providerId, booking.ServiceRequest?.categoryId ?? null, tx);
+
+interface CloseSessionOptions {
+  endReason: WorkLogEndReason;
+  // Decides how long the session may have been open
+  policy: WorkPolicy;
+  note?: string;
+  location?: SessionLocation;
+}
+
+/**
+ * Closes the staff member's open work session on a booking. Sessions open
+ * longer than the policy's maxSessionMinutes can no longer be closed by the
+ * staff member.
+ */
+const closeOpenSession = async (
+  tx: Prisma.TransactionClient,
+  staffId: number,
+  bookingId: number,
+  { endReason, policy, note, location }: CloseSessionOptions
+) => {
+  const log = await findLatestSession(tx, staffId, bookingId);
+
+  if (!log) {
+    throw new AppError(
+      'Work log not found',
+      [{ message: 'NotFound', path: ['bookingId'] }],
+      { bookingId },
+      404
+    );
+  }
+
+  if (log.checkOut) {
+    throw new AppError(
+      'Already checked out',
+      [{ message: 'Error.AlreadyCheckedOut', path: ['bookingId'] }],
+      { bookingId },
+      400
+    );
+  }
+
+  if (!log.checkIn) {
+    throw new AppError(
+      'Check-in time is missing',
+      [{ message: 'Error.MissingCheckIn', path: ['bookingId'] }],
+      { bookingId },
+      400
+    );
+  }
+
+  const now = new Date();
+  assertSessionLength(policy, new Date(log.checkIn), now);
+
+  return tx.workLog.update({
+    where: { id: log.id },
+    data: {
+      checkOut: now,
+      endReason,
+      updatedAt: now,
+      ...(note ? { note } : {}),
+      ...checkOutLocationData(location)
+    }
+  });
+};
+
+const sumSessionHours = (logs: { checkIn: Date | null; checkOut: Date | null }[]) =>
+  logs.reduce((sum, log) => {
+    if (log.checkIn && log.checkOut) {
+      return sum + calculateHoursDifference(new Date(log.checkIn), new Date(log.checkOut));
+    }
+    return sum;
+  }, 0);
+
 export const StaffRepository = {
   async getBookingsList(
     staffId: number,
@@ -123,6 +322,7 @@ export const StaffRepository = {
       limit?: number;
       fromDate?: string;
       toDate?: string;
+      dateField?: BookingDateField;
       keyword?: string;
     }
   ) {
@@ -133,14 +333,10 @@ export const StaffRepository = {
     const where: Prisma.BookingWhereInput = {
       staffId,
       ...(status ? { status } : {}),
-      ...(options?.fromDate || options?.toDate
-        ? {
-          createdAt: {
-            ...(options.fromDate ? { gte: new Date(options.fromDate) } : {}),
-            ...(options.toDate ? { lte: new Date(options.toDate) } : {}),
-          },
-        }
-        : {}),
+      ...buildBookingDateFilter(
+        options?.dateField ?? 'preferredDate',
+        zonedFilterBounds(options?.fromDate, options?.toDate)
+      ),
 ...(options?.keyword
   ? {
       OR: [
@@ -278,10 +474,15 @@ export const StaffRepository = {
     }
   },
 
-async createInspectionReport(data: Prisma.InspectionReportCreateInput) {
+async createInspectionReport(
+  staffId: number,
+  data: Prisma.InspectionReportCreateInput,
+  checklist: ChecklistAnswerInput[] = []
+) {
   try {
     return await prisma.$transaction(async (tx) => {
       const bookingId = validateBookingConnection(data);
+      const booking = await assertBookingOwner(tx, staffId, bookingId);
 
       const existingReport = await tx.inspectionReport.findUnique({
         where: { bookingId }
@@ -296,12 +497,7 @@ async createInspectionReport(data: Prisma.InspectionReportCreateInput) {
         );
       }
 
-      const booking = await tx.booking.findUnique({
-        where: { id: bookingId },
-        include: { ServiceRequest: { select: { id: true } } }
-      });
-
-      if (!booking?.ServiceRequest?.id) {
+      if (!booking.ServiceRequest?.id) {
         throw new AppError(
           'Missing ServiceRequest ID for this booking',
           [{ message: 'Error.MissingServiceRequestId', path: ['bookingId'] }],
@@ -310,15 +506,23 @@ async createInspectionReport(data: Prisma.InspectionReportCreateInput) {
         );
       }
 
-      const [report] = await Promise.all([
-        tx.inspectionReport.create({ data }),
-        tx.serviceRequest.update({
-          where: { id: booking.ServiceRequest.id },
-          data: { status: RequestStatus.ESTIMATED }
-        })
-      ]);
+      const template = await ChecklistRepository.findActiveTemplate(booking.ServiceRequest.categoryId, tx);
+      assertChecklistTemplate(template, checklist, bookingId);
+      const answers = template ? validateChecklistAnswers(template.items, checklist) : [];
+
+      const report = await tx.inspectionReport.create({
+        data: {
+          ...data,
+          ...(template ? { ChecklistTemplate: { connect: { id: template.id } } } : {})
+        }
+      });
+      await ChecklistRepository.saveAnswers(report.id, answers, tx);
 
-      return report;
+      await transitionServiceRequest(tx, booking.ServiceRequest.id, RequestStatus.ESTIMATED, {
+        actor: { type: TransitionActorType.STAFF, id: staffId }
+      });
+
+      return { ...report, checklist: await ChecklistRepository.getReportChecklist(report, tx) };
     });
   } catch (error) {
     console.log(error);
@@ -408,7 +612,7 @@ async createInspectionReport(data: Prisma.InspectionReportCreateInput) {
     return prisma.booking.count({ where });
   },
 
-  async getInspectionReportById(inspectionId: number) {
+  async getInspectionReportById(staffId: number, inspectionId: number) {
     try {
       const report = await prisma.inspectionReport.findUnique({
         where: { id: inspectionId },
@@ -434,6 +638,8 @@ async createInspectionReport(data: Prisma.InspectionReportCreateInput) {
 
       if (!report) return null;
 
+      assertReportOwner(report, staffId);
+
       return {
         id: report.id,
         bookingId: report.bookingId,
@@ -442,6 +648,8 @@ async createInspectionReport(data: Prisma.InspectionReportCreateInput) {
         note: report.note,
         images: report.images,
         createdAt: report.createdAt,
+        checklistTemplateId: report.checklistTemplateId,
+        checklist: await ChecklistRepository.getReportChecklist(report),
         staff: {
           id: report.Staff.id,
           name: report.Staff.User?.name,
@@ -465,6 +673,8 @@ async createInspectionReport(data: Prisma.InspectionReportCreateInput) {
         }
       };
     } catch (error) {
+      if (error instanceof AppError) throw error;
+
       throw new AppError(
         'Failed to get inspection report by id',
         [{ message: 'Error.GetInspectionReportByIdError', path: ['id'] }],
@@ -550,38 +760,77 @@ async createInspectionReport(data: Prisma.InspectionReportCreateInput) {
   },
 
   async updateInspectionReport(
+    staffId: number,
     id: number,
-    data: Partial<Pick<Prisma.InspectionReportUpdateInput, 'note' | 'images' | 'estimatedTime'>>
+    data: Partial<Pick<Prisma.InspectionReportUpdateInput, 'note' | 'images' | 'estimatedTime'>>,
+    checklist: ChecklistAnswerInput[] = []
   ) {
     try {
-      const report = await prisma.inspectionReport.findUnique({
-        where: { id },
-        select: { id: true, createdAt: true }
-      });
+      return await prisma.$transaction(async (tx) => {
+        const report = await tx.inspectionReport.findUnique({
+          where: { id },
+          select: {
+            id: true,
+            bookingId: true,
+            staffId: true,
+            createdAt: true,
+            checklistTemplateId: true,
+            Booking: { select: { ServiceRequest: { select: { categoryId: true } } } }
+          }
+        });
 
-      if (!report) {
-        throw new AppError(
-          'Inspection report not found',
-          [{ message: 'NotFound', path: ['id'] }],
-          { id },
-          404
-        );
-      }
+        if (!report) {
+          throw new AppError(
+            'Inspection report not found',
+            [{ message: 'NotFound', path: ['id'] }],
+            { id },
+            404
+          );
+        }
 
-      const hoursPassed = calculateHoursDifference(new Date(report.createdAt), new Date());
+        assertReportOwner(report, staffId);
 
-      if (hoursPassed > MAX_UPDATE_HOURS) {
-        throw new AppError(
-          `Inspection report can no longer be updated after ${MAX_UPDATE_HOURS} hours`,
-          [{ message: 'Error.ReportUpdateTooLate', path: ['id'] }],
-          { id, hoursPassed },
-          400
-        );
-      }
+        const hoursPassed = calculateHoursDifference(new Date(report.createdAt), new Date());
 
-      return await prisma.inspectionReport.update({
-        where: { id },
-        data
+        if (hoursPassed > MAX_UPDATE_HOURS) {
+          throw new AppError(
+            `Inspection report can no longer be updated after ${MAX_UPDATE_HOURS} hours`,
+            [{ message: 'Error.ReportUpdateTooLate', path: ['id'] }],
+            { id, hoursPassed },
+            400
+          );
+        }
+
+        let templateId = report.checklistTemplateId;
+
+        if (checklist.length > 0) {
+          const categoryId = report.Booking.ServiceRequest?.categoryId;
+          // Reports keep the template they were first answered against
+          const template = templateId !== null
+            ? await ChecklistRepository.findTemplate(templateId, tx)
+            : categoryId !== undefined ? await ChecklistRepository.findActiveTemplate(categoryId, tx) : null;
+          assertChecklistTemplate(template, checklist, report.bookingId);
+
+          const answered = await ChecklistRepository.findAnswers(id, tx);
+          const answers = validateChecklistAnswers(
+            template!.items,
+            checklist,
+            new Set(answered.map((answer) => answer.itemId))
+          );
+
+          await ChecklistRepository.saveAnswers(id, answers, tx);
+          templateId = template!.id;
+        }
+
+        const updated = await tx.inspectionReport.update({
+          where: { id },
+          data: {
+            ...data,
+            ...(templateId !== null ? { ChecklistTemplate: { connect: { id: templateId } } } : {})
+          }
+        });
+
+        return { ...updated, checklist: await ChecklistRepository.getReportChecklist(updated, tx) };
       });
     } catch (error) {
       if (error instanceof AppError) throw error;
@@ -610,12 +859,7 @@ async createInspectionReport(data: Prisma.InspectionReportCreateInput) {
         })
       ]);
 
-      const totalHoursWorked = workLogs.reduce((sum, log) => {
-        if (log.checkIn && log.checkOut) {
-          return sum + calculateHoursDifference(new Date(log.checkIn), new Date(log.checkOut));
-        }
-        return sum;
-      }, 0);
+      const totalHoursWorked = sumSessionHours(workLogs);
 
       return {
         staffId,
@@ -720,43 +964,26 @@ async createInspectionReport(data: Prisma.InspectionReportCreateInput) {
     }
   },
 
-  async createWorkLogWithStatusUpdate(staffId: number, bookingId: number) {
+  async createWorkLogWithStatusUpdate(staffId: number, bookingId: number, location?: SessionLocation) {
     try {
       return await prisma.$transaction(async (tx) => {
-        const booking = await tx.booking.findUnique({
-          where: { id: bookingId },
-          include: {
-            ServiceRequest: { select: { id: true, preferredDate: true, status: true } }
-          }
-        });
+        const booking = await assertBookingOwner(tx, staffId, bookingId);
+        const latestSession = await findLatestSession(tx, staffId, bookingId);
+        assertCanStartWork(bookingId, booking.status, booking.ServiceRequest?.status, !latestSession);
 
-        if (!booking) {
+        if (latestSession && !latestSession.checkOut) {
           throw new AppError(
-            'Booking not found',
-            [{ message: 'Error.BookingNotFound', path: ['bookingId'] }],
-            { bookingId },
-            404
-          );
-        }
-
-        if (booking.ServiceRequest?.status && ([RequestStatus.ESTIMATED, RequestStatus.CANCELLED] as RequestStatus[]).includes(booking.ServiceRequest.status)) {
-          throw new AppError(
-            'Cannot check in to a completed or canceled booking',
-            [{ message: 'Error.InvalidBookingStatusForCheckIn', path: ['bookingId'] }],
-            { bookingId, status: booking.ServiceRequest.status },
+            'Staff already checked in for this booking',
+            [{ message: 'Error.AlreadyCheckedIn', path: ['bookingId'] }],
+            { bookingId, staffId },
             400
           );
         }
 
-        const existingLog = await tx.workLog.findFirst({
-          where: { bookingId, staffId },
-          select: { id: true }
-        });
-
-        if (existingLog) {
+        if (latestSession?.endReason === WorkLogEndReason.PAUSED) {
           throw new AppError(
-            'Staff already checked in for this booking',
-            [{ message: 'Error.AlreadyCheckedIn', path: ['bookingId'] }],
+            'Work is paused, resume it instead of checking in',
+            [{ message: 'Error.WorkPaused', path: ['bookingId'] }],
             { bookingId, staffId },
             400
           );
@@ -765,16 +992,10 @@ async createInspectionReport(data: Prisma.InspectionReportCreateInput) {
         const now = new Date();
         const preferredDate = booking.ServiceRequest?.preferredDate;
 
-        if (preferredDate) {
-          const daysDiff = calculateDaysDifference(now, new Date(preferredDate));
-          if (daysDiff > MAX_DATE_DIFF_DAYS) {
-            throw new AppError(
-              'Cannot check in far from preferred date',
-              [{ message: 'Error.DateMismatchPreferredDate', path: ['bookingId'] }],
-              { bookingId, preferredDate, today: now },
-              400
-            );
-          }
+        // Only the first visit has to match the preferred date; later ones continue a multi-day job
+        if (preferredDate && !latestSession) {
+          const policy = await resolveBookingPolicy(tx, booking);
+          assertCheckInWindow(policy, new Date(preferredDate), now);
         }
 
         if (!booking.ServiceRequest?.id) {
@@ -786,20 +1007,22 @@ async createInspectionReport(data: Prisma.InspectionReportCreateInput) {
           );
         }
 
-        const [workLog] = await Promise.all([
-          tx.workLog.create({
-            data: {
-              Staff: { connect: { id: staffId } },
-              Booking: { connect: { id: bookingId } },
-              checkIn: now,
-              updatedAt: now
-            }
-          }),
-          tx.serviceRequest.update({
-            where: { id: booking.ServiceRequest.id },
-            data: { status: RequestStatus.IN_PROGRESS }
-          })
-        ]);
+        const workLog = await tx.workLog.create({
+          data: {
+            Staff: { connect: { id: staffId } },
+            Booking: { connect: { id: bookingId } },
+            checkIn: now,
+            updatedAt: now,
+            ...checkInLocationData(location)
+          }
+        });
+
+        // Only the first session starts the request; an inspection may already have moved it on to ESTIMATED
+        if (!latestSession && canTransitionRequest(booking.ServiceRequest.status, RequestStatus.IN_PROGRESS)) {
+          await transitionServiceRequest(tx, booking.ServiceRequest.id, RequestStatus.IN_PROGRESS, {
+            actor: { type: TransitionActorType.STAFF, id: staffId }
+          });
+        }
 
         return workLog;
       });
@@ -815,101 +1038,181 @@ async createInspectionReport(data: Prisma.InspectionReportCreateInput) {
     }
   },
 
-  async checkOutWorkLogByBookingId(bookingId: number) {
+  async checkOutWorkLogByBookingId(staffId: number, bookingId: number, location?: SessionLocation) {
+    return await prisma.$transaction(async (tx) => {
+      const booking = await assertBookingOwner(tx, staffId, bookingId);
+      const policy = await resolveBookingPolicy(tx, booking);
+
+      const log = await closeOpenSession(tx, staffId, bookingId, {
+        endReason: WorkLogEndReason.CHECKED_OUT,
+        policy,
+        location
+      });
+      await InventoryRepository.commitReserved(tx, bookingId);
+
+      return {
+        message: 'Check-out successful',
+        bookingId,
+        updatedAt: log.updatedAt
+      };
+    });
+  },
+
+  async pauseWorkLog(staffId: number, bookingId: number, note?: string, location?: SessionLocation) {
     return await prisma.$transaction(async (tx) => {
-      const log = await tx.workLog.findFirst({
-        where: { bookingId },
-        select: { id: true, checkIn: true, checkOut: true }
+      const booking = await assertBookingOwner(tx, staffId, bookingId);
+      const policy = await resolveBookingPolicy(tx, booking);
+
+      return closeOpenSession(tx, staffId, bookingId, {
+        endReason: WorkLogEndReason.PAUSED,
+        policy,
+        note,
+        location
       });
+    });
+  },
 
-      if (!log) {
+  async resumeWorkLog(staffId: number, bookingId: number, location?: SessionLocation) {
+    return await prisma.$transaction(async (tx) => {
+      const booking = await assertBookingOwner(tx, staffId, bookingId);
+      const latestSession = await findLatestSession(tx, staffId, bookingId);
+      assertCanStartWork(bookingId, booking.status, booking.ServiceRequest?.status, !latestSession);
+
+      if (latestSession && !latestSession.checkOut) {
         throw new AppError(
-          'Work log not found',
-          [{ message: 'NotFound', path: ['bookingId'] }],
-          { bookingId },
-          404
+          'Staff already checked in for this booking',
+          [{ message: 'Error.AlreadyCheckedIn', path: ['bookingId'] }],
+          { bookingId, staffId },
+          400
         );
       }
 
-      if (log.checkOut) {
+      if (latestSession?.endReason !== WorkLogEndReason.PAUSED) {
         throw new AppError(
-          'Already checked out',
-          [{ message: 'Error.AlreadyCheckedOut', path: ['bookingId'] }],
-          { bookingId },
+          'Work is not paused',
+          [{ message: 'Error.WorkNotPaused', path: ['bookingId'] }],
+          { bookingId, staffId, endReason: latestSession?.endReason ?? null },
           400
         );
       }
 
-      if (!log.checkIn) {
+      const now = new Date();
+
+      return tx.workLog.create({
+        data: {
+          Staff: { connect: { id: staffId } },
+          Booking: { connect: { id: bookingId } },
+          checkIn: now,
+          updatedAt: now,
+          ...checkInLocationData(location)
+        }
+      });
+    });
+  },
+
+  async finishJob(staffId: number, bookingId: number, note?: string, location?: SessionLocation) {
+    return await prisma.$transaction(async (tx) => {
+      const booking = await assertBookingOwner(tx, staffId, bookingId);
+
+      // A repeated finish would otherwise report the job again
+      if (booking.status === BookingStatus.COMPLETED) {
         throw new AppError(
-          'Check-in time is missing',
-          [{ message: 'Error.MissingCheckIn', path: ['bookingId'] }],
-          { bookingId },
-          400
+          'Booking is already completed',
+          [{ message: 'Error.InvalidStatusTransition', path: ['status'] }],
+          { bookingId, status: booking.status },
+          409
         );
       }
 
-      const now = new Date();
-      const hoursPassed = calculateHoursDifference(new Date(log.checkIn), now);
+      const latestSession = await findLatestSession(tx, staffId, bookingId);
 
-      if (hoursPassed > MAX_CHECKOUT_HOURS) {
+      if (!latestSession) {
         throw new AppError(
-          'Check-out expired',
-          [{ message: 'Error.CheckOutTooLate', path: ['bookingId'] }],
-          { bookingId, hoursPassed },
+          'No work sessions recorded for this booking',
+          [{ message: 'Error.NoWorkSessions', path: ['bookingId'] }],
+          { bookingId, staffId },
           400
         );
       }
 
-      await Promise.all([
-        tx.workLog.update({
-          where: { id: log.id },
-          data: { checkOut: now, updatedAt: now }
-        }),
-        tx.booking.update({
-          where: { id: bookingId },
-          data: { status: BookingStatus.COMPLETED }
-        })
-      ]);
+      if (!latestSession.checkOut) {
+        await closeOpenSession(tx, staffId, bookingId, {
+          endReason: WorkLogEndReason.FINISHED,
+          policy: await resolveBookingPolicy(tx, booking),
+          note,
+          location
+        });
+      }
+
+      // Completing commits the parts used and issues the booking's warranties
+      await transitionBooking(tx, bookingId, BookingStatus.COMPLETED, {
+        actor: { type: TransitionActorType.STAFF, id: staffId }
+      });
+
+      const completedAt = new Date();
+      const warrantiesIssued = await tx.warranty.count({ where: { bookingId } });
+
+      const sessions = await tx.workLog.findMany({
+        where: { bookingId, staffId },
+        select: { checkIn: true, checkOut: true }
+      });
 
       return {
-        message: 'Check-out successful',
+        message: 'Job finished',
         bookingId,
-        updatedAt: now
+        sessions: sessions.length,
+        totalHoursWorked: Number(sumSessionHours(sessions).toFixed(2)),
+        warrantiesIssued,
+        updatedAt: completedAt
       };
     });
   },
 
-  async getBookingsByDate(staffId: number, date: string, page = 1, limit = 10) {
-    const targetDate = new Date(date);
-    const nextDay = new Date(targetDate);
-    nextDay.setDate(targetDate.getDate() + 1);
+  async assertBookingOwner(staffId: number, bookingId: number) {
+    await assertBookingOwner(prisma, staffId, bookingId);
+  },
+
+  async getWorkPolicyForBooking(staffId: number, bookingId: number) {
+    const booking = await assertBookingOwner(prisma, staffId, bookingId);
+    const policy = await resolveBookingPolicy(prisma, booking);
+
+    const request = await prisma.serviceRequest.findFirst({
+      where: { Booking: { id: bookingId } },
+      select: { preferredDate: true }
+    });
+    const preferred = request?.preferredDate?.getTime();
+
+    return {
+      ...policy,
+      checkInOpensAt: preferred !== undefined ? new Date(preferred - policy.checkInEarlyTolerance * 60 * 1000) : null,
+      checkInClosesAt: preferred !== undefined ? new Date(preferred + policy.checkInLateTolerance * 60 * 1000) : null
+    };
+  },
+
+  async getBookingsByDate(
+    staffId: number,
+    date: string,
+    page = 1,
+    limit = 10,
+    dateField: BookingDateField = 'preferredDate'
+  ) {
+    const where: Prisma.BookingWhereInput = {
+      staffId,
+      ...buildBookingDateFilter(dateField, boundsOf(zonedDayBounds(date)))
+    };
 
     const { skip } = calculatePagination(page, limit);
 
     const [bookings, total] = await Promise.all([
       prisma.booking.findMany({
-        where: {
-          staffId,
-          createdAt: {
-            gte: targetDate,
-            lt: nextDay
-          }
-        },
-        orderBy: { createdAt: 'desc' },
+        where,
+        // A day's jobs read best in the order they happen
+        orderBy: dateField === 'preferredDate' ? { ServiceRequest: { preferredDate: 'asc' } } : { createdAt: 'desc' },
         skip,
         take: limit,
         include: BOOKING_INCLUDE
       }),
-      prisma.booking.count({
-        where: {
-          staffId,
-          createdAt: {
-            gte: targetDate,
-            lt: nextDay
-          }
-        }
-      })
+      prisma.booking.count({ where })
     ]);
 
     const totalPages = Math.ceil(total / limit);
@@ -923,28 +1226,155 @@ async createInspectionReport(data: Prisma.InspectionReportCreateInput) {
     };
   },
 
-  async getMonthlyStats(staffId: number, month: number, year: number) {
-    const fromDate = new Date(year, month - 1, 1);
-    const toDate = new Date(year, month, 1);
+  async getPendingAssignments(staffId: number, page = 1, limit = 10) {
+    const where: Prisma.BookingWhereInput = {
+      staffId,
+      deletedAt: null,
+      status: BookingStatus.PENDING,
+      // Work already logged means the job was taken on without formally accepting it
+      WorkLog: { none: {} }
+    };
+
+    const { skip } = calculatePagination(page, limit);
+
+    const [bookings, total] = await Promise.all([
+      prisma.booking.findMany({
+        where,
+        orderBy: { ServiceRequest: { preferredDate: 'asc' } },
+        skip,
+        take: limit,
+        include: BOOKING_INCLUDE
+      }),
+      prisma.booking.count({ where })
+    ]);
+
+    return {
+      bookings: bookings.map(mapBookingResponse),
+      total,
+      page,
+      limit,
+      totalPages: Math.ceil(total / limit)
+    };
+  },
+
+  async acceptBooking(staffId: number, bookingId: number) {
+    return await prisma.$transaction(async (tx) => {
+      await assertBookingOwner(tx, staffId, bookingId);
+
+      const transition = await transitionBooking(tx, bookingId, BookingStatus.CONFIRMED, {
+        actor: { type: TransitionActorType.STAFF, id: staffId }
+      });
+
+      return {
+        message: transition.changed ? 'Booking accepted' : 'Booking was already accepted',
+        bookingId,
+        status: transition.to,
+        updatedAt: new Date()
+      };
+    });
+  },
+
+  /**
+   * Hands a booking back to its provider: unassigns the staff member, returns
+   * an accepted booking to PENDING, records the decline and notifies the
+   * provider so they can reassign it.
+   */
+  async declineBooking(staffId: number, bookingId: number, reason: string) {
+    try {
+      return await prisma.$transaction(async (tx) => {
+        const booking = await assertBookingOwner(tx, staffId, bookingId);
+        const workLogCount = await tx.workLog.count({ where: { bookingId } });
+
+        assertCanDecline(bookingId, booking.status, booking.ServiceRequest?.status, workLogCount);
+
+        const now = new Date();
+
+        // Conditional so a status change racing with the decline can't be undone
+        const { count } = await tx.booking.updateMany({
+          where: { id: bookingId, staffId, status: booking.status },
+          data: { staffId: null, updatedAt: now }
+        });
+
+        if (count === 0) {
+          throw new AppError(
+            'Booking changed while it was being declined',
+            [{ message: 'Error.InvalidStatusTransition', path: ['status'] }],
+            { bookingId, staffId },
+            409
+          );
+        }
+
+        // The next staff member assigned has to accept it again
+        await transitionBooking(tx, bookingId, BookingStatus.PENDING, {
+          actor: { type: TransitionActorType.STAFF, id: staffId },
+          reason
+        });
+
+        const decline = await tx.bookingDecline.create({
+          data: { bookingId, staffId, providerId: booking.providerId, reason }
+        });
+
+        const [staff, provider] = await Promise.all([
+          tx.staff.findUnique({ where: { id: staffId }, select: { User: { select: { name: true } } } }),
+          tx.serviceProvider.findUnique({ where: { id: booking.providerId }, select: { userId: true } })
+        ]);
+
+        if (provider) {
+          await tx.notification.create({
+            data: {
+              userId: provider.userId,
+              content: `${staff?.User.name ?? `Staff #${staffId}`} declined booking #${bookingId}: ${reason}`
+            }
+          });
+        }
+
+        return {
+          message: 'Booking declined',
+          bookingId,
+          declineId: decline.id,
+          reason,
+          declinedAt: decline.createdAt
+        };
+      });
+    } catch (error) {
+      if (error instanceof AppError) throw error;
+
+      throw new AppError(
+        'Failed to decline booking',
+        [{ message: 'Error.DeclineBookingError', path: ['bookingId'] }],
+        { bookingId, staffId, error },
+        500
+      );
+    }
+  },
+
+  async getMonthlyStats(
+    staffId: number,
+    month: number,
+    year: number,
+    dateField: BookingDateField = 'preferredDate'
+  ) {
+    const monthBounds = boundsOf(zonedMonthBounds(year, month));
 
     const [completedBookingsCount, workLogs] = await Promise.all([
       prisma.booking.count({
         where: {
           staffId,
           status: BookingStatus.COMPLETED,
-          createdAt: { gte: fromDate, lt: toDate }
+          ...buildBookingDateFilter(dateField, monthBounds)
         }
       }),
       prisma.workLog.findMany({
         where: {
           staffId,
-          checkIn: { gte: fromDate, lt: toDate }
+          checkIn: monthBounds
         },
         select: { checkIn: true, checkOut: true }
       })
     ]);
 
     let totalHoursWorked = 0;
+    let closedSessions = 0;
     const workDates = new Set<string>();
     let firstCheckIn: Date | null = null;
     let lastCheckOut: Date | null = null;
@@ -955,9 +1385,9 @@ async createInspectionReport(data: Prisma.InspectionReportCreateInput) {
         const endTime = new Date(log.checkOut);
 
         totalHoursWorked += calculateHoursDifference(startTime, endTime);
+        closedSessions++;
 
-        const dateKey = startTime.toISOString().split('T')[0];
-        workDates.add(dateKey);
+        workDates.add(zonedDateKey(startTime));
 
         if (!firstCheckIn || startTime < firstCheckIn) firstCheckIn = startTime;
         if (!lastCheckOut || endTime > lastCheckOut) lastCheckOut = endTime;
@@ -965,8 +1395,9 @@ async createInspectionReport(data: Prisma.InspectionReportCreateInput) {
     }
 
     const totalWorkLogs = workLogs.length;
-    const averageHoursPerLog = totalWorkLogs > 0
-      ? Number((totalHoursWorked / totalWorkLogs).toFixed(2))
+    // Open sessions have no hours yet, so they don't count towards the average
+    const averageHoursPerLog = closedSessions > 0
+      ? Number((totalHoursWorked / closedSessions).toFixed(2))
       : 0;
 
     return {
@@ -1074,22 +1505,7 @@ async createInspectionReport(data: Prisma.InspectionReportCreateInput) {
       select: {
         id: true,
         staffId: true,
-        Proposal: {
-          include: {
-            ProposalItem: {
-              include: {
-                Service: {
-                  select: {
-                    id: true,
-                    name: true,
-                    basePrice: true,
-                    durationMinutes: true
-                  }
-                }
-              }
-            }
-          }
-        }
+        Proposal: { select: PROPOSAL_SELECT }
       }
     });
 
@@ -1120,17 +1536,7 @@ async createInspectionReport(data: Prisma.InspectionReportCreateInput) {
       );
     }
 
-    return {
-      id: booking.Proposal.id,
-      status: booking.Proposal.status,
-      notes: booking.Proposal.notes ?? '',
-      createdAt: booking.Proposal.createdAt,
-      items: booking.Proposal.ProposalItem.map(item => ({
-        id: item.id,
-        quantity: item.quantity,
-        service: item.Service
-      }))
-    };
+    return mapProposal(booking.Proposal);
   } catch (error) {
     if (error instanceof AppError) throw error;
 
@@ -0,0 +1,237 @@
+import { BookingStatus, Prisma, RequestStatus } from '../generated/prisma';
+import { AppError } from '../handlers/error';
+import { warrantyStatus } from '../warranty/warranty';
+import { prisma } from './prisma';
+
+type Tx = Prisma.TransactionClient;
+
+// Claim bookings still being worked on
+const OPEN_CLAIM_STATUSES: BookingStatus[] = [BookingStatus.PENDING, BookingStatus.CONFIRMED];
+
+export interface WarrantyLookup {
+  bookingId?: number;
+  customerId?: number;
+}
+
+export interface WarrantyClaimInput {
+  warrantyId: number;
+  description: string;
+  preferredDate: Date;
+}
+
+const findStaffProvider = async (client: Tx, staffId: number) => {
+  const staff = await client.staff.findUnique({
+    where: { id: staffId },
+    select: { providerId: true }
+  });
+
+  if (!staff) {
+    throw new AppError(
+      'Staff not found',
+      [{ message: 'Error.InvalidStaffId', path: ['staffId'] }],
+      { staffId },
+      400
+    );
+  }
+
+  return staff.providerId;
+};
+
+export const WarrantyRepository = {
+  /**
+   * Warranties the staff member's provider gave on a booking or to a
+   * customer, newest first, with whether each still applies.
+   */
+  async lookup(staffId: number, lookup: WarrantyLookup, now: Date = new Date()) {
+    try {
+      const providerId = await findStaffProvider(prisma, staffId);
+
+      const warranties = await prisma.warranty.findMany({
+        where: {
+          providerId,
+          ...(lookup.bookingId !== undefined ? { bookingId: lookup.bookingId } : {}),
+          ...(lookup.customerId !== undefined ? { customerId: lookup.customerId } : {})
+        },
+        orderBy: [{ endDate: 'desc' }, { id: 'asc' }],
+        select: {
+          id: true,
+          bookingId: true,
+          customerId: true,
+          subject: true,
+          serviceId: true,
+          serviceItemId: true,
+          name: true,
+          quantity: true,
+          startDate: true,
+          endDate: true,
+          WarrantyClaim: {
+            orderBy: { createdAt: 'desc' },
+            select: {
+              id: true,
+              description: true,
+              createdAt: true,
+              Booking: { select: { id: true, status: true } }
+            }
+          }
+        }
+      });
+
+      const items = warranties.map(({ WarrantyClaim, ...warranty }) => ({
+        ...warranty,
+        ...warrantyStatus(warranty.endDate, now),
+        claims: WarrantyClaim.map(({ Booking, ...claim }) => ({
+          ...claim,
+          bookingId: Booking.id,
+          bookingStatus: Booking.status
+        }))
+      }));
+
+      return {
+        warranties: items,
+        active: items.filter((item) => item.status === 'ACTIVE').length,
+        checkedAt: now
+      };
+    } catch (error) {
+      if (error instanceof AppError) throw error;
+
+      throw new AppError(
+        'Failed to look up warranties',
+        [{ message: 'Error.LookupWarrantyError', path: ['warranty'] }],
+        { staffId, ...lookup, error },
+        500
+      );
+    }
+  },
+
+  /**
+   * Opens a return-visit booking under a warranty that is still running,
+   * assigned to the staff member and linked to the original booking.
+   */
+  async openClaim(staffId: number, claim: WarrantyClaimInput, now: Date = new Date()) {
+    try {
+      return await prisma.$transaction(async (tx) => {
+        const providerId = await findStaffProvider(tx, staffId);
+
+        const warranty = await tx.warranty.findUnique({
+          where: { id: claim.warrantyId },
+          select: {
+            id: true,
+            bookingId: true,
+            customerId: true,
+            providerId: true,
+            name: true,
+            endDate: true,
+            Booking: {
+              select: {
+                ServiceRequest: { select: { location: true, phoneNumber: true, categoryId: true } }
+              }
+            },
+            WarrantyClaim: {
+              where: { Booking: { status: { in: OPEN_CLAIM_STATUSES } } },
+              select: { id: true, claimBookingId: true }
+            }
+          }
+        });
+
+        if (!warranty) {
+          throw new AppError(
+            'Warranty not found',
+            [{ message: 'Error.WarrantyNotFound', path: ['warrantyId'] }],
+            { warrantyId: claim.warrantyId },
+            404
+          );
+        }
+
+        if (warranty.providerId !== providerId) {
+          throw new AppError(
+            'Access denied: Warranty was issued by another provider',
+            [{ message: 'Error.UnauthorizedAccess', path: ['warrantyId'] }],
+            { staffId, warrantyId: warranty.id },
+            403
+          );
+        }
+
+        if (warrantyStatus(warranty.endDate, now).status === 'EXPIRED') {
+          throw new AppError(
+            'Warranty has expired',
+            [{ message: 'Error.WarrantyExpired', path: ['warrantyId'] }],
+            { warrantyId: warranty.id, endDate: warranty.endDate },
+            409
+          );
+        }
+
+        if (warranty.WarrantyClaim.length > 0) {
+          throw new AppError(
+            'Warranty already has an open claim',
+            [{ message: 'Error.WarrantyClaimOpen', path: ['warrantyId'] }],
+            { warrantyId: warranty.id, bookingId: warranty.WarrantyClaim[0].claimBookingId },
+            409
+          );
+        }
+
+        const original = warranty.Booking.ServiceRequest;
+        if (!original) {
+          throw new AppError(
+            'Original booking has no service request',
+            [{ message: 'Error.MissingServiceRequestId', path: ['warrantyId'] }],
+            { warrantyId: warranty.id, bookingId: warranty.bookingId },
+            500
+          );
+        }
+
+        const request = await tx.serviceRequest.create({
+          data: {
+            customerId: warranty.customerId,
+            providerId,
+            categoryId: original.categoryId,
+            location: original.location,
+            phoneNumber: original.phoneNumber,
+            preferredDate: claim.preferredDate,
+            note: `Warranty claim on booking #${warranty.bookingId} (${warranty.name}): ${claim.description}`,
+            status: RequestStatus.PENDING,
+            updatedAt: now
+          }
+        });
+
+        const booking = await tx.booking.create({
+          data: {
+            customerId: warranty.customerId,
+            providerId,
+            staffId,
+            serviceRequestId: request.id,
+            status: BookingStatus.PENDING,
+            updatedAt: now
+          }
+        });
+
+        const created = await tx.warrantyClaim.create({
+          data: {
+            warrantyId: warranty.id,
+            claimBookingId: booking.id,
+            staffId,
+            description: claim.description
+          }
+        });
+
+        return {
+          claimId: created.id,
+          warrantyId: warranty.id,
+          originalBookingId: warranty.bookingId,
+          bookingId: booking.id,
+          status: booking.status,
+          preferredDate: request.preferredDate,
+          createdAt: created.createdAt
+        };
+      });
+    } catch (error) {
+      if (error instanceof AppError) throw error;
+
+      throw new AppError(
+        'Failed to open warranty claim',
+        [{ message: 'Error.OpenWarrantyClaimError', path: ['warrantyId'] }],
+        { staffId, warrantyId: claim.warrantyId, error },
+        500
+      );
+    }
+  }
+};
@@ -0,0 +1,155 @@
+import { Prisma, WorkLogEndReason } from '../generated/prisma';
+import { AppError } from '../handlers/error';
+import { OpenSession } from '../jobs/work-log-sweeper';
+import { prisma } from './prisma';
+
+export type AutoClosedLogStatus = 'pending' | 'corrected' | 'all';
+
+export interface AutoClosedLogQuery {
+  // Restricts the queue to one provider's bookings or one staff member's logs
+  providerId?: number;
+  staffId?: number;
+  status: AutoClosedLogStatus;
+  page: number;
+  limit: number;
+}
+
+export interface WorkLogCorrection {
+  checkIn: Date;
+  checkOut: Date;
+  note?: string;
+  // User id of the supervisor, null when the call was unauthenticated
+  correctedById: number | null;
+}
+
+const STATUS_FILTER: Record<AutoClosedLogStatus, Prisma.WorkLogWhereInput> = {
+  pending: { correctedAt: null },
+  corrected: { correctedAt: { not: null } },
+  all: {}
+};
+
+export const WorkLogReviewRepository = {
+  async findOpenSessions(): Promise<OpenSession[]> {
+    const logs = await prisma.workLog.findMany({
+      where: { checkIn: { not: null }, checkOut: null },
+      select: {
+        id: true,
+        staffId: true,
+        bookingId: true,
+        checkIn: true,
+        Booking: {
+          select: {
+            providerId: true,
+            ServiceRequest: { select: { categoryId: true } },
+            InspectionReport: { select: { estimatedTime: true } }
+          }
+        }
+      }
+    });
+
+    return logs.map((log) => ({
+      id: log.id,
+      staffId: log.staffId,
+      bookingId: log.bookingId,
+      checkIn: log.checkIn!,
+      providerId: log.Booking.providerId,
+      categoryId: log.Booking.ServiceRequest?.categoryId ?? null,
+      estimatedMinutes: log.Booking.InspectionReport?.estimatedTime ?? null
+    }));
+  },
+
+  /**
+   * Closes a session with an estimated check-out. Conditional on it still
+   * being open, so a staff member checking out at the same time wins.
+   */
+  async autoClose(sessionId: number, checkOut: Date, now: Date): Promise<boolean> {
+    const { count } = await prisma.workLog.updateMany({
+      where: { id: sessionId, checkOut: null },
+      data: {
+        checkOut,
+        endReason: WorkLogEndReason.AUTO_CLOSED,
+        autoClosedAt: now,
+        updatedAt: now
+      }
+    });
+
+    return count > 0;
+  },
+
+  async listAutoClosed(query: AutoClosedLogQuery) {
+    try {
+      const where: Prisma.WorkLogWhereInput = {
+        endReason: WorkLogEndReason.AUTO_CLOSED,
+        ...STATUS_FILTER[query.status],
+        ...(query.staffId !== undefined ? { staffId: query.staffId } : {}),
+        ...(query.providerId !== undefined ? { Booking: { providerId: query.providerId } } : {})
+      };
+      const skip = (query.page - 1) * query.limit;
+
+      const [total, logs] = await Promise.all([
+        prisma.workLog.count({ where }),
+        prisma.workLog.findMany({
+          where,
+          orderBy: { autoClosedAt: 'desc' },
+          skip,
+          take: query.limit,
+          include: {
+            Booking: { select: { id: true, providerId: true, status: true } },
+            Staff: { select: { id: true, User: { select: { name: true } } } }
+          }
+        })
+      ]);
+
+      return {
+        workLogs: logs.map(({ Booking, Staff, ...log }) => ({
+          ...log,
+          booking: Booking,
+          staff: { id: Staff.id, name: Staff.User.name }
+        })),
+        total,
+        page: query.page,
+        limit: query.limit,
+        totalPages: Math.ceil(total / query.limit)
+      };
+    } catch (error) {
+      throw new AppError(
+        'Failed to list auto-closed work logs',
+        [{ message: 'Error.ListAutoClosedLogsError', path: [] }],
+        { query, error },
+        500
+      );
+    }
+  },
+
+  async findWithProvider(workLogId: number) {
+    return prisma.workLog.findUnique({
+      where: { id: workLogId },
+      include: { Booking: { select: { providerId: true } } }
+    });
+  },
+
+  async correct(workLogId: number, correction: WorkLogCorrection) {
+    try {
+      const now = new Date();
+
+      return await prisma.workLog.update({
+        where: { id: workLogId },
+        data: {
+          checkIn: correction.checkIn,
+          checkOut: correction.checkOut,
+          correctedAt: now,
+          correctedById: correction.correctedById,
+          correctionNote: correction.note ?? null,
+          updatedAt: now
+        }
+      });
+    } catch (error) {
+      throw new AppError(
+        'Failed to correct work log',
+        [{ message: 'Error.CorrectWorkLogError', path: ['workLogId'] }],
+        { workLogId, error },
+        500
+      );
+    }
+  }
+};
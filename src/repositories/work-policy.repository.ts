@@ -0,0 +1,33 @@
+import { Prisma } from '../generated/prisma';
+import { candidateScopeKeys, resolveWorkPolicy, WorkPolicy } from '../policy/work-policy';
+import { prisma } from './prisma';
+
+export const WorkPolicyRepository = {
+  /**
+   * Resolves the policy for a provider/category pair. Runs on the given
+   * transaction client when called from inside one.
+   */
+  async resolve(
+    providerId: number | null,
+    categoryId: number | null,
+    client: Prisma.TransactionClient = prisma
+  ): Promise<WorkPolicy> {
+    const candidates = await client.workPolicy.findMany({
+      where: {
+        isActive: true,
+        scopeKey: { in: candidateScopeKeys(providerId, categoryId) }
+      },
+      select: {
+        id: true,
+        name: true,
+        providerId: true,
+        categoryId: true,
+        checkInEarlyTolerance: true,
+        checkInLateTolerance: true,
+        maxSessionMinutes: true
+      }
+    });
+
+    return resolveWorkPolicy(candidates, providerId, categoryId);
+  }
+};
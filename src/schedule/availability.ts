@@ -0,0 +1,135 @@
+import { AvailabilityExceptionType, Session, WeekDay } from '../generated/prisma';
+import { zonedDateKey, zonedParts } from './time-zone';
+
+// Hours of the day (business time zone) each session covers, end exclusive
+export const SESSION_HOURS: Record<Session, { start: number; end: number }> = {
+  [Session.MORNING]: { start: 7, end: 12 },
+  [Session.AFTERNOON]: { start: 12, end: 18 },
+};
+
+// Indexed by day of week, Sunday first
+const WEEK_DAYS: WeekDay[] = [
+  WeekDay.SUNDAY,
+  WeekDay.MONDAY,
+  WeekDay.TUESDAY,
+  WeekDay.WEDNESDAY,
+  WeekDay.THURSDAY,
+  WeekDay.FRIDAY,
+  WeekDay.SATURDAY,
+];
+
+export interface WeeklySlot {
+  weekDay: WeekDay;
+  session: Session;
+}
+
+export interface AvailabilityException {
+  // Stored as a calendar date (UTC midnight)
+  date: Date;
+  // Null covers the whole day
+  session: Session | null;
+  type: AvailabilityExceptionType;
+}
+
+export type UnavailableReason = 'OUTSIDE_SESSION_HOURS' | 'NOT_SCHEDULED' | 'LEAVE' | 'SICK';
+
+export interface AvailabilityCheck {
+  available: boolean;
+  reason: UnavailableReason | null;
+}
+
+export const weekDayOf = (date: Date): WeekDay => WEEK_DAYS[zonedParts(date).weekday];
+
+export function sessionOf(date: Date): Session | null {
+  const { hour } = zonedParts(date);
+  for (const session of Object.values(Session)) {
+    if (hour >= SESSION_HOURS[session].start && hour < SESSION_HOURS[session].end) return session;
+  }
+  return null;
+}
+
+// YYYY-MM-DD in the business time zone, comparable with an exception's stored date
+export const calendarDateKey = (date: Date): string => zonedDateKey(date);
+
+const exceptionDateKey = (exception: AvailabilityException) => exception.date.toISOString().slice(0, 10);
+
+/**
+ * Whether a staff member is available for one session of a calendar day.
+ * Leave and sick days beat extra shifts, which beat the weekly slots. Staff
+ * who have declared no weekly slots are treated as always available.
+ */
+export function checkSessionAvailability(
+  slots: WeeklySlot[],
+  exceptions: AvailabilityException[],
+  dateKey: string,
+  weekDay: WeekDay,
+  session: Session
+): AvailabilityCheck {
+  const matching = exceptions.filter(
+    (exception) => exceptionDateKey(exception) === dateKey && (exception.session === null || exception.session === session)
+  );
+
+  const absence = matching.find((exception) => exception.type !== AvailabilityExceptionType.EXTRA_SHIFT);
+  if (absence) {
+    return { available: false, reason: absence.type === AvailabilityExceptionType.SICK ? 'SICK' : 'LEAVE' };
+  }
+
+  if (matching.length > 0 || slots.length === 0) return { available: true, reason: null };
+
+  const scheduled = slots.some((slot) => slot.weekDay === weekDay && slot.session === session);
+  return scheduled ? { available: true, reason: null } : { available: false, reason: 'NOT_SCHEDULED' };
+}
+
+/**
+ * Whether a staff member is available at a point in time, e.g. a booking's preferred date.
+ */
+export function checkAvailabilityAt(
+  slots: WeeklySlot[],
+  exceptions: AvailabilityException[],
+  at: Date
+): AvailabilityCheck {
+  const session = sessionOf(at);
+  if (!session) {
+    return slots.length === 0 ? { available: true, reason: null } : { available: false, reason: 'OUTSIDE_SESSION_HOURS' };
+  }
+
+  return checkSessionAvailability(slots, exceptions, calendarDateKey(at), weekDayOf(at), session);
+}
+
+export interface CalendarDay {
+  date: string;
+  weekDay: WeekDay;
+  sessions: (AvailabilityCheck & { session: Session })[];
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Day-by-day availability between two YYYY-MM-DD dates, both inclusive.
+ */
+export function buildAvailabilityCalendar(
+  slots: WeeklySlot[],
+  exceptions: AvailabilityException[],
+  fromDate: string,
+  toDate: string
+): CalendarDay[] {
+  const days: CalendarDay[] = [];
+  const end = Date.parse(toDate);
+
+  for (let time = Date.parse(fromDate); time <= end; time += DAY_MS) {
+    const day = new Date(time);
+    const date = day.toISOString().slice(0, 10);
+    const weekDay = WEEK_DAYS[day.getUTCDay()];
+
+    days.push({
+      date,
+      weekDay,
+      sessions: Object.values(Session).map((session) => ({
+        session,
+        ...checkSessionAvailability(slots, exceptions, date, weekDay, session),
+      })),
+    });
+  }
+
+  return days;
+}
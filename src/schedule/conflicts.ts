@@ -0,0 +1,78 @@
+// Assumed length of a booking with neither accepted proposal items nor an inspection estimate
+export const DEFAULT_BOOKING_MINUTES = 120;
+
+const MINUTE_MS = 60 * 1000;
+
+export type DurationSource = 'proposal' | 'inspection' | 'default';
+
+export interface ScheduledBooking {
+  bookingId: number;
+  // ServiceRequest.preferredDate
+  start: Date;
+  // Sum of Service.durationMinutes × quantity over the proposal items, if any
+  proposalMinutes: number | null;
+  // InspectionReport.estimatedTime, if any
+  estimatedMinutes: number | null;
+}
+
+export interface BookingWindow {
+  bookingId: number;
+  start: Date;
+  end: Date;
+  durationMinutes: number;
+  durationSource: DurationSource;
+}
+
+export interface ScheduleConflict {
+  bookingIds: [number, number];
+  overlapStart: Date;
+  overlapEnd: Date;
+  overlapMinutes: number;
+}
+
+/**
+ * Time window a booking occupies. The proposal is what will actually be done,
+ * so it wins over the inspection estimate.
+ */
+export function bookingWindow(booking: ScheduledBooking): BookingWindow {
+  const [durationMinutes, durationSource]: [number, DurationSource] = booking.proposalMinutes
+    ? [booking.proposalMinutes, 'proposal']
+    : booking.estimatedMinutes
+      ? [booking.estimatedMinutes, 'inspection']
+      : [DEFAULT_BOOKING_MINUTES, 'default'];
+
+  return {
+    bookingId: booking.bookingId,
+    start: booking.start,
+    end: new Date(booking.start.getTime() + durationMinutes * MINUTE_MS),
+    durationMinutes,
+    durationSource,
+  };
+}
+
+/**
+ * Every pair of windows that overlap, ordered by when the overlap starts.
+ * Windows that only touch (one ends as the next starts) do not conflict.
+ */
+export function findConflicts(windows: BookingWindow[]): ScheduleConflict[] {
+  const sorted = [...windows].sort((a, b) => a.start.getTime() - b.start.getTime() || a.bookingId - b.bookingId);
+  const conflicts: ScheduleConflict[] = [];
+
+  for (let i = 0; i < sorted.length; i++) {
+    const current = sorted[i];
+
+    for (let j = i + 1; j < sorted.length && sorted[j].start < current.end; j++) {
+      const other = sorted[j];
+      const overlapEnd = other.end < current.end ? other.end : current.end;
+
+      conflicts.push({
+        bookingIds: [current.bookingId, other.bookingId],
+        overlapStart: other.start,
+        overlapEnd,
+        overlapMinutes: Math.round((overlapEnd.getTime() - other.start.getTime()) / MINUTE_MS),
+      });
+    }
+  }
+
+  return conflicts.sort((a, b) => a.overlapStart.getTime() - b.overlapStart.getTime());
+}
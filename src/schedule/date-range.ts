@@ -0,0 +1,48 @@
+import { AppError } from '../handlers/error';
+import { calendarDateKey } from './availability';
+import { zonedDayBounds } from './time-zone';
+
+export const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface DateRange {
+  // YYYY-MM-DD, both inclusive
+  fromDate: string;
+  toDate: string;
+}
+
+export interface DateRangeLimits {
+  // Length used when toDate is omitted
+  defaultDays: number;
+  maxDays: number;
+}
+
+/**
+ * Fills in a calendar date range (fromDate defaults to today) and rejects
+ * reversed or overly long ones.
+ */
+export function resolveDateRange(
+  limits: DateRangeLimits,
+  fromDate?: string,
+  toDate?: string
+): DateRange {
+  const from = fromDate ?? calendarDateKey(new Date());
+  const to = toDate ?? new Date(Date.parse(from) + (limits.defaultDays - 1) * DAY_MS).toISOString().slice(0, 10);
+  const days = (Date.parse(to) - Date.parse(from)) / DAY_MS + 1;
+
+  if (days < 1 || days > limits.maxDays) {
+    throw new AppError(
+      'Invalid date range',
+      [{ message: 'Error.InvalidDateRange', path: ['fromDate', 'toDate'] }],
+      { fromDate: from, toDate: to, maxDays: limits.maxDays },
+      400
+    );
+  }
+
+  return { fromDate: from, toDate: to };
+}
+
+// Instants covering a resolved range in the business time zone, end exclusive
+export const rangeBounds = (range: DateRange) => ({
+  start: zonedDayBounds(range.fromDate).start,
+  end: zonedDayBounds(range.toDate).end,
+});
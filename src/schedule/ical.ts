@@ -0,0 +1,97 @@
+import { BookingStatus } from '../generated/prisma';
+
+export const CALENDAR_CONFIG = {
+  PRODUCT_ID: '-//HOME-CARE-360//Staff Service//EN',
+  // Right-hand side of every event UID; must never change or calendars duplicate events
+  UID_DOMAIN: process.env.CALENDAR_UID_DOMAIN || 'staff.homecare360',
+} as const;
+
+// RFC 5545 §3.1: lines are at most 75 octets, excluding the CRLF
+const MAX_LINE_OCTETS = 75;
+
+export interface CalendarEvent {
+  bookingId: number;
+  start: Date;
+  end: Date;
+  status: BookingStatus;
+  summary: string;
+  location: string | null;
+  description: string;
+  lastModified: Date;
+}
+
+const EVENT_STATUS: Record<BookingStatus, string> = {
+  [BookingStatus.PENDING]: 'TENTATIVE',
+  [BookingStatus.CONFIRMED]: 'CONFIRMED',
+  [BookingStatus.COMPLETED]: 'CONFIRMED',
+  [BookingStatus.CANCELLED]: 'CANCELLED',
+};
+
+// Stable per booking so re-importing updates the event instead of adding another
+export const eventUid = (bookingId: number) => `booking-${bookingId}@${CALENDAR_CONFIG.UID_DOMAIN}`;
+
+// UTC date-time form, e.g. 20250602T083000Z
+export const formatDateTime = (date: Date) => date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+
+export const escapeText = (value: string) =>
+  value.replace(/\\/g, '\\\\').replace(/;/g, '\\;').replace(/,/g, '\\,').replace(/\r?\n/g, '\\n');
+
+/**
+ * Splits a content line into 75-octet chunks joined by CRLF + space, never
+ * inside a multi-byte character.
+ */
+export function foldLine(line: string): string {
+  const chunks: string[] = [];
+  let current = '';
+  let octets = 0;
+
+  for (const char of line) {
+    const size = Buffer.byteLength(char, 'utf8');
+    // Continuation lines lose one octet to the leading space
+    const limit = chunks.length === 0 ? MAX_LINE_OCTETS : MAX_LINE_OCTETS - 1;
+
+    if (octets + size > limit) {
+      chunks.push(current);
+      current = '';
+      octets = 0;
+    }
+    current += char;
+    octets += size;
+  }
+  chunks.push(current);
+
+  return chunks.join('\r\n ');
+}
+
+const renderEvent = (event: CalendarEvent, stamp: string) => [
+  'BEGIN:VEVENT',
+  `UID:${eventUid(event.bookingId)}`,
+  `DTSTAMP:${stamp}`,
+  `DTSTART:${formatDateTime(event.start)}`,
+  `DTEND:${formatDateTime(event.end)}`,
+  `SUMMARY:${escapeText(event.summary)}`,
+  ...(event.location ? [`LOCATION:${escapeText(event.location)}`] : []),
+  `DESCRIPTION:${escapeText(event.description)}`,
+  `STATUS:${EVENT_STATUS[event.status]}`,
+  `LAST-MODIFIED:${formatDateTime(event.lastModified)}`,
+  'END:VEVENT',
+];
+
+/**
+ * Renders events as an RFC 5545 VCALENDAR with CRLF line endings.
+ */
+export function renderCalendar(events: CalendarEvent[], name: string, now = new Date()): string {
+  const stamp = formatDateTime(now);
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    `PRODID:${CALENDAR_CONFIG.PRODUCT_ID}`,
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    `X-WR-CALNAME:${escapeText(name)}`,
+    ...events.flatMap((event) => renderEvent(event, stamp)),
+    'END:VCALENDAR',
+  ];
+
+  return lines.map(foldLine).join('\r\n') + '\r\n';
+}
@@ -0,0 +1,124 @@
+import { Coordinates } from '../geo/distance';
+import { TravelEstimate } from '../geo/distance-matrix';
+import { BookingWindow } from './conflicts';
+
+export const ROUTE_PLANNING = {
+  // How late past the preferred time an arrival still counts as on time
+  GRACE_MINUTES: 15,
+  // Jobs starting within this long of the earliest remaining one may be visited first if closer
+  TIE_MINUTES: 60,
+} as const;
+
+const MINUTE_MS = 60 * 1000;
+
+export interface RouteStop extends BookingWindow {
+  address: string | null;
+  // Stored JobLocation, null when the address has not been geocoded
+  coordinates: Coordinates | null;
+}
+
+// Travel to stops[to] from stops[from], or from the start position when from is null
+export type TravelLookup = (from: number | null, to: number) => TravelEstimate | null;
+
+export interface PlannedStop {
+  order: number;
+  bookingId: number;
+  address: string | null;
+  coordinates: Coordinates | null;
+  windowStart: Date;
+  windowEnd: Date;
+  durationMinutes: number;
+  // Null for the first stop without a start position, or when either end is unlocated
+  travelFromPrevious: { distanceMeters: number; durationMinutes: number } | null;
+  estimatedArrival: Date;
+  estimatedStart: Date;
+  estimatedDeparture: Date;
+  reachable: boolean;
+  lateByMinutes: number;
+}
+
+export interface PlannedRoute {
+  stops: PlannedStop[];
+  totalDistanceMeters: number;
+  totalTravelMinutes: number;
+  // Booking ids that can't be reached in time
+  unreachable: number[];
+}
+
+const pickNext = (stops: RouteStop[], remaining: number[], current: number | null, travel: TravelLookup | null) => {
+  const earliest = Math.min(...remaining.map((index) => stops[index].start.getTime()));
+  const candidates = remaining.filter(
+    (index) => stops[index].start.getTime() <= earliest + ROUTE_PLANNING.TIE_MINUTES * MINUTE_MS
+  );
+
+  const distance = (index: number) => travel?.(current, index)?.distanceMeters ?? Infinity;
+
+  return candidates.sort(
+    (a, b) =>
+      distance(a) - distance(b)
+      || stops[a].start.getTime() - stops[b].start.getTime()
+      || stops[a].bookingId - stops[b].bookingId
+  )[0];
+};
+
+/**
+ * Orders a day's jobs by time window, visiting the nearest of the jobs that
+ * start around the same time first, and estimates when each is reached.
+ * The first job is assumed to be reached on time.
+ */
+export function planRoute(stops: RouteStop[], travel: TravelLookup, hasStartPosition = false): PlannedRoute {
+  const remaining = stops.map((_, index) => index);
+  const planned: PlannedStop[] = [];
+  let current: number | null = null;
+  let departure: Date | null = null;
+  let totalDistanceMeters = 0;
+  let totalTravelSeconds = 0;
+
+  while (remaining.length > 0) {
+    const canTravel = current !== null || hasStartPosition;
+    const next = pickNext(stops, remaining, current, canTravel ? travel : null);
+    remaining.splice(remaining.indexOf(next), 1);
+
+    const stop = stops[next];
+    const leg = canTravel ? travel(current, next) : null;
+
+    if (leg) {
+      totalDistanceMeters += leg.distanceMeters;
+      totalTravelSeconds += leg.durationSeconds;
+    }
+
+    const arrival: Date = departure === null
+      ? stop.start
+      : new Date(departure.getTime() + (leg?.durationSeconds ?? 0) * 1000);
+    const start = arrival > stop.start ? arrival : stop.start;
+    const lateMinutes = (arrival.getTime() - stop.start.getTime()) / MINUTE_MS;
+
+    departure = new Date(start.getTime() + stop.durationMinutes * MINUTE_MS);
+    current = next;
+
+    planned.push({
+      order: planned.length + 1,
+      bookingId: stop.bookingId,
+      address: stop.address,
+      coordinates: stop.coordinates,
+      windowStart: stop.start,
+      windowEnd: stop.end,
+      durationMinutes: stop.durationMinutes,
+      travelFromPrevious: leg
+        ? { distanceMeters: Math.round(leg.distanceMeters), durationMinutes: Math.round(leg.durationSeconds / 60) }
+        : null,
+      estimatedArrival: arrival,
+      estimatedStart: start,
+      estimatedDeparture: departure,
+      reachable: lateMinutes <= ROUTE_PLANNING.GRACE_MINUTES,
+      lateByMinutes: Math.max(0, Math.round(lateMinutes)),
+    });
+  }
+
+  return {
+    stops: planned,
+    totalDistanceMeters: Math.round(totalDistanceMeters),
+    totalTravelMinutes: Math.round(totalTravelSeconds / 60),
+    unreachable: planned.filter((stop) => !stop.reachable).map((stop) => stop.bookingId),
+  };
+}
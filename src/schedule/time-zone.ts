@@ -0,0 +1,129 @@
+export const TIME_ZONE_CONFIG = {
+  // Staff and customers all work in Vietnam; calendar days and months are counted here
+  TIME_ZONE: process.env.BUSINESS_TIME_ZONE || 'Asia/Ho_Chi_Minh',
+} as const;
+
+const MINUTE_MS = 60 * 1000;
+
+const CALENDAR_DATE = /^\d{4}-\d{2}-\d{2}$/;
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+const formatterFor = (timeZone: string) => {
+  let formatter = formatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: 'numeric',
+      day: 'numeric',
+      hour: 'numeric',
+      minute: 'numeric',
+      second: 'numeric',
+      weekday: 'short',
+    });
+    formatters.set(timeZone, formatter);
+  }
+  return formatter;
+};
+
+const WEEKDAY_INDEX: Record<string, number> = { Sun: 0, Mon: 1, Tue: 2, Wed: 3, Thu: 4, Fri: 5, Sat: 6 };
+
+export interface ZonedParts {
+  year: number;
+  // 1-12
+  month: number;
+  day: number;
+  hour: number;
+  minute: number;
+  // 0 = Sunday, like Date#getDay()
+  weekday: number;
+}
+
+/**
+ * Wall-clock fields of an instant in a time zone.
+ */
+export function zonedParts(date: Date, timeZone = TIME_ZONE_CONFIG.TIME_ZONE): ZonedParts {
+  const parts = Object.fromEntries(formatterFor(timeZone).formatToParts(date).map((part) => [part.type, part.value]));
+
+  return {
+    year: Number(parts.year),
+    month: Number(parts.month),
+    day: Number(parts.day),
+    hour: Number(parts.hour),
+    minute: Number(parts.minute),
+    weekday: WEEKDAY_INDEX[parts.weekday],
+  };
+}
+
+// Minutes the zone is ahead of UTC at an instant
+const offsetMinutes = (date: Date, timeZone: string) => {
+  const parts = zonedParts(date, timeZone);
+  const wallClock = Date.UTC(parts.year, parts.month - 1, parts.day, parts.hour, parts.minute);
+  return Math.round((wallClock - Math.floor(date.getTime() / MINUTE_MS) * MINUTE_MS) / MINUTE_MS);
+};
+
+// Instant at which a wall-clock time occurs in the zone
+const fromWallClock = (year: number, month: number, day: number, timeZone: string) => {
+  const guess = Date.UTC(year, month - 1, day);
+  const first = guess - offsetMinutes(new Date(guess), timeZone) * MINUTE_MS;
+  // Re-check once in case the offset changes between the guess and the answer (DST)
+  return new Date(guess - offsetMinutes(new Date(first), timeZone) * MINUTE_MS);
+};
+
+const pad = (value: number) => String(value).padStart(2, '0');
+
+/**
+ * YYYY-MM-DD of the calendar day an instant falls on in the zone.
+ */
+export function zonedDateKey(date: Date, timeZone = TIME_ZONE_CONFIG.TIME_ZONE): string {
+  const { year, month, day } = zonedParts(date, timeZone);
+  return `${year}-${pad(month)}-${pad(day)}`;
+}
+
+export interface InstantRange {
+  start: Date;
+  // Exclusive
+  end: Date;
+}
+
+/**
+ * Instants covering one calendar day (YYYY-MM-DD) in the zone.
+ */
+export function zonedDayBounds(dateKey: string, timeZone = TIME_ZONE_CONFIG.TIME_ZONE): InstantRange {
+  const [year, month, day] = dateKey.split('-').map(Number);
+  return {
+    start: fromWallClock(year, month, day, timeZone),
+    end: fromWallClock(year, month, day + 1, timeZone),
+  };
+}
+
+/**
+ * Instants covering a calendar month (1-12) in the zone.
+ */
+export function zonedMonthBounds(year: number, month: number, timeZone = TIME_ZONE_CONFIG.TIME_ZONE): InstantRange {
+  return {
+    start: fromWallClock(year, month, 1, timeZone),
+    end: fromWallClock(year, month + 1, 1, timeZone),
+  };
+}
+
+/**
+ * Bounds for optional from/to filters. Calendar dates cover their whole day
+ * in the zone, so `toDate` is inclusive; other values are parsed as instants.
+ */
+export function zonedFilterBounds(
+  fromDate?: string,
+  toDate?: string,
+  timeZone = TIME_ZONE_CONFIG.TIME_ZONE
+): { gte?: Date; lt?: Date } {
+  return {
+    ...(fromDate
+      ? { gte: CALENDAR_DATE.test(fromDate) ? zonedDayBounds(fromDate, timeZone).start : new Date(fromDate) }
+      : {}),
+    ...(toDate
+      ? { lt: CALENDAR_DATE.test(toDate) ? zonedDayBounds(toDate, timeZone).end : new Date(new Date(toDate).getTime() + 1) }
+      : {}),
+  };
+}
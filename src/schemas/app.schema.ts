@@ -1,4 +1,5 @@
 import { z } from 'zod';
+import { AvailabilityExceptionType, Session, WeekDay } from '../generated/prisma';
 import { InspectionStatusSchema } from './core.schema';
 
 // ─────────────────────────────
@@ -11,12 +12,20 @@ export const GetStaffBookingsQuerySchema = z.object({
 // ─────────────────────────────
 // 2. Create Inspection Report
 // ─────────────────────────────
+// Answer to one checklist item; the item's type decides which value is valid
+const ChecklistAnswerSchema = z.object({
+    key: z.string().min(1).max(100),
+    value: z.union([z.boolean(), z.number(), z.string().max(255), z.array(z.string().url()).min(1).max(10)]),
+});
+
 export const CreateInspectionReportSchema = z.object({
     bookingId: z.number().int().positive(),
     staffId: z.number().int().positive(),
     estimatedTime: z.number().int().min(1).max(600).optional(),
     note: z.string().optional(),
     images: z.array(z.string().url()).default([]),
+    // Required items of the category's checklist must all be answered
+    checklist: z.array(ChecklistAnswerSchema).max(100).default([]),
 });
 
 // ─────────────────────────────
@@ -35,18 +44,26 @@ export const updateInspectionReportSchema = z.object({
     note: z.string().optional(),
     images: z.array(z.string().url()).optional(),
     estimatedTime: z.number().int().min(1).max(600).optional(),
+    // Replaces the answers to the given items and keeps the rest
+    checklist: z.array(ChecklistAnswerSchema).max(100).optional(),
 });
 
 // ─────────────────────────────
 // 5. Get Bookings List
 // ─────────────────────────────
+// Which date of a booking date filters apply to: when it was created, when
+// the job is scheduled, or when work on it was checked in
+export const BookingDateFieldSchema = z.enum(['createdAt', 'preferredDate', 'checkIn']);
+
 export const GetBookingsListSchema = z.object({
     staffId: z.coerce.number().int().positive(),
     status: z.string().optional(),
     page: z.coerce.number().int().positive().default(1),
     limit: z.coerce.number().int().positive().default(10),
+    // YYYY-MM-DD covers the whole day in the business time zone, toDate included
     fromDate: z.string().optional(),
     toDate: z.string().optional(),
+    dateField: BookingDateFieldSchema.default('preferredDate'),
     keyword: z.string().optional(),
 });
 
@@ -90,5 +107,278 @@ export const GetBookingsByDateSchema = z.object({
     }),
     page: z.coerce.number().int().positive().default(1),
     limit: z.coerce.number().int().positive().default(10),
+    dateField: BookingDateFieldSchema.default('preferredDate'),
+    // Adds an availability check for each booking's preferred date
+    checkAvailability: z.boolean().default(false),
+});
+
+
+// ─────────────────────────────
+// 11. Booking Detail / Workflow
+// ─────────────────────────────
+export const GetBookingDetailSchema = z.object({
+    bookingId: z.number().int().positive(),
+    staffId: z.number().int().positive(),
+});
+
+export const GetBookingWorkflowSchema = GetBookingDetailSchema.extend({
+    // Proposal version to return; the current one by default
+    version: z.number().int().positive().optional(),
+    // Version to diff against; the one before `version` by default
+    compareTo: z.number().int().positive().optional(),
+});
+
+// ─────────────────────────────
+// 12. Inspection Detail / Update Payload
+// ─────────────────────────────
+export const GetInspectionDetailSchema = z.object({
+    staffId: z.number().int().positive(),
+    inspectionId: z.number().int().positive(),
+});
+
+export const UpdateInspectionReportPayloadSchema = z.object({
+    staffId: z.number().int().positive(),
+    inspectionId: z.number().int().positive(),
+    dataInspection: updateInspectionReportSchema,
+});
+
+// Either a booking of the staff member or one of their categories
+export const GetChecklistTemplateSchema = z.object({
+    staffId: z.number().int().positive(),
+    bookingId: z.number().int().positive().optional(),
+    categoryId: z.number().int().positive().optional(),
+});
+
+// ─────────────────────────────
+// 13. Staff-only Queries (performance, review summary)
+// ─────────────────────────────
+export const StaffIdSchema = z.object({
+    staffId: z.number().int().positive(),
+});
+
+// ─────────────────────────────
+// 14. Check In / Check Out
+// ─────────────────────────────
+export const PositionSchema = z.object({
+    latitude: z.number().min(-90).max(90),
+    longitude: z.number().min(-180).max(180),
+    // GPS accuracy radius in meters; anything coarser can't place staff at a job site
+    accuracy: z.number().nonnegative().max(5000).optional(),
+});
+
+export const CheckInSchema = z.object({
+    staffId: z.number().int().positive(),
+    bookingId: z.number().int().positive(),
+    position: PositionSchema.optional(),
+});
+
+export const CheckOutSchema = z.object({
+    staffId: z.number().int().positive(),
+    bookingId: z.number().int().positive(),
+    position: PositionSchema.optional(),
+});
+
+// ─────────────────────────────
+// 15. Monthly Stats
+// ─────────────────────────────
+export const GetMonthlyStatsSchema = z.object({
+    staffId: z.number().int().positive(),
+    month: z.number().int().min(1).max(12),
+    year: z.number().int().min(2000),
+    // Date that places a completed booking in the month; work logs always use check-in
+    dateField: BookingDateFieldSchema.default('preferredDate'),
+});
+
+// ─────────────────────────────
+// 16. Work Sessions (pause / resume / finish)
+// ─────────────────────────────
+export const PauseWorkSchema = z.object({
+    staffId: z.number().int().positive(),
+    bookingId: z.number().int().positive(),
+    note: z.string().trim().max(500).optional(),
+    position: PositionSchema.optional(),
+});
+
+export const ResumeWorkSchema = z.object({
+    staffId: z.number().int().positive(),
+    bookingId: z.number().int().positive(),
+    position: PositionSchema.optional(),
+});
+
+export const GetWorkPolicySchema = z.object({
+    staffId: z.number().int().positive(),
+    bookingId: z.number().int().positive(),
+});
+
+export const FinishJobSchema = z.object({
+    staffId: z.number().int().positive(),
+    bookingId: z.number().int().positive(),
+    note: z.string().trim().max(500).optional(),
+    position: PositionSchema.optional(),
+});
+
+// ─────────────────────────────
+// 17. Auto-closed Work Log Review
+// ─────────────────────────────
+export const ListAutoClosedLogsSchema = z.object({
+    providerId: z.coerce.number().int().positive().optional(),
+    staffId: z.coerce.number().int().positive().optional(),
+    // pending: not yet corrected by a supervisor
+    status: z.enum(['pending', 'corrected', 'all']).default('pending'),
+    page: z.coerce.number().int().positive().default(1),
+    limit: z.coerce.number().int().positive().default(10),
+});
+
+export const CorrectWorkLogSchema = z.object({
+    workLogId: z.number().int().positive(),
+    checkIn: z.coerce.date().optional(),
+    checkOut: z.coerce.date(),
+    note: z.string().trim().max(500).optional(),
+});
+
+// ─────────────────────────────
+// 18. Staff Availability
+// ─────────────────────────────
+const CalendarDateSchema = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Invalid date format');
+
+export const GetAvailabilitySchema = z.object({
+    staffId: z.number().int().positive(),
+    fromDate: CalendarDateSchema.optional(),
+    toDate: CalendarDateSchema.optional(),
+});
+
+export const SetWeeklyAvailabilitySchema = z.object({
+    staffId: z.number().int().positive(),
+    slots: z.array(
+        z.object({
+            weekDay: z.nativeEnum(WeekDay),
+            session: z.nativeEnum(Session),
+        })
+    ).max(14),
+});
+
+export const AddAvailabilityExceptionSchema = z.object({
+    staffId: z.number().int().positive(),
+    date: CalendarDateSchema,
+    // Omit to cover the whole day
+    session: z.nativeEnum(Session).nullable().default(null),
+    type: z.nativeEnum(AvailabilityExceptionType),
+    note: z.string().trim().max(500).optional(),
+});
+
+export const RemoveAvailabilityExceptionSchema = z.object({
+    staffId: z.number().int().positive(),
+    exceptionId: z.number().int().positive(),
+});
+
+export const GetAvailabilityCalendarSchema = z.object({
+    staffId: z.number().int().positive(),
+    fromDate: CalendarDateSchema,
+    toDate: CalendarDateSchema,
+});
+
+// ─────────────────────────────
+// 19. Schedule
+// ─────────────────────────────
+export const GetScheduleConflictsSchema = z.object({
+    staffId: z.number().int().positive(),
+    fromDate: CalendarDateSchema.optional(),
+    toDate: CalendarDateSchema.optional(),
+});
+
+export const GetDailyRouteSchema = z.object({
+    staffId: z.number().int().positive(),
+    date: CalendarDateSchema,
+    // Where the staff member sets off from; the first job is otherwise assumed reached on time
+    startPosition: PositionSchema.optional(),
+});
+
+export const ExportCalendarSchema = z.object({
+    staffId: z.number().int().positive(),
+    fromDate: CalendarDateSchema.optional(),
+    toDate: CalendarDateSchema.optional(),
+});
+
+// ─────────────────────────────
+// 20. Assignment Queue
+// ─────────────────────────────
+export const GetPendingAssignmentsSchema = z.object({
+    staffId: z.number().int().positive(),
+    page: z.coerce.number().int().positive().default(1),
+    limit: z.coerce.number().int().positive().default(10),
+});
+
+export const AcceptBookingSchema = z.object({
+    staffId: z.number().int().positive(),
+    bookingId: z.number().int().positive(),
+});
+
+export const DeclineBookingSchema = z.object({
+    staffId: z.number().int().positive(),
+    bookingId: z.number().int().positive(),
+    // Shown to the provider when they reassign the booking
+    reason: z.string().trim().min(1).max(500),
+});
+
+// ─────────────────────────────
+// 21. Proposals
+// ─────────────────────────────
+const ProposalLineSchema = z.object({
+    serviceId: z.number().int().positive(),
+    quantity: z.number().int().min(1).max(100),
+    // ServiceItem parts fitted as part of this service
+    parts: z
+        .array(
+            z.object({
+                serviceItemId: z.number().int().positive(),
+                quantity: z.number().int().min(1).max(100),
+            })
+        )
+        .max(20)
+        .default([]),
+});
+
+export const CreateProposalSchema = z.object({
+    staffId: z.number().int().positive(),
+    bookingId: z.number().int().positive(),
+    notes: z.string().trim().max(2000).optional(),
+    items: z.array(ProposalLineSchema).min(1).max(50),
 });
 
+export const UpdateProposalSchema = z.object({
+    staffId: z.number().int().positive(),
+    bookingId: z.number().int().positive(),
+    notes: z.string().trim().max(2000).optional(),
+    // Replaces every line when given
+    items: z.array(ProposalLineSchema).min(1).max(50).optional(),
+});
+
+// ─────────────────────────────
+// 22. Inventory
+// ─────────────────────────────
+export const SearchServiceItemsSchema = z.object({
+    staffId: z.number().int().positive(),
+    // Matched against name, brand and model
+    query: z.string().trim().max(100).optional(),
+    inStockOnly: z.boolean().default(false),
+    page: z.coerce.number().int().positive().default(1),
+    limit: z.coerce.number().int().positive().max(100).default(20),
+});
+
+// ─────────────────────────────
+// 23. Warranties
+// ─────────────────────────────
+export const LookupWarrantySchema = z.object({
+    staffId: z.number().int().positive(),
+    bookingId: z.number().int().positive().optional(),
+    customerId: z.number().int().positive().optional(),
+});
+
+export const OpenWarrantyClaimSchema = z.object({
+    staffId: z.number().int().positive(),
+    warrantyId: z.number().int().positive(),
+    // What failed again, shown on the claim booking
+    description: z.string().trim().min(1).max(1000),
+    // Requested time of the return visit, e.g. 2025-06-01T09:00:00+07:00
+    preferredDate: z.string().datetime({ offset: true }),
+});
@@ -0,0 +1,637 @@
+import { z } from 'zod';
+import {
+    AvailabilityExceptionType,
+    BookingStatus,
+    ChecklistItemType,
+    ProposalStatus,
+    RequestStatus,
+    WarrantySubject,
+    Session,
+    Unit,
+    WeekDay,
+    WorkLogEndReason,
+} from '../generated/prisma';
+
+// ─────────────────────────────
+// 1. Shared Building Blocks
+// ─────────────────────────────
+const BookingStatusSchema = z.nativeEnum(BookingStatus);
+const RequestStatusSchema = z.nativeEnum(RequestStatus);
+
+const PaginationSchema = z.object({
+    total: z.number().int(),
+    page: z.number().int(),
+    limit: z.number().int(),
+    totalPages: z.number().int(),
+});
+
+const CustomerSchema = z.object({
+    name: z.string().nullish(),
+    phone: z.string().nullish(),
+    address: z.string().nullish(),
+});
+
+const BookingSummarySchema = z.object({
+    id: z.number().int(),
+    status: BookingStatusSchema,
+    createdAt: z.date(),
+    serviceRequestId: z.number().int().nullable(),
+    customer: CustomerSchema,
+    serviceRequest: z
+        .object({
+            id: z.number().int(),
+            preferredDate: z.date(),
+            note: z.string().nullable(),
+            location: z.string(),
+            phoneNumber: z.string(),
+            status: RequestStatusSchema,
+            categoryId: z.number().int().nullable(),
+            categoryName: z.string().nullable(),
+        })
+        .nullable(),
+});
+
+const InspectionReportRecordSchema = z.object({
+    id: z.number().int(),
+    bookingId: z.number().int(),
+    staffId: z.number().int(),
+    estimatedTime: z.number().int().nullable(),
+    note: z.string().nullable(),
+    images: z.array(z.string()),
+    createdAt: z.date(),
+});
+
+const InspectionServiceRequestSchema = z.object({
+    preferredDate: z.date(),
+    location: z.string(),
+    phoneNumber: z.string(),
+    categoryName: z.string().nullish(),
+});
+
+const InspectionBookingSchema = z.object({
+    id: z.number().int(),
+    status: BookingStatusSchema,
+    createdAt: z.date(),
+    customer: CustomerSchema,
+    serviceRequest: InspectionServiceRequestSchema.optional(),
+});
+
+const StaffSummarySchema = z.object({
+    id: z.number().int(),
+    name: z.string().nullish(),
+    avatar: z.string().nullish(),
+});
+
+const WorkLogRecordSchema = z.object({
+    id: z.number().int(),
+    staffId: z.number().int(),
+    bookingId: z.number().int(),
+    checkIn: z.date().nullable(),
+    checkOut: z.date().nullable(),
+    note: z.string().nullable(),
+    endReason: z.nativeEnum(WorkLogEndReason).nullable(),
+    checkInLatitude: z.number().nullable(),
+    checkInLongitude: z.number().nullable(),
+    checkInDistance: z.number().nullable(),
+    checkOutLatitude: z.number().nullable(),
+    checkOutLongitude: z.number().nullable(),
+    checkOutDistance: z.number().nullable(),
+    locationFlagged: z.boolean(),
+    autoClosedAt: z.date().nullable(),
+    correctedAt: z.date().nullable(),
+    correctedById: z.number().int().nullable(),
+    correctionNote: z.string().nullable(),
+    createdAt: z.date(),
+    updatedAt: z.date(),
+});
+
+const AvailabilityCheckSchema = z.object({
+    available: z.boolean(),
+    reason: z.enum(['OUTSIDE_SESSION_HOURS', 'NOT_SCHEDULED', 'LEAVE', 'SICK']).nullable(),
+});
+
+// ─────────────────────────────
+// 2. Bookings
+// ─────────────────────────────
+export const BookingsListResponseSchema = PaginationSchema.extend({
+    bookings: z.array(BookingSummarySchema),
+});
+
+export const BookingsByDateResponseSchema = PaginationSchema.extend({
+    bookingsByDate: z.array(
+        BookingSummarySchema.extend({
+            // Present when checkAvailability was requested; null without a preferred date
+            availability: AvailabilityCheckSchema.nullable().optional(),
+        })
+    ),
+});
+
+export const BookingDetailResponseSchema = z.object({
+    id: z.number().int(),
+    status: BookingStatusSchema,
+    createdAt: z.date(),
+    customer: CustomerSchema.extend({
+        id: z.number().int().optional(),
+    }),
+    serviceRequest: z
+        .object({
+            id: z.number().int(),
+            preferredDate: z.date(),
+            note: z.string().nullable(),
+            location: z.string(),
+            phoneNumber: z.string(),
+            status: RequestStatusSchema,
+            category: z.object({ id: z.number().int(), name: z.string() }).optional(),
+        })
+        .optional(),
+});
+
+// ─────────────────────────────
+// 3. Inspection Reports
+// ─────────────────────────────
+const ChecklistItemTypeSchema = z.nativeEnum(ChecklistItemType);
+
+// Null when the booking's category had no checklist
+const ReportChecklistSchema = z
+    .object({
+        templateId: z.number().int(),
+        name: z.string(),
+        version: z.number().int(),
+        answers: z.array(
+            z.object({
+                key: z.string(),
+                label: z.string(),
+                type: ChecklistItemTypeSchema,
+                value: z.union([z.boolean(), z.number(), z.string(), z.array(z.string())]).nullable(),
+            })
+        ),
+    })
+    .nullable();
+
+export const InspectionReportResponseSchema = InspectionReportRecordSchema.extend({
+    checklistTemplateId: z.number().int().nullable(),
+    checklist: ReportChecklistSchema,
+});
+
+export const InspectionReportDetailResponseSchema = InspectionReportRecordSchema.extend({
+    checklistTemplateId: z.number().int().nullable(),
+    checklist: ReportChecklistSchema,
+    staff: StaffSummarySchema,
+    booking: InspectionBookingSchema,
+}).nullable();
+
+export const ChecklistTemplateResponseSchema = z.object({
+    bookingId: z.number().int().nullable(),
+    categoryId: z.number().int().nullable(),
+    // Items in display order; null when neither the category nor its parents have a checklist
+    template: z
+        .object({
+            id: z.number().int(),
+            name: z.string(),
+            version: z.number().int(),
+            categoryId: z.number().int(),
+            items: z.array(
+                z.object({
+                    id: z.number().int(),
+                    key: z.string(),
+                    label: z.string(),
+                    type: ChecklistItemTypeSchema,
+                    required: z.boolean(),
+                    position: z.number().int(),
+                    minValue: z.number().nullable(),
+                    maxValue: z.number().nullable(),
+                    unit: z.string().nullable(),
+                    options: z.array(z.string()),
+                })
+            ),
+        })
+        .nullable(),
+});
+
+export const InspectionReportsListResponseSchema = PaginationSchema.extend({
+    inspectionReports: z.array(
+        z.object({
+            id: z.number().int(),
+            createdAt: z.date(),
+            estimatedTime: z.number().int().nullable(),
+            note: z.string(),
+            images: z.array(z.string()),
+            booking: InspectionBookingSchema,
+        })
+    ),
+});
+
+export const AllInspectionReportsResponseSchema = PaginationSchema.extend({
+    inspectionReports: z.array(
+        InspectionReportRecordSchema.extend({
+            staff: StaffSummarySchema,
+            booking: InspectionBookingSchema,
+        })
+    ),
+});
+
+// ─────────────────────────────
+// 4. Reviews
+// ─────────────────────────────
+export const ReviewsResponseSchema = PaginationSchema.extend({
+    reviews: z.array(
+        z.object({
+            id: z.number().int(),
+            rating: z.number().int(),
+            comment: z.string(),
+            createdAt: z.date(),
+            customerName: z.string().nullable(),
+            serviceName: z.string().nullable(),
+        })
+    ),
+});
+
+// Keyed by star rating (1-5)
+export const ReviewSummaryResponseSchema = z.record(z.string(), z.number().int());
+
+// ─────────────────────────────
+// 5. Work Logs & Performance
+// ─────────────────────────────
+export const WorkLogResponseSchema = WorkLogRecordSchema;
+
+export const WorkLogsResponseSchema = PaginationSchema.extend({
+    workLogs: z.array(
+        z.object({
+            id: z.number().int(),
+            checkIn: z.date().nullable(),
+            checkOut: z.date().nullable(),
+            note: z.string().nullable(),
+            createdAt: z.date(),
+            booking: z
+                .object({
+                    id: z.number().int(),
+                    status: BookingStatusSchema,
+                    createdAt: z.date(),
+                })
+                .optional(),
+        })
+    ),
+});
+
+export const CheckOutResponseSchema = z.object({
+    message: z.string(),
+    bookingId: z.number().int(),
+    updatedAt: z.date(),
+});
+
+export const FinishJobResponseSchema = CheckOutResponseSchema.extend({
+    // Sessions the staff member logged on the booking and their summed hours
+    sessions: z.number().int(),
+    totalHoursWorked: z.number(),
+    // Service and part warranties starting at completion
+    warrantiesIssued: z.number().int(),
+});
+
+export const WorkPolicyResponseSchema = z.object({
+    id: z.number().int().nullable(),
+    name: z.string(),
+    scope: z.enum(['provider-category', 'provider', 'category', 'global', 'default']),
+    checkInEarlyTolerance: z.number().int(),
+    checkInLateTolerance: z.number().int(),
+    maxSessionMinutes: z.number().int(),
+    // First check-in window around the preferred date
+    checkInOpensAt: z.date().nullable(),
+    checkInClosesAt: z.date().nullable(),
+});
+
+export const AutoClosedLogsResponseSchema = PaginationSchema.extend({
+    workLogs: z.array(
+        WorkLogRecordSchema.extend({
+            booking: z.object({
+                id: z.number().int(),
+                providerId: z.number().int(),
+                status: BookingStatusSchema,
+            }),
+            staff: StaffSummarySchema.pick({ id: true, name: true }),
+        })
+    ),
+});
+
+export const PerformanceResponseSchema = z.object({
+    staffId: z.number().int(),
+    totalBookings: z.number().int(),
+    totalHoursWorked: z.number(),
+    totalReviews: z.number().int(),
+    averageRating: z.number().nullable(),
+});
+
+export const MonthlyStatsResponseSchema = z.object({
+    month: z.number().int(),
+    year: z.number().int(),
+    totalCompletedBookings: z.number().int(),
+    totalWorkLogs: z.number().int(),
+    totalHoursWorked: z.number(),
+    averageHoursPerLog: z.number(),
+    workDays: z.number().int(),
+    firstCheckIn: z.date().nullable(),
+    lastCheckOut: z.date().nullable(),
+});
+
+// ─────────────────────────────
+// 6. Proposals
+// ─────────────────────────────
+const PricedQuantitySchema = z.object({
+    quantity: z.number().int(),
+    unitPrice: z.number().nullable(),
+    total: z.number().nullable(),
+});
+
+const ProposalEntryChangeSchema = z.object({
+    // serviceId for services, serviceItemId for parts
+    id: z.number().int(),
+    name: z.string(),
+    change: z.enum(['ADDED', 'REMOVED', 'CHANGED']),
+    before: PricedQuantitySchema.nullable(),
+    after: PricedQuantitySchema.nullable(),
+});
+
+const ProposalRevisionSchema = z.object({
+    version: z.number().int(),
+    notes: z.string().nullable(),
+    totalPrice: z.number().nullable(),
+    staffId: z.number().int().nullable(),
+    createdAt: z.date(),
+    items: z.array(
+        z.object({
+            serviceId: z.number().int(),
+            serviceName: z.string(),
+            quantity: z.number().int(),
+            unitPrice: z.number().nullable(),
+            lineTotal: z.number().nullable(),
+            parts: z.array(
+                z.object({
+                    serviceItemId: z.number().int(),
+                    name: z.string(),
+                    quantity: z.number().int(),
+                    unitPrice: z.number(),
+                    lineTotal: z.number(),
+                })
+            ),
+        })
+    ),
+});
+
+const ProposalDiffSchema = z.object({
+    fromVersion: z.number().int(),
+    toVersion: z.number().int(),
+    notesChanged: z.boolean(),
+    totalPriceBefore: z.number().nullable(),
+    totalPriceAfter: z.number().nullable(),
+    totalPriceChange: z.number().nullable(),
+    services: z.array(ProposalEntryChangeSchema),
+    parts: z.array(ProposalEntryChangeSchema),
+});
+
+export const ProposalResponseSchema = z.object({
+    id: z.number().int(),
+    status: z.nativeEnum(ProposalStatus),
+    notes: z.string(),
+    // Null for proposals priced before quoting moved to this service
+    totalPrice: z.number().nullable(),
+    createdAt: z.date(),
+    updatedAt: z.date().nullable(),
+    currentVersion: z.number().int().nullable(),
+    items: z.array(
+        z.object({
+            id: z.number().int(),
+            quantity: z.number().int(),
+            unitPrice: z.number().nullable(),
+            lineTotal: z.number().nullable(),
+            service: z.object({
+                id: z.number().int(),
+                name: z.string(),
+                basePrice: z.number(),
+                durationMinutes: z.number().int(),
+            }),
+            parts: z.array(
+                z.object({
+                    id: z.number().int(),
+                    quantity: z.number().int(),
+                    unitPrice: z.number(),
+                    lineTotal: z.number(),
+                    serviceItem: z.object({
+                        id: z.number().int(),
+                        name: z.string(),
+                        brand: z.string().nullable(),
+                        model: z.string().nullable(),
+                    }),
+                })
+            ),
+        })
+    ),
+});
+
+export const ProposalHistoryResponseSchema = ProposalResponseSchema.extend({
+    versions: z.array(
+        z.object({
+            version: z.number().int(),
+            totalPrice: z.number().nullable(),
+            staffId: z.number().int().nullable(),
+            createdAt: z.date(),
+        })
+    ),
+    // Requested version as it was quoted; null when the proposal has no versions
+    revision: ProposalRevisionSchema.nullable(),
+    // Null when there is no earlier version to compare with
+    diff: ProposalDiffSchema.nullable(),
+});
+
+// ─────────────────────────────
+// 7. Availability
+// ─────────────────────────────
+const WeeklySlotSchema = z.object({
+    weekDay: z.nativeEnum(WeekDay),
+    session: z.nativeEnum(Session),
+});
+
+export const AvailabilityExceptionResponseSchema = z.object({
+    id: z.number().int(),
+    date: z.date(),
+    session: z.nativeEnum(Session).nullable(),
+    type: z.nativeEnum(AvailabilityExceptionType),
+    note: z.string().nullable(),
+});
+
+export const WeeklyAvailabilityResponseSchema = z.object({
+    slots: z.array(WeeklySlotSchema),
+});
+
+export const AvailabilityResponseSchema = WeeklyAvailabilityResponseSchema.extend({
+    fromDate: z.string(),
+    toDate: z.string(),
+    exceptions: z.array(AvailabilityExceptionResponseSchema),
+});
+
+export const RemoveAvailabilityExceptionResponseSchema = z.object({
+    exceptionId: z.number().int(),
+    deleted: z.boolean(),
+});
+
+export const AvailabilityCalendarResponseSchema = z.object({
+    fromDate: z.string(),
+    toDate: z.string(),
+    days: z.array(
+        z.object({
+            date: z.string(),
+            weekDay: z.nativeEnum(WeekDay),
+            sessions: z.array(AvailabilityCheckSchema.extend({ session: z.nativeEnum(Session) })),
+        })
+    ),
+});
+
+// ─────────────────────────────
+// 8. Schedule
+// ─────────────────────────────
+export const ScheduleConflictsResponseSchema = z.object({
+    fromDate: z.string(),
+    toDate: z.string(),
+    bookings: z.array(
+        z.object({
+            bookingId: z.number().int(),
+            start: z.date(),
+            end: z.date(),
+            durationMinutes: z.number().int(),
+            // Where the duration came from: proposal items, inspection estimate or the default
+            durationSource: z.enum(['proposal', 'inspection', 'default']),
+        })
+    ),
+    conflicts: z.array(
+        z.object({
+            bookingIds: z.tuple([z.number().int(), z.number().int()]),
+            overlapStart: z.date(),
+            overlapEnd: z.date(),
+            overlapMinutes: z.number().int(),
+        })
+    ),
+});
+
+export const DailyRouteResponseSchema = z.object({
+    date: z.string(),
+    // Implementation that estimated travel, e.g. haversine or osrm
+    distanceMatrix: z.string(),
+    stops: z.array(
+        z.object({
+            order: z.number().int(),
+            bookingId: z.number().int(),
+            address: z.string().nullable(),
+            coordinates: z.object({ latitude: z.number(), longitude: z.number() }).nullable(),
+            windowStart: z.date(),
+            windowEnd: z.date(),
+            durationMinutes: z.number().int(),
+            travelFromPrevious: z
+                .object({
+                    distanceMeters: z.number().int(),
+                    durationMinutes: z.number().int(),
+                })
+                .nullable(),
+            estimatedArrival: z.date(),
+            estimatedStart: z.date(),
+            estimatedDeparture: z.date(),
+            reachable: z.boolean(),
+            lateByMinutes: z.number().int(),
+        })
+    ),
+    totalDistanceMeters: z.number().int(),
+    totalTravelMinutes: z.number().int(),
+    unreachable: z.array(z.number().int()),
+});
+
+export const CalendarExportResponseSchema = z.object({
+    fromDate: z.string(),
+    toDate: z.string(),
+    filename: z.string(),
+    contentType: z.string(),
+    // Number of VEVENTs in the calendar
+    events: z.number().int(),
+    // RFC 5545 text with CRLF line endings
+    calendar: z.string(),
+});
+
+// ─────────────────────────────
+// 9. Assignment Queue
+// ─────────────────────────────
+export const PendingAssignmentsResponseSchema = PaginationSchema.extend({
+    bookings: z.array(BookingSummarySchema),
+});
+
+export const AcceptBookingResponseSchema = CheckOutResponseSchema.extend({
+    status: BookingStatusSchema,
+});
+
+export const DeclineBookingResponseSchema = z.object({
+    message: z.string(),
+    bookingId: z.number().int(),
+    declineId: z.number().int(),
+    reason: z.string(),
+    declinedAt: z.date(),
+});
+
+// ─────────────────────────────
+// 10. Inventory
+// ─────────────────────────────
+export const ServiceItemSearchResponseSchema = PaginationSchema.extend({
+    items: z.array(
+        z.object({
+            id: z.number().int(),
+            name: z.string(),
+            brand: z.string().nullable(),
+            model: z.string().nullable(),
+            description: z.string().nullable(),
+            unit: z.nativeEnum(Unit),
+            unitPrice: z.number(),
+            // Not yet reserved by other jobs
+            stockQuantity: z.number().int(),
+            warrantyPeriod: z.number().int().nullable(),
+        })
+    ),
+});
+
+// ─────────────────────────────
+// 11. Warranties
+// ─────────────────────────────
+export const WarrantyLookupResponseSchema = z.object({
+    warranties: z.array(
+        z.object({
+            id: z.number().int(),
+            bookingId: z.number().int(),
+            customerId: z.number().int(),
+            subject: z.nativeEnum(WarrantySubject),
+            serviceId: z.number().int().nullable(),
+            serviceItemId: z.number().int().nullable(),
+            name: z.string(),
+            quantity: z.number().int(),
+            startDate: z.date(),
+            endDate: z.date(),
+            status: z.enum(['ACTIVE', 'EXPIRED']),
+            remainingDays: z.number().int(),
+            claims: z.array(
+                z.object({
+                    id: z.number().int(),
+                    description: z.string(),
+                    createdAt: z.date(),
+                    bookingId: z.number().int(),
+                    bookingStatus: BookingStatusSchema,
+                })
+            ),
+        })
+    ),
+    // Warranties still running at checkedAt
+    active: z.number().int(),
+    checkedAt: z.date(),
+});
+
+export const WarrantyClaimResponseSchema = z.object({
+    claimId: z.number().int(),
+    warrantyId: z.number().int(),
+    originalBookingId: z.number().int(),
+    // Return-visit booking opened for the claim
+    bookingId: z.number().int(),
+    status: BookingStatusSchema,
+    preferredDate: z.date(),
+    createdAt: z.date(),
+});
@@ -0,0 +1,92 @@
+import { AvailabilityExceptionInput, AvailabilityRepository } from '../repositories/availability.repository';
+import {
+  AvailabilityCheck,
+  buildAvailabilityCalendar,
+  calendarDateKey,
+  checkAvailabilityAt,
+  WeeklySlot,
+} from '../schedule/availability';
+import { resolveDateRange } from '../schedule/date-range';
+
+// Exceptions listed when no range is given, and the longest range accepted
+const AVAILABILITY_RANGE = { defaultDays: 31, maxDays: 62 };
+
+const uniqueSlots = (slots: WeeklySlot[]) => {
+  const seen = new Map(slots.map((slot) => [`${slot.weekDay}:${slot.session}`, slot]));
+  return [...seen.values()];
+};
+
+export const AvailabilityService = {
+  /**
+   * Weekly slots of a staff member and the exceptions within a date range
+   * @param staffId - Staff identifier
+   * @param fromDate - First date (YYYY-MM-DD), defaults to today
+   * @param toDate - Last date (YYYY-MM-DD), defaults to 30 days after fromDate
+   * @returns Weekly slots and date exceptions
+   */
+  async getAvailability(staffId: number, fromDate?: string, toDate?: string) {
+    const range = resolveDateRange(AVAILABILITY_RANGE, fromDate, toDate);
+    return {
+      ...range,
+      ...(await AvailabilityRepository.getAvailability(staffId, range.fromDate, range.toDate)),
+    };
+  },
+
+  /**
+   * Replaces the recurring weekly shifts of a staff member
+   * @param staffId - Staff identifier
+   * @param slots - Week day and session pairs, an empty list clears them
+   * @returns Saved slots ordered Monday first
+   */
+  async setWeeklyAvailability(staffId: number, slots: WeeklySlot[]) {
+    return { slots: await AvailabilityRepository.replaceWeeklySlots(staffId, uniqueSlots(slots)) };
+  },
+
+  /**
+   * Marks a date (or one session of it) as leave, sick or an extra shift
+   * @param staffId - Staff identifier
+   * @param input - Date, optional session, exception type and note
+   * @returns Saved exception
+   */
+  async addException(staffId: number, input: AvailabilityExceptionInput) {
+    return AvailabilityRepository.saveException(staffId, input);
+  },
+
+  /**
+   * Deletes one of the staff member's availability exceptions
+   * @param staffId - Staff identifier, must own the exception
+   * @param exceptionId - Exception identifier
+   */
+  async removeException(staffId: number, exceptionId: number) {
+    return AvailabilityRepository.removeException(staffId, exceptionId);
+  },
+
+  /**
+   * Per-session availability for each day of a range
+   * @param staffId - Staff identifier
+   * @param fromDate - First date (YYYY-MM-DD)
+   * @param toDate - Last date (YYYY-MM-DD), at most 62 days after fromDate
+   * @returns Calendar days with each session's availability
+   */
+  async getCalendar(staffId: number, fromDate: string, toDate: string) {
+    const range = resolveDateRange(AVAILABILITY_RANGE, fromDate, toDate);
+    const { slots, exceptions } = await AvailabilityRepository.getAvailability(staffId, range.fromDate, range.toDate);
+
+    return { ...range, days: buildAvailabilityCalendar(slots, exceptions, range.fromDate, range.toDate) };
+  },
+
+  /**
+   * Checks each time against the staff member's declared availability
+   * @param staffId - Staff identifier
+   * @param times - Points in time, e.g. booking preferred dates
+   * @returns One result per time, in the same order
+   */
+  async checkTimes(staffId: number, times: Date[]): Promise<AvailabilityCheck[]> {
+    if (times.length === 0) return [];
+
+    const keys = times.map(calendarDateKey).sort();
+    const { slots, exceptions } = await AvailabilityRepository.getAvailability(staffId, keys[0], keys[keys.length - 1]);
+
+    return times.map((time) => checkAvailabilityAt(slots, exceptions, time));
+  },
+};
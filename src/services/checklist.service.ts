@@ -0,0 +1,66 @@
+import { AppError } from '../handlers/error';
+import { ChecklistRepository } from '../repositories/checklist.repository';
+
+export const ChecklistService = {
+  /**
+   * Inspection checklist to fill in for a booking, or for one of the staff
+   * member's categories so the form can be prepared ahead of a visit
+   * @param staffId - Staff identifier
+   * @param target - Booking owned by the staff member, or a category assigned to them
+   * @returns Category and its active template, null when it has none
+   */
+  async getTemplate(staffId: number, target: { bookingId?: number; categoryId?: number }) {
+    if (target.bookingId) {
+      const booking = await ChecklistRepository.findBookingCategory(target.bookingId);
+
+      if (!booking) {
+        throw new AppError(
+          'Booking not found',
+          [{ message: 'Error.BookingNotFound', path: ['bookingId'] }],
+          { bookingId: target.bookingId },
+          404
+        );
+      }
+
+      if (booking.staffId !== staffId) {
+        throw new AppError(
+          'Access denied: Staff does not own this booking',
+          [{ message: 'Error.UnauthorizedAccess', path: ['staffId'] }],
+          { staffId, bookingStaffId: booking.staffId },
+          403
+        );
+      }
+
+      const categoryId = booking.ServiceRequest?.categoryId ?? null;
+      return {
+        bookingId: target.bookingId,
+        categoryId,
+        template: categoryId !== null ? await ChecklistRepository.findActiveTemplate(categoryId) : null,
+      };
+    }
+
+    if (!target.categoryId) {
+      throw new AppError(
+        'Missing required parameters',
+        [{ message: 'Error.MissingParameters', path: ['bookingId', 'categoryId'] }],
+        { staffId },
+        400
+      );
+    }
+
+    if (!(await ChecklistRepository.hasStaffCategory(staffId, target.categoryId))) {
+      throw new AppError(
+        'Staff member does not work in this category',
+        [{ message: 'Error.CategoryNotAssigned', path: ['categoryId'] }],
+        { staffId, categoryId: target.categoryId },
+        403
+      );
+    }
+
+    return {
+      bookingId: null,
+      categoryId: target.categoryId,
+      template: await ChecklistRepository.findActiveTemplate(target.categoryId),
+    };
+  },
+};
@@ -0,0 +1,24 @@
+import { StockReleaseSweeper } from '../jobs/stock-release-sweeper';
+import { InventoryRepository } from '../repositories/inventory.repository';
+
+export const stockReleaseSweeper = new StockReleaseSweeper({
+  findReleasableBookings: () => InventoryRepository.findReleasableBookings(),
+  releaseForBooking: (bookingId) => InventoryRepository.releaseForBooking(bookingId),
+});
+
+export const InventoryService = {
+  /**
+   * Parts the staff member can add to a proposal
+   * @param staffId - Staff identifier; the search covers their provider's items
+   * @param search - Name, brand or model fragment, stock filter and paging
+   * @returns Matching active items with the stock not yet reserved
+   */
+  async searchItems(staffId: number, search: { query?: string; inStockOnly: boolean; page: number; limit: number }) {
+    return InventoryRepository.searchItems(staffId, {
+      query: search.query || undefined,
+      inStockOnly: search.inStockOnly,
+      page: search.page,
+      limit: search.limit,
+    });
+  },
+};
@@ -0,0 +1,49 @@
+import { Coordinates } from '../geo/distance';
+import { createGeocoder, Geocoder } from '../geo/geocoder';
+import { JobLocationRepository } from '../repositories/job-location.repository';
+
+let geocoder: Geocoder | null = null;
+
+const getGeocoder = () => (geocoder ??= createGeocoder());
+
+export const JobLocationService = {
+  /**
+   * Replaces the geocoder, e.g. with a StubGeocoder in tests
+   * @param replacement - Geocoder to use for later lookups
+   */
+  useGeocoder(replacement: Geocoder) {
+    geocoder = replacement;
+  },
+
+  /**
+   * Coordinates of the booking's job site, geocoded from the service request
+   * location on first use and stored for later sessions
+   * @param bookingId - Booking identifier
+   * @returns Coordinates, or null when the address can't be located
+   */
+  async resolveForBooking(bookingId: number): Promise<Coordinates | null> {
+    const request = await JobLocationRepository.findByBookingId(bookingId);
+    if (!request?.location) return null;
+
+    const stored = request.JobLocation;
+    if (stored && stored.address === request.location) {
+      return { latitude: stored.latitude, longitude: stored.longitude };
+    }
+
+    const active = getGeocoder();
+    let coordinates: Coordinates | null;
+
+    try {
+      coordinates = await active.geocode(request.location);
+    } catch (error) {
+      console.error('❌ Geocoding failed:', { bookingId, error: (error as Error).message });
+      return null;
+    }
+
+    if (coordinates) {
+      await JobLocationRepository.save(request.id, request.location, coordinates, active.name);
+    }
+
+    return coordinates;
+  },
+};
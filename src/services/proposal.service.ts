@@ -0,0 +1,55 @@
+import { AppError } from '../handlers/error';
+import { ProposalLineInput } from '../proposal/pricing';
+import { ProposalRepository } from '../repositories/proposal.repository';
+
+interface ProposalDto {
+  bookingId: number;
+  notes?: string;
+  items?: ProposalLineInput[];
+}
+
+export const ProposalService = {
+  /**
+   * Quotes an inspected booking with the provider's services and parts
+   * @param staffId - Staff identifier
+   * @param dto - Booking, notes and lines; prices are looked up, never taken from the caller
+   * @returns The PENDING proposal with its line and grand totals
+   */
+  async createProposal(staffId: number, dto: ProposalDto) {
+    if (!dto.items || dto.items.length === 0) {
+      throw new AppError(
+        'Missing required fields',
+        [{ message: 'Error.MissingRequiredFields', path: ['items'] }],
+        { bookingId: dto.bookingId },
+        400
+      );
+    }
+
+    return ProposalRepository.createProposal(staffId, dto.bookingId, {
+      notes: dto.notes || undefined,
+      lines: dto.items,
+    });
+  },
+
+  /**
+   * Revises a proposal the customer has not accepted or rejected yet
+   * @param staffId - Staff identifier
+   * @param dto - Booking plus new notes and/or a full replacement of the lines
+   * @returns The repriced proposal
+   */
+  async updateProposal(staffId: number, dto: ProposalDto) {
+    if (dto.notes === undefined && dto.items === undefined) {
+      throw new AppError(
+        'No valid update data provided',
+        [{ message: 'Error.NoValidUpdateData', path: ['notes', 'items'] }],
+        { bookingId: dto.bookingId },
+        400
+      );
+    }
+
+    return ProposalRepository.updateProposal(staffId, dto.bookingId, {
+      notes: dto.notes,
+      lines: dto.items,
+    });
+  },
+};
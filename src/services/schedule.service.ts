@@ -0,0 +1,144 @@
+import { Coordinates } from '../geo/distance';
+import {
+  createDistanceMatrix,
+  DistanceMatrix,
+  HaversineDistanceMatrix,
+  TravelEstimate,
+} from '../geo/distance-matrix';
+import { ScheduleRepository } from '../repositories/schedule.repository';
+import { bookingWindow, findConflicts } from '../schedule/conflicts';
+import { rangeBounds, resolveDateRange } from '../schedule/date-range';
+import { CalendarEvent, renderCalendar } from '../schedule/ical';
+import { planRoute, RouteStop } from '../schedule/route';
+
+// Range scanned when no toDate is given, and the longest range accepted
+const CONFLICT_RANGE = { defaultDays: 7, maxDays: 62 };
+const CALENDAR_RANGE = { defaultDays: 31, maxDays: 93 };
+
+let distanceMatrix: DistanceMatrix | null = null;
+
+const getDistanceMatrix = () => (distanceMatrix ??= createDistanceMatrix());
+
+// Falls back to the offline estimate when a remote matrix is unavailable
+const measure = async (points: Coordinates[]) => {
+  const active = getDistanceMatrix();
+
+  try {
+    return { name: active.name, matrix: await active.measure(points) };
+  } catch (error) {
+    console.error('❌ Distance matrix failed:', { matrix: active.name, error: (error as Error).message });
+    const fallback = new HaversineDistanceMatrix();
+    return { name: fallback.name, matrix: await fallback.measure(points) };
+  }
+};
+
+// Measures every located stop (and the start position) once, then looks legs up by stop index
+const measureStops = async (stops: RouteStop[], startPosition?: Coordinates) => {
+  const points: Coordinates[] = startPosition ? [startPosition] : [];
+  const pointOf = stops.map((stop) => (stop.coordinates ? points.push(stop.coordinates) - 1 : null));
+
+  const { name, matrix } = points.length > 1 ? await measure(points) : { name: getDistanceMatrix().name, matrix: [] };
+
+  const travel = (from: number | null, to: number): TravelEstimate | null => {
+    const origin = from === null ? (startPosition ? 0 : null) : pointOf[from];
+    const destination = pointOf[to];
+    if (origin === null || destination === null) return null;
+    return matrix[origin]?.[destination] ?? null;
+  };
+
+  return { name, travel };
+};
+
+export const ScheduleService = {
+  /**
+   * Replaces the distance matrix, e.g. with a fixed one in tests
+   * @param replacement - Distance matrix to use for later route plans
+   */
+  useDistanceMatrix(replacement: DistanceMatrix) {
+    distanceMatrix = replacement;
+  },
+
+  /**
+   * Bookings of a staff member whose time windows overlap
+   * @param staffId - Staff identifier
+   * @param fromDate - First date (YYYY-MM-DD), defaults to today
+   * @param toDate - Last date (YYYY-MM-DD), defaults to a week from fromDate
+   * @returns Each booking's window and every overlapping pair
+   */
+  async getScheduleConflicts(staffId: number, fromDate?: string, toDate?: string) {
+    const range = resolveDateRange(CONFLICT_RANGE, fromDate, toDate);
+    const { start, end } = rangeBounds(range);
+
+    const bookings = await ScheduleRepository.findScheduledBookings(staffId, start, end);
+    const windows = bookings.map(bookingWindow);
+
+    return { ...range, bookings: windows, conflicts: findConflicts(windows) };
+  },
+
+  /**
+   * Visiting order for a staff member's jobs on one day, with travel between stops
+   * @param staffId - Staff identifier
+   * @param date - Day to plan (YYYY-MM-DD)
+   * @param startPosition - Where the staff member sets off from, if known
+   * @returns Ordered stops with estimated arrival times and the jobs that can't be reached in time
+   */
+  async getDailyRoute(staffId: number, date: string, startPosition?: Coordinates) {
+    const { start, end } = rangeBounds({ fromDate: date, toDate: date });
+
+    const jobs = await ScheduleRepository.findScheduledBookings(staffId, start, end);
+    const stops: RouteStop[] = jobs.map((job) => ({
+      ...bookingWindow(job),
+      address: job.address,
+      coordinates: job.coordinates,
+    }));
+
+    const { name, travel } = await measureStops(stops, startPosition);
+
+    return {
+      date,
+      distanceMatrix: name,
+      ...planRoute(stops, travel, startPosition !== undefined),
+    };
+  },
+
+  /**
+   * Renders a staff member's bookings as an iCalendar (RFC 5545) file
+   * @param staffId - Staff identifier
+   * @param fromDate - First date (YYYY-MM-DD), defaults to today
+   * @param toDate - Last date (YYYY-MM-DD), defaults to 30 days after fromDate
+   * @returns Calendar text with one event per booking, keyed by booking id
+   */
+  async exportCalendar(staffId: number, fromDate?: string, toDate?: string) {
+    const range = resolveDateRange(CALENDAR_RANGE, fromDate, toDate);
+    const { start, end } = rangeBounds(range);
+
+    const bookings = await ScheduleRepository.findCalendarBookings(staffId, start, end);
+    const events: CalendarEvent[] = bookings.map((booking) => {
+      const window = bookingWindow(booking);
+
+      return {
+        bookingId: booking.bookingId,
+        start: window.start,
+        end: window.end,
+        status: booking.status,
+        summary: `${booking.categoryName} – ${booking.customerName}`,
+        location: booking.address,
+        description: [
+          `Customer: ${booking.customerName}`,
+          `Phone: ${booking.customerPhone}`,
+          `Booking #${booking.bookingId} (${booking.status})`,
+          ...(booking.note ? [`Note: ${booking.note}`] : []),
+        ].join('\n'),
+        lastModified: booking.updatedAt,
+      };
+    });
+
+    return {
+      ...range,
+      filename: `staff-${staffId}-${range.fromDate}-${range.toDate}.ics`,
+      contentType: 'text/calendar; charset=utf-8',
+      events: events.length,
+      calendar: renderCalendar(events, 'Home Care jobs'),
+    };
+  },
+};
@@ -1,11 +1,19 @@
+import { ProposalRepository } from '../repositories/proposal.repository';
 import { StaffRepository } from '../repositories/staff.repository';
 import {
+  BookingDateField,
   CreateInspectionReportDto,
   UpdateInspectionReportDto,
   UpdateInspectionStatusDto,
 } from '../schemas/type';
 import { AppError } from '../handlers/error';
 import { BookingStatus } from '../generated/prisma';
+import { evaluateGeofence, GEOFENCE_CONFIG, ReportedPosition } from '../geo/geofence';
+import { inlinePhotos } from '../inspection/photos';
+import { assertInspectionId } from '../inspection/report-access';
+import { RevisionSelection, selectRevisions } from '../proposal/revisions';
+import { AvailabilityService } from './availability.service';
+import { JobLocationService } from './job-location.service';
 
 const DEFAULT_PAGE = 1;
 const DEFAULT_LIMIT = 10;
@@ -24,6 +32,32 @@ interface DateRangeQuery {
   toDate?: string;
 }
 
+interface WorkSessionOptions {
+  note?: string;
+  position?: ReportedPosition;
+}
+
+// Measures the reported position against the job site before a session opens or closes
+const verifySessionLocation = async (staffId: number, bookingId: number, position?: ReportedPosition) => {
+  if (GEOFENCE_CONFIG.MODE === 'off') return evaluateGeofence(null, position);
+
+  // Before geocoding, so staff can't have the job sites of other bookings looked up
+  await StaffRepository.assertBookingOwner(staffId, bookingId);
+
+  const job = await JobLocationService.resolveForBooking(bookingId);
+  return evaluateGeofence(job, position);
+};
+
+const validateWorkSessionIds = (staffId: number, bookingId: number) => {
+  if (!staffId || !bookingId) {
+    throw new AppError(
+      'Missing required parameters',
+      [{ message: 'Error.MissingParameters', path: ['staffId', 'bookingId'] }],
+      { staffId, bookingId },
+      400
+    );
+  }
+};
 
 export const StaffService = {
   /**
@@ -38,6 +72,7 @@ export const StaffService = {
       status?: string;
       fromDate?: string;
       toDate?: string;
+      dateField?: BookingDateField;
       keyword?: string;
     } = {}
   ) {
@@ -85,11 +120,12 @@ export const StaffService = {
 
   /**
    * Creates an inspection report for a booking
-   * @param dto - Inspection report creation data
+   * @param dto - Inspection report creation data; the staff member must be assigned to the booking
+   * @param attachments - Photos sent inline with the request, stored after the linked images
    * @returns Created inspection report
    */
-  async createInspectionReport(dto: CreateInspectionReportDto) {
-    const { staffId, bookingId, images = [], estimatedTime, note } = dto;
+  async createInspectionReport(dto: CreateInspectionReportDto, attachments: Buffer[] = []) {
+    const { staffId, bookingId, images = [], estimatedTime, note, checklist = [] } = dto;
 
     // Validate required fields
     if (!staffId || !bookingId) {
@@ -102,14 +138,14 @@ export const StaffService = {
     }
 
     const inspectionData = {
-      images,
+      images: [...images, ...inlinePhotos(attachments)],
       estimatedTime,
       note,
       Booking: { connect: { id: bookingId } },
       Staff: { connect: { id: staffId } },
     };
 
-    return StaffRepository.createInspectionReport(inspectionData);
+    return StaffRepository.createInspectionReport(staffId, inspectionData, checklist);
   },
 
   /**
@@ -138,20 +174,23 @@ export const StaffService = {
 
   /**
    * Retrieves inspection report by ID with error handling
+   * @param staffId - Staff identifier, must own the report
    * @param inspectionId - Inspection report identifier
    * @returns Inspection report details
    */
-  async getInspectionReportById(inspectionId: number) {
-    if (!inspectionId || inspectionId <= 0) {
+  async getInspectionReportById(staffId: number, inspectionId: number) {
+    if (!staffId || !inspectionId) {
       throw new AppError(
-        'Invalid inspection ID',
-        [{ message: 'Error.InvalidInspectionId', path: ['inspectionId'] }],
-        { inspectionId },
+        'Missing required parameters',
+        [{ message: 'Error.MissingParameters', path: ['staffId', 'inspectionId'] }],
+        { staffId, inspectionId },
         400
       );
     }
 
-    return StaffRepository.getInspectionReportById(inspectionId);
+    assertInspectionId(inspectionId);
+
+    return StaffRepository.getInspectionReportById(staffId, inspectionId);
   },
 
   /**
@@ -175,38 +214,41 @@ export const StaffService = {
 
   /**
    * Updates inspection report with validation and optimization
+   * @param staffId - Staff identifier, must own the report
    * @param inspectionId - Inspection report identifier
    * @param dto - Update data
    * @returns Updated inspection report
    */
   async updateInspectionReport(
+    staffId: number,
     inspectionId: number,
     dto: UpdateInspectionReportDto
   ) {
-    const { note, images, estimatedTime } = dto;
+    const { note, images, estimatedTime, checklist = [] } = dto;
 
     // Early validation for empty updates
     const hasValidUpdates = Boolean(
       note?.trim() ||
       (images && images.length > 0) ||
-      estimatedTime
+      estimatedTime ||
+      checklist.length > 0
     );
 
     if (!hasValidUpdates) {
       throw new AppError(
         'No valid update data provided',
-        [{ message: 'Error.NoValidUpdateData', path: ['note', 'images', 'estimatedTime'] }],
+        [{ message: 'Error.NoValidUpdateData', path: ['note', 'images', 'estimatedTime', 'checklist'] }],
         { inspectionId, dto },
         400
       );
     }
 
-    const updateData: Partial<UpdateInspectionReportDto> = {};
+    const updateData: Partial<Omit<UpdateInspectionReportDto, 'checklist'>> = {};
     if (note?.trim()) updateData.note = note.trim();
     if (images && images.length > 0) updateData.images = images;
     if (estimatedTime) updateData.estimatedTime = estimatedTime;
 
-    return StaffRepository.updateInspectionReport(inspectionId, updateData);
+    return StaffRepository.updateInspectionReport(staffId, inspectionId, updateData, checklist);
   },
 
   /**
@@ -259,9 +301,10 @@ export const StaffService = {
    * Creates work log and updates booking status atomically
    * @param staffId - Staff identifier
    * @param bookingId - Booking identifier
+   * @param position - Staff member's current position, checked against the geofence
    * @returns Work log creation result
    */
-  async createWorkLogWithStatusUpdate(staffId: number, bookingId: number) {
+  async createWorkLogWithStatusUpdate(staffId: number, bookingId: number, position?: ReportedPosition) {
     // Validate required parameters
     if (!staffId || !bookingId) {
       throw new AppError(
@@ -272,15 +315,27 @@ export const StaffService = {
       );
     }
 
-    return StaffRepository.createWorkLogWithStatusUpdate(staffId, bookingId);
+    const location = await verifySessionLocation(staffId, bookingId, position);
+    return StaffRepository.createWorkLogWithStatusUpdate(staffId, bookingId, location);
   },
 
   /**
    * Checks out work log for a booking
+   * @param staffId - Staff identifier, must be assigned to the booking
    * @param bookingId - Booking identifier
+   * @param position - Staff member's current position, checked against the geofence
    * @returns Check-out result
    */
-  async checkOutWorkLog(bookingId: number) {
+  async checkOutWorkLog(staffId: number, bookingId: number, position?: ReportedPosition) {
+    if (!staffId || staffId <= 0) {
+      throw new AppError(
+        'Invalid staff ID',
+        [{ message: 'Error.InvalidStaffId', path: ['staffId'] }],
+        { staffId },
+        400
+      );
+    }
+
     if (!bookingId || bookingId <= 0) {
       throw new AppError(
         'Invalid booking ID',
@@ -290,7 +345,105 @@ export const StaffService = {
       );
     }
 
-    return StaffRepository.checkOutWorkLogByBookingId(bookingId);
+    const location = await verifySessionLocation(staffId, bookingId, position);
+    return StaffRepository.checkOutWorkLogByBookingId(staffId, bookingId, location);
+  },
+
+  /**
+   * Pauses the open work session, e.g. for a break or to fetch parts
+   * @param staffId - Staff identifier, must be assigned to the booking
+   * @param bookingId - Booking identifier
+   * @param options - Optional reason for the pause and current position
+   * @returns Closed work session
+   */
+  async pauseWork(staffId: number, bookingId: number, options: WorkSessionOptions = {}) {
+    validateWorkSessionIds(staffId, bookingId);
+    const location = await verifySessionLocation(staffId, bookingId, options.position);
+    return StaffRepository.pauseWorkLog(staffId, bookingId, options.note, location);
+  },
+
+  /**
+   * Opens a new work session after a pause
+   * @param staffId - Staff identifier, must be assigned to the booking
+   * @param bookingId - Booking identifier
+   * @param position - Staff member's current position, checked against the geofence
+   * @returns New work session
+   */
+  async resumeWork(staffId: number, bookingId: number, position?: ReportedPosition) {
+    validateWorkSessionIds(staffId, bookingId);
+    const location = await verifySessionLocation(staffId, bookingId, position);
+    return StaffRepository.resumeWorkLog(staffId, bookingId, location);
+  },
+
+  /**
+   * Closes any open session and completes the booking
+   * @param staffId - Staff identifier, must be assigned to the booking
+   * @param bookingId - Booking identifier
+   * @param options - Optional closing note for the last session and current position
+   * @returns Session count and total hours across all sessions
+   */
+  async finishJob(staffId: number, bookingId: number, options: WorkSessionOptions = {}) {
+    validateWorkSessionIds(staffId, bookingId);
+    const location = await verifySessionLocation(staffId, bookingId, options.position);
+    return StaffRepository.finishJob(staffId, bookingId, options.note, location);
+  },
+
+  /**
+   * Resolves the check-in/check-out policy that applies to a booking
+   * @param staffId - Staff identifier, must be assigned to the booking
+   * @param bookingId - Booking identifier
+   * @returns Policy with the first check-in window it allows
+   */
+  async getWorkPolicy(staffId: number, bookingId: number) {
+    validateWorkSessionIds(staffId, bookingId);
+    return StaffRepository.getWorkPolicyForBooking(staffId, bookingId);
+  },
+
+  /**
+   * Lists bookings assigned to the staff member that still await their answer
+   * @param staffId - Staff identifier
+   * @param query - Pagination parameters
+   * @returns Paginated pending bookings, soonest preferred date first
+   */
+  async getPendingAssignments(staffId: number, query: PaginationQuery = {}) {
+    const page = Math.max(query.page ?? DEFAULT_PAGE, DEFAULT_PAGE);
+    const limit = Math.min(Math.max(query.limit ?? DEFAULT_LIMIT, MIN_LIMIT), MAX_LIMIT);
+
+    return StaffRepository.getPendingAssignments(staffId, page, limit);
+  },
+
+  /**
+   * Accepts an assigned booking, moving it from PENDING to CONFIRMED
+   * @param staffId - Staff identifier, must be assigned to the booking
+   * @param bookingId - Booking identifier
+   * @returns Booking status after accepting
+   */
+  async acceptBooking(staffId: number, bookingId: number) {
+    validateWorkSessionIds(staffId, bookingId);
+    return StaffRepository.acceptBooking(staffId, bookingId);
+  },
+
+  /**
+   * Declines an assigned or accepted booking that has not been started,
+   * leaving it unassigned and PENDING for the provider to reassign
+   * @param staffId - Staff identifier, must be assigned to the booking
+   * @param bookingId - Booking identifier
+   * @param reason - Why the staff member can't take the job, shown to the provider
+   * @returns The recorded decline
+   */
+  async declineBooking(staffId: number, bookingId: number, reason: string) {
+    validateWorkSessionIds(staffId, bookingId);
+
+    if (!reason?.trim()) {
+      throw new AppError(
+        'A reason is required to decline a booking',
+        [{ message: 'Error.MissingRequiredFields', path: ['reason'] }],
+        { bookingId },
+        400
+      );
+    }
+
+    return StaffRepository.declineBooking(staffId, bookingId, reason.trim());
   },
 
   /**
@@ -299,13 +452,17 @@ export const StaffService = {
    * @param date - Date in YYYY-MM-DD format
    * @param page - Page number (default: 1)
    * @param limit - Items per page (default: 10)
+   * @param checkAvailability - Flag bookings whose preferred date is outside the staff member's availability
+   * @param dateField - Booking date matched against the day, in the business time zone (default: preferredDate)
    * @returns Paginated bookings for the date
    */
   async getBookingsByDate(
     staffId: number,
     date: string,
     page = DEFAULT_PAGE,
-    limit = DEFAULT_LIMIT
+    limit = DEFAULT_LIMIT,
+    checkAvailability = false,
+    dateField: BookingDateField = 'preferredDate'
   ) {
     if (!date || !/^\d{4}-\d{2}-\d{2}$/.test(date)) {
       throw new AppError(
@@ -319,12 +476,30 @@ export const StaffService = {
     const sanitizedPage = Math.max(page, DEFAULT_PAGE);
     const sanitizedLimit = Math.min(Math.max(limit, MIN_LIMIT), MAX_LIMIT);
 
-    return StaffRepository.getBookingsByDate(
+    const result = await StaffRepository.getBookingsByDate(
       staffId,
       date,
       sanitizedPage,
-      sanitizedLimit
+      sanitizedLimit,
+      dateField
     );
+
+    if (!checkAvailability) return result;
+
+    const scheduled = result.bookingsByDate.filter((booking) => booking.serviceRequest);
+    const checks = await AvailabilityService.checkTimes(
+      staffId,
+      scheduled.map((booking) => booking.serviceRequest!.preferredDate)
+    );
+    const availabilityById = new Map(scheduled.map((booking, index) => [booking.id, checks[index]]));
+
+    return {
+      ...result,
+      bookingsByDate: result.bookingsByDate.map((booking) => ({
+        ...booking,
+        availability: availabilityById.get(booking.id) ?? null,
+      })),
+    };
   },
 
   /**
@@ -332,9 +507,15 @@ export const StaffService = {
    * @param staffId - Staff identifier
    * @param month - Month (1-12)
    * @param year - Year (YYYY)
+   * @param dateField - Booking date that places a completed booking in the month (default: preferredDate)
    * @returns Monthly statistics including total bookings
    */
-  async getMonthlyStats(staffId: number, month: number, year: number) {
+  async getMonthlyStats(
+    staffId: number,
+    month: number,
+    year: number,
+    dateField: BookingDateField = 'preferredDate'
+  ) {
     // Validate month and year
     if (!month || month < 1 || month > 12) {
       throw new AppError(
@@ -355,7 +536,7 @@ export const StaffService = {
       );
     }
 
-    return StaffRepository.getMonthlyStats(staffId, month, year);
+    return StaffRepository.getMonthlyStats(staffId, month, year, dateField);
   },
 
   async getAllInspectionReportsByStaff(
@@ -374,7 +555,14 @@ export const StaffService = {
     return await StaffRepository.getAllInspectionReports(staffId, options);
   },
   
-  async getBookingWorkflow(staffId: number, bookingId: number) {
+  /**
+   * Proposal of a booking with its version history
+   * @param staffId - Staff identifier
+   * @param bookingId - Booking owned by the staff member
+   * @param selection - Version to show (current by default) and version to diff it against (the previous one by default)
+   * @returns Current proposal, version list, the chosen version as quoted and its diff
+   */
+  async getBookingWorkflow(staffId: number, bookingId: number, selection: RevisionSelection = {}) {
   if (!staffId || !bookingId) {
     throw new AppError(
       'Missing required parameters',
@@ -395,7 +583,21 @@ export const StaffService = {
     );
   }
 
-  return result;
+  const revisions = await ProposalRepository.findRevisions(result.id);
+
+  return {
+    ...result,
+    versions: revisions.map(({ version, totalPrice, staffId: quotedBy, createdAt }) => ({
+      version,
+      totalPrice,
+      staffId: quotedBy,
+      createdAt,
+    })),
+    ...selectRevisions(revisions, result.currentVersion, {
+      version: selection.version,
+      compareTo: selection.compareTo,
+    }),
+  };
 }
   
 } as const;
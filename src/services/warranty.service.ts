@@ -0,0 +1,38 @@
+import { AppError } from '../handlers/error';
+import { WarrantyRepository } from '../repositories/warranty.repository';
+
+export const WarrantyService = {
+  /**
+   * Warranties on a past booking or held by a customer, for checking a
+   * repeat visit
+   * @param staffId - Staff identifier; only their provider's warranties are searched
+   * @param query - Booking or customer to look up
+   * @returns Warranties with whether each still applies and its claims
+   */
+  async lookupWarranty(staffId: number, query: { bookingId?: number; customerId?: number }) {
+    if (query.bookingId === undefined && query.customerId === undefined) {
+      throw new AppError(
+        'Missing required parameters',
+        [{ message: 'Error.MissingParameters', path: ['bookingId', 'customerId'] }],
+        { staffId },
+        400
+      );
+    }
+
+    return WarrantyRepository.lookup(staffId, query);
+  },
+
+  /**
+   * Opens a warranty-claim booking for a return visit
+   * @param staffId - Staff identifier; the claim booking is assigned to them
+   * @param claim - Running warranty, what failed and when to come back
+   * @returns Claim with the new booking and the original it is tied to
+   */
+  async openClaim(staffId: number, claim: { warrantyId: number; description: string; preferredDate: string }) {
+    return WarrantyRepository.openClaim(staffId, {
+      warrantyId: claim.warrantyId,
+      description: claim.description,
+      preferredDate: new Date(claim.preferredDate),
+    });
+  },
+};
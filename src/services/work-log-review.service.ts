@@ -0,0 +1,120 @@
+import { StaffIdentity } from '../auth/identity';
+import { WorkLogEndReason } from '../generated/prisma';
+import { AppError } from '../handlers/error';
+import { WorkLogSweeper } from '../jobs/work-log-sweeper';
+import { AutoClosedLogQuery, WorkLogReviewRepository } from '../repositories/work-log-review.repository';
+import { WorkPolicyRepository } from '../repositories/work-policy.repository';
+
+interface WorkLogCorrectionInput {
+  workLogId: number;
+  // Defaults to the recorded check-in
+  checkIn?: Date;
+  checkOut: Date;
+  note?: string;
+}
+
+export const workLogSweeper = new WorkLogSweeper({
+  findOpenSessions: () => WorkLogReviewRepository.findOpenSessions(),
+  resolvePolicy: (providerId, categoryId) => WorkPolicyRepository.resolve(providerId, categoryId),
+  autoClose: (sessionId, checkOut, now) => WorkLogReviewRepository.autoClose(sessionId, checkOut, now),
+});
+
+const denyAccess = (message: string, details: Record<string, unknown>) =>
+  new AppError(message, [{ message: 'Error.UnauthorizedAccess', path: ['staffId'] }], details, 403);
+
+// Managers see their provider's queue, staff only their own logs
+const scopeQuery = (query: AutoClosedLogQuery, identity: StaffIdentity): AutoClosedLogQuery => {
+  if (identity.managedProviderId !== null) {
+    if (query.providerId !== undefined && query.providerId !== identity.managedProviderId) {
+      throw denyAccess('Access denied: Provider is not managed by you', {
+        providerId: query.providerId,
+        managedProviderId: identity.managedProviderId,
+      });
+    }
+    return { ...query, providerId: identity.managedProviderId };
+  }
+
+  if (identity.staffId === null) {
+    throw denyAccess('Access denied: Caller is neither a staff member nor a provider manager', {
+      userId: identity.userId,
+    });
+  }
+
+  if (query.staffId !== undefined && query.staffId !== identity.staffId) {
+    throw denyAccess('Access denied: Staff does not own these work logs', {
+      staffId: query.staffId,
+      authenticatedStaffId: identity.staffId,
+    });
+  }
+  return { ...query, staffId: identity.staffId };
+};
+
+export const WorkLogReviewService = {
+  /**
+   * Work logs the sweeper closed with an estimated check-out
+   * @param query - Provider/staff filter, review status and pagination
+   * @param identity - Authenticated caller, narrows the query to what they may see
+   * @returns Paginated auto-closed logs, most recently closed first
+   */
+  async listAutoClosedLogs(query: AutoClosedLogQuery, identity: StaffIdentity) {
+    return WorkLogReviewRepository.listAutoClosed(scopeQuery(query, identity));
+  },
+
+  /**
+   * Replaces the estimated times of an auto-closed work log
+   * @param input - Work log identifier, corrected times and an optional note
+   * @param identity - Authenticated caller, must manage the booking's provider
+   * @returns Corrected work log
+   */
+  async correctWorkLog(input: WorkLogCorrectionInput, identity: StaffIdentity) {
+    if (identity.managedProviderId === null) {
+      throw denyAccess('Access denied: Only provider managers can correct work logs', { userId: identity.userId });
+    }
+
+    const log = await WorkLogReviewRepository.findWithProvider(input.workLogId);
+
+    if (!log) {
+      throw new AppError(
+        'Work log not found',
+        [{ message: 'Error.WorkLogNotFound', path: ['workLogId'] }],
+        { workLogId: input.workLogId },
+        404
+      );
+    }
+
+    if (log.Booking.providerId !== identity.managedProviderId) {
+      throw denyAccess('Access denied: Work log belongs to another provider', {
+        workLogId: input.workLogId,
+        managedProviderId: identity.managedProviderId,
+      });
+    }
+
+    if (log.endReason !== WorkLogEndReason.AUTO_CLOSED) {
+      throw new AppError(
+        'Only auto-closed work logs can be corrected',
+        [{ message: 'Error.WorkLogNotAutoClosed', path: ['workLogId'] }],
+        { workLogId: input.workLogId, endReason: log.endReason },
+        400
+      );
+    }
+
+    const checkIn = input.checkIn ?? log.checkIn!;
+    const now = new Date();
+
+    if (input.checkOut <= checkIn || input.checkOut > now) {
+      throw new AppError(
+        'Check-out must be after check-in and not in the future',
+        [{ message: 'Error.InvalidCorrectionTimes', path: ['checkOut'] }],
+        { checkIn, checkOut: input.checkOut, now },
+        400
+      );
+    }
+
+    return WorkLogReviewRepository.correct(input.workLogId, {
+      checkIn,
+      checkOut: input.checkOut,
+      note: input.note,
+      correctedById: identity.userId,
+    });
+  },
+};
@@ -0,0 +1,239 @@
+import { BookingStatus, Prisma, RequestStatus, TransitionActorType } from '../generated/prisma';
+import { AppError } from '../handlers/error';
+import { commitReserved, releaseReserved } from '../inventory/reservations';
+import { issueWarranties } from '../warranty/issue';
+
+type Tx = Prisma.TransactionClient;
+
+export interface TransitionActor {
+  type: TransitionActorType;
+  // Staff/user id of the actor, null for SYSTEM
+  id?: number | null;
+}
+
+export interface TransitionOptions {
+  actor: TransitionActor;
+  reason?: string;
+}
+
+export interface TransitionResult<S> {
+  from: S;
+  to: S;
+  // False when the entity was already in the target status
+  changed: boolean;
+}
+
+/**
+ * Legal status moves. Anything not listed is rejected; terminal statuses have
+ * no outgoing transitions.
+ */
+export const BOOKING_TRANSITIONS: Record<BookingStatus, readonly BookingStatus[]> = {
+  // Bookings assigned straight to staff may never be confirmed before the job is done
+  [BookingStatus.PENDING]: [BookingStatus.CONFIRMED, BookingStatus.COMPLETED, BookingStatus.CANCELLED],
+  // Back to PENDING only when the accepting staff member hands the booking back
+  [BookingStatus.CONFIRMED]: [BookingStatus.PENDING, BookingStatus.COMPLETED, BookingStatus.CANCELLED],
+  [BookingStatus.COMPLETED]: [],
+  [BookingStatus.CANCELLED]: [],
+};
+
+export const REQUEST_TRANSITIONS: Record<RequestStatus, readonly RequestStatus[]> = {
+  // An inspection report can be filed without a prior check-in
+  [RequestStatus.PENDING]: [RequestStatus.IN_PROGRESS, RequestStatus.ESTIMATED, RequestStatus.CANCELLED],
+  [RequestStatus.IN_PROGRESS]: [RequestStatus.ESTIMATED, RequestStatus.CANCELLED],
+  [RequestStatus.ESTIMATED]: [RequestStatus.CANCELLED],
+  [RequestStatus.CANCELLED]: [],
+};
+
+export function canTransitionBooking(from: BookingStatus, to: BookingStatus): boolean {
+  return from === to || BOOKING_TRANSITIONS[from].includes(to);
+}
+
+export function canTransitionRequest(from: RequestStatus, to: RequestStatus): boolean {
+  return from === to || REQUEST_TRANSITIONS[from].includes(to);
+}
+
+// Request statuses a started job carries on under; filing the inspection moves it to ESTIMATED mid-job
+const WORKING_REQUEST_STATUSES: readonly RequestStatus[] = [RequestStatus.IN_PROGRESS, RequestStatus.ESTIMATED];
+
+/**
+ * Whether staff may open a work session on a booking. Only the first session
+ * starts the request; later ones continue it, including once the inspection
+ * has moved it on to ESTIMATED.
+ */
+export function canStartWork(
+  bookingStatus: BookingStatus,
+  requestStatus: RequestStatus | undefined,
+  firstSession: boolean
+): boolean {
+  if (!BOOKING_TRANSITIONS[bookingStatus].includes(BookingStatus.COMPLETED)) return false;
+  if (!requestStatus) return true;
+
+  return WORKING_REQUEST_STATUSES.includes(requestStatus)
+    || (firstSession && canTransitionRequest(requestStatus, RequestStatus.IN_PROGRESS));
+}
+
+function assertTransition(entity: 'Booking' | 'ServiceRequest', id: number, from: string, to: string, allowed: boolean) {
+  if (allowed) return;
+
+  throw new AppError(
+    `${entity} cannot move from ${from} to ${to}`,
+    [{ message: 'Error.InvalidStatusTransition', path: ['status'] }],
+    { entity, id, from, to },
+    409
+  );
+}
+
+// Checked after the transition table; a returned string is the rejection reason
+type BookingGuard = (booking: { id: number; staffId: number | null }) => string | null;
+
+const BOOKING_GUARDS: Partial<Record<BookingStatus, BookingGuard>> = {
+  [BookingStatus.PENDING]: (booking) => (booking.staffId !== null ? 'Booking is still assigned to staff' : null),
+  [BookingStatus.COMPLETED]: (booking) => (booking.staffId === null ? 'Booking has no assigned staff' : null),
+};
+
+// Run in the transition's transaction once the booking has entered the status
+type BookingEffect = (tx: Tx, bookingId: number, at: Date) => Promise<unknown>;
+
+const BOOKING_EFFECTS: Partial<Record<BookingStatus, BookingEffect>> = {
+  // Parts of the accepted proposal count as used, and warranties start running
+  [BookingStatus.COMPLETED]: async (tx, bookingId, at) => {
+    await commitReserved(tx, bookingId);
+    await issueWarranties(tx, bookingId, at);
+  },
+  // Parts held for the job go back on the shelf, whichever path canceled it
+  [BookingStatus.CANCELLED]: (tx, bookingId) => releaseReserved(tx, bookingId),
+};
+
+/**
+ * Moves a booking to `to`, recording the change in BookingStatusHistory and
+ * applying the status's side effects. Moving to the current status is a
+ * no-op and is neither recorded nor repeated.
+ */
+export async function transitionBooking(
+  tx: Tx,
+  bookingId: number,
+  to: BookingStatus,
+  options: TransitionOptions
+): Promise<TransitionResult<BookingStatus>> {
+  const booking = await tx.booking.findUnique({
+    where: { id: bookingId },
+    select: { id: true, status: true, staffId: true },
+  });
+
+  if (!booking) {
+    throw new AppError(
+      'Booking not found',
+      [{ message: 'Error.BookingNotFound', path: ['bookingId'] }],
+      { bookingId },
+      404
+    );
+  }
+
+  const from = booking.status;
+  if (from === to) return { from, to, changed: false };
+
+  assertTransition('Booking', bookingId, from, to, canTransitionBooking(from, to));
+
+  const rejection = BOOKING_GUARDS[to]?.(booking);
+  if (rejection) {
+    throw new AppError(
+      rejection,
+      [{ message: 'Error.InvalidStatusTransition', path: ['status'] }],
+      { entity: 'Booking', id: bookingId, from, to },
+      409
+    );
+  }
+
+  const now = new Date();
+
+  // Conditional on `from` so a concurrent transition can't be overwritten
+  const { count } = await tx.booking.updateMany({
+    where: { id: bookingId, status: from },
+    data: { status: to, updatedAt: now },
+  });
+  assertNotRaced('Booking', bookingId, from, to, count);
+
+  await tx.bookingStatusHistory.create({
+    data: {
+      bookingId,
+      fromStatus: from,
+      toStatus: to,
+      actorType: options.actor.type,
+      actorId: options.actor.id ?? null,
+      reason: options.reason,
+    },
+  });
+
+  await BOOKING_EFFECTS[to]?.(tx, bookingId, now);
+
+  return { from, to, changed: true };
+}
+
+/**
+ * Moves a service request to `to`, recording the change in
+ * ServiceRequestStatusHistory. Cancelling a request also cancels its booking.
+ */
+export async function transitionServiceRequest(
+  tx: Tx,
+  serviceRequestId: number,
+  to: RequestStatus,
+  options: TransitionOptions
+): Promise<TransitionResult<RequestStatus>> {
+  const request = await tx.serviceRequest.findUnique({
+    where: { id: serviceRequestId },
+    select: { id: true, status: true, Booking: { select: { id: true, status: true } } },
+  });
+
+  if (!request) {
+    throw new AppError(
+      'Service request not found',
+      [{ message: 'NotFound', path: ['serviceRequestId'] }],
+      { serviceRequestId },
+      404
+    );
+  }
+
+  const from = request.status;
+  if (from === to) return { from, to, changed: false };
+
+  assertTransition('ServiceRequest', serviceRequestId, from, to, canTransitionRequest(from, to));
+
+  const { count } = await tx.serviceRequest.updateMany({
+    where: { id: serviceRequestId, status: from },
+    data: { status: to, updatedAt: new Date() },
+  });
+  assertNotRaced('ServiceRequest', serviceRequestId, from, to, count);
+
+  await tx.serviceRequestStatusHistory.create({
+    data: {
+      serviceRequestId,
+      fromStatus: from,
+      toStatus: to,
+      actorType: options.actor.type,
+      actorId: options.actor.id ?? null,
+      reason: options.reason,
+    },
+  });
+
+  // Side effects
+  const booking = request.Booking;
+  if (to === RequestStatus.CANCELLED && booking && BOOKING_TRANSITIONS[booking.status].includes(BookingStatus.CANCELLED)) {
+    await transitionBooking(tx, booking.id, BookingStatus.CANCELLED, {
+      ...options,
+      reason: options.reason ?? 'Service request cancelled',
+    });
+  }
+
+  return { from, to, changed: true };
+}
+
+function assertNotRaced(entity: string, id: number, from: string, to: string, count: number) {
+  if (count > 0) return;
+
+  throw new AppError(
+    `${entity} status changed concurrently`,
+    [{ message: 'Error.InvalidStatusTransition', path: ['status'] }],
+    { entity, id, from, to },
+    409
+  );
+}
@@ -1,16 +1,29 @@
 import net from 'net';
 import dotenv from 'dotenv';
+import { encodeFrame, FrameDecoder, FramingMode, LENGTH_PREFIX_MAGIC } from './framing';
 
 dotenv.config();
 
 const TCP_PORT = parseInt(process.env.TCP_PORT || '4002', 10);
 const TCP_HOST = process.env.TCP_HOST || 'localhost';
+const MAX_RESPONSE_SIZE = parseInt(process.env.MAX_PAYLOAD_SIZE || '1048576', 10);
+
+export interface SendTCPRequestOptions {
+  framing?: FramingMode;
+  // Binary parts sent after the JSON body; requires length-prefixed framing
+  attachments?: Buffer[];
+}
+
+export function sendTCPRequest(message: object, options: SendTCPRequestOptions = {}): Promise<any> {
+  const framing = options.framing ?? (options.attachments?.length ? 'length-prefixed' : 'newline');
 
-export function sendTCPRequest(message: object): Promise<any> {
   return new Promise((resolve, reject) => {
     const client = new net.Socket();
-    const dataToSend = JSON.stringify(message) + '\n';
-    let buffer = '';
+    const frame = encodeFrame(framing, JSON.stringify(message), options.attachments);
+    const dataToSend = framing === 'length-prefixed'
+      ? Buffer.concat([Buffer.from([LENGTH_PREFIX_MAGIC]), frame])
+      : frame;
+    const decoder = new FrameDecoder(MAX_RESPONSE_SIZE, framing);
     let isResolved = false;
 
     const resolveOnce = (data: any) => {
@@ -23,7 +36,7 @@ export function sendTCPRequest(message: object): Promise<any> {
 
     client.connect(TCP_PORT, TCP_HOST, () => {
       try {
-        client.write(dataToSend, 'utf-8');
+        client.write(dataToSend);
       } catch (err: any) {
         console.error('[TCP] Write Error:', err.message);
         reject(err);
@@ -31,23 +44,23 @@ export function sendTCPRequest(message: object): Promise<any> {
       }
     });
 
-    client.setEncoding('utf-8');
-
-    client.on('data', (chunk) => {
-      buffer += chunk;
-
-      let newlineIndex;
-      while ((newlineIndex = buffer.indexOf('\n')) !== -1) {
-        const raw = buffer.slice(0, newlineIndex).trim();
-        buffer = buffer.slice(newlineIndex + 1);
-
-        if (!raw) continue;
+    client.on('data', (chunk: Buffer) => {
+      let frames;
+      try {
+        frames = decoder.push(chunk);
+      } catch (err) {
+        console.error('[TCP] ❌ Failed to decode response frame:', (err as Error).message);
+        reject(err);
+        client.destroy();
+        return;
+      }
 
+      for (const { body } of frames) {
         try {
-          const parsed = JSON.parse(raw);
+          const parsed = JSON.parse(body);
           resolveOnce(parsed);
         } catch (err) {
-          console.error('[TCP] ❌ Failed to parse response:', raw);
+          console.error('[TCP] ❌ Failed to parse response:', body);
           reject(err);
           client.destroy();
         }
@@ -70,3 +83,188 @@ export function sendTCPRequest(message: object): Promise<any> {
     });
   });
 }
+
+
+interface PendingRequest {
+  resolve: (value: any) => void;
+  reject: (reason: Error) => void;
+  timer: NodeJS.Timeout;
+  cleanup: () => void;
+}
+
+export interface TCPRequestOptions {
+  attachments?: Buffer[];
+  timeout?: number;
+  signal?: AbortSignal;
+}
+
+export class TCPAbortError extends Error {
+  constructor() {
+    super('TCP request aborted');
+    this.name = 'AbortError';
+  }
+}
+
+export interface TCPConnectionOptions {
+  host?: string;
+  port?: number;
+  framing?: FramingMode;
+  requestTimeout?: number;
+}
+
+/**
+ * Long-lived connection that multiplexes many requests over one socket.
+ * Every request gets a correlation id; replies may arrive in any order.
+ */
+export class TCPConnection {
+  private socket: net.Socket | null = null;
+  private connecting: Promise<void> | null = null;
+  private pending = new Map<string, PendingRequest>();
+  private nextId = 1;
+
+  private readonly host: string;
+  private readonly port: number;
+  private readonly framing: FramingMode;
+  private readonly requestTimeout: number;
+
+  constructor(options: TCPConnectionOptions = {}) {
+    this.host = options.host ?? TCP_HOST;
+    this.port = options.port ?? TCP_PORT;
+    this.framing = options.framing ?? 'newline';
+    this.requestTimeout = options.requestTimeout ?? 10000;
+  }
+
+  get isConnected(): boolean {
+    return this.socket !== null && !this.socket.destroyed;
+  }
+
+  get inFlight(): number {
+    return this.pending.size;
+  }
+
+  connect(): Promise<void> {
+    if (this.isConnected) return Promise.resolve();
+    if (this.connecting) return this.connecting;
+
+    this.connecting = new Promise<void>((resolve, reject) => {
+      const socket = new net.Socket();
+      const decoder = new FrameDecoder(MAX_RESPONSE_SIZE, this.framing);
+
+      socket.once('connect', () => {
+        if (this.framing === 'length-prefixed') {
+          socket.write(Buffer.from([LENGTH_PREFIX_MAGIC]));
+        }
+        this.socket = socket;
+        this.connecting = null;
+        resolve();
+      });
+
+      socket.on('data', (chunk: Buffer) => this.handleData(socket, decoder, chunk));
+
+      socket.on('error', (err) => {
+        console.error('[TCP] ❌ Connection error:', err.message);
+        if (this.connecting) {
+          this.connecting = null;
+          reject(err);
+        }
+      });
+
+      socket.on('close', () => {
+        console.log('[TCP] 🔌 Connection closed');
+        // A socket replaced by close() and connect() must not fail the new socket's requests
+        if (this.socket !== socket) return;
+        this.socket = null;
+        this.failPending(new Error('TCP connection closed'));
+      });
+
+      socket.setKeepAlive(true, 1000);
+      socket.setNoDelay(true);
+      socket.connect(this.port, this.host);
+    });
+
+    return this.connecting;
+  }
+
+  async request(message: { type: string; data?: any; auth?: { token: string } }, options: TCPRequestOptions = {}): Promise<any> {
+    const { attachments = [], timeout = this.requestTimeout, signal } = options;
+
+    if (signal?.aborted) throw new TCPAbortError();
+    await this.connect();
+
+    const id = `${process.pid}-${this.nextId++}`;
+    const frame = encodeFrame(this.framing, JSON.stringify({ ...message, id }), attachments);
+
+    return new Promise((resolve, reject) => {
+      const timer = setTimeout(() => {
+        this.settle(id, undefined, new Error('TCP Timeout'));
+      }, timeout);
+
+      // The server still finishes an aborted request; its reply is just dropped
+      const onAbort = () => this.settle(id, undefined, new TCPAbortError());
+      signal?.addEventListener('abort', onAbort, { once: true });
+      const cleanup = () => signal?.removeEventListener('abort', onAbort);
+
+      this.pending.set(id, { resolve, reject, timer, cleanup });
+
+      this.socket!.write(frame, (err) => {
+        if (err) this.settle(id, undefined, err);
+      });
+    });
+  }
+
+  close(): void {
+    this.socket?.end();
+    this.socket = null;
+    this.failPending(new Error('TCP connection closed'));
+  }
+
+  private handleData(socket: net.Socket, decoder: FrameDecoder, chunk: Buffer): void {
+    // Late data from a socket that is no longer current has no requests waiting on it
+    if (this.socket !== socket) return;
+
+    let frames;
+    try {
+      frames = decoder.push(chunk);
+    } catch (err) {
+      console.error('[TCP] ❌ Failed to decode response frame:', (err as Error).message);
+      socket.destroy();
+      return;
+    }
+
+    for (const { body } of frames) {
+      let parsed: any;
+      try {
+        parsed = JSON.parse(body);
+      } catch {
+        console.error('[TCP] ❌ Failed to parse response:', body);
+        continue;
+      }
+
+      const id = parsed?.id !== undefined ? String(parsed.id) : undefined;
+      if (!id || !this.pending.has(id)) {
+        console.warn('[TCP] ⚠️ Dropping response without a matching request id:', parsed?.id);
+        continue;
+      }
+
+      this.settle(id, parsed);
+    }
+  }
+
+  private settle(id: string, value?: any, error?: Error): void {
+    const entry = this.pending.get(id);
+    if (!entry) return;
+
+    clearTimeout(entry.timer);
+    entry.cleanup();
+    this.pending.delete(id);
+
+    if (error) entry.reject(error);
+    else entry.resolve(value);
+  }
+
+  private failPending(error: Error): void {
+    for (const id of [...this.pending.keys()]) {
+      this.settle(id, undefined, error);
+    }
+  }
+}
@@ -0,0 +1,70 @@
+import { RpcException } from '@nestjs/microservices';
+import { AppError } from '../handlers/error';
+import { FrameTooLargeError, MalformedFrameError } from './framing';
+
+interface RpcErrorFormat {
+  statusCode?: number;
+  code?: string;
+  message?: any;
+  details?: any;
+}
+
+export interface ErrorResponse {
+  // Correlation id of the failed request, when it could be read
+  id?: string | number;
+  statusCode: number;
+  error: string;
+  message: { message: string; path: string[] };
+  details?: any;
+  timestamp: string;
+}
+
+/**
+ * Error envelope sent back for a failed message. Anything that is not a known
+ * application, RPC or framing error is reported as an unexpected 500.
+ */
+export function toErrorResponse(error: unknown, requestId?: string | number): ErrorResponse {
+  const errorResponse: ErrorResponse = {
+    ...(requestId !== undefined && { id: requestId }),
+    statusCode: 500,
+    error: 'Error.Unexpected',
+    message: { message: 'Internal server error', path: [] },
+    timestamp: new Date().toISOString(),
+  };
+
+  if (error instanceof AppError) {
+    errorResponse.statusCode = error.statusCode || 500;
+    errorResponse.error = error.error || 'AppError';
+    errorResponse.message = {
+      message: error.code,
+      path: error.messageObject?.path || [],
+    };
+    errorResponse.details = error.details;
+  } else if (error instanceof RpcException && typeof error.getError === 'function') {
+    const rpcError = error.getError() as RpcErrorFormat;
+
+    errorResponse.statusCode = rpcError.statusCode || 400;
+    errorResponse.error = rpcError.code || 'Error.Rpc';
+    errorResponse.message = {
+      message: rpcError.message?.message || rpcError.code || 'RPC Error',
+      path: rpcError.message?.path || [],
+    };
+    if (rpcError.details) {
+      errorResponse.details = rpcError.details;
+    }
+  } else if (error instanceof SyntaxError) {
+    errorResponse.statusCode = 400;
+    errorResponse.error = 'Error.InvalidJSON';
+    errorResponse.message = { message: 'Invalid JSON format', path: [] };
+  } else if (error instanceof FrameTooLargeError) {
+    errorResponse.statusCode = 413;
+    errorResponse.error = 'Error.PayloadTooLarge';
+    errorResponse.message = { message: 'Request payload exceeds maximum size', path: [] };
+  } else if (error instanceof MalformedFrameError) {
+    errorResponse.statusCode = 400;
+    errorResponse.error = 'Error.MalformedFrame';
+    errorResponse.message = { message: error.message, path: [] };
+  }
+
+  return errorResponse;
+}
@@ -0,0 +1,229 @@
+import { StringDecoder } from 'string_decoder';
+
+export type FramingMode = 'newline' | 'length-prefixed' | 'nest';
+
+// First byte a length-prefixed client sends on a new connection. 0xFE never
+// starts valid UTF-8, so it can't be confused with newline-delimited JSON.
+export const LENGTH_PREFIX_MAGIC = 0xfe;
+
+const UINT32_BYTES = 4;
+
+// NestJS JsonSocket frames are `<length>#<json>`, length counted in JS string characters
+const NEST_DELIMITER = '#';
+
+export interface DecodedFrame {
+  body: string;
+  attachments: Buffer[];
+}
+
+export class FrameTooLargeError extends Error {
+  constructor() {
+    super('Payload too large');
+    this.name = 'FrameTooLargeError';
+  }
+}
+
+export class MalformedFrameError extends Error {
+  constructor(reason: string) {
+    super(`Malformed frame: ${reason}`);
+    this.name = 'MalformedFrameError';
+  }
+}
+
+/**
+ * Length-prefixed frame layout (all integers uint32 big-endian):
+ *   [frameLength][jsonLength][json][attachmentLength][attachment]...
+ * frameLength counts every byte after itself.
+ */
+export function encodeFrame(mode: FramingMode, body: string, attachments: Buffer[] = []): Buffer {
+  if (mode !== 'length-prefixed' && attachments.length > 0) {
+    throw new Error('Attachments require length-prefixed framing');
+  }
+
+  if (mode === 'newline') {
+    return Buffer.from(body + '\n', 'utf8');
+  }
+
+  if (mode === 'nest') {
+    return Buffer.from(`${body.length}${NEST_DELIMITER}${body}`, 'utf8');
+  }
+
+  const json = Buffer.from(body, 'utf8');
+  const parts: Buffer[] = [uint32(json.length), json];
+  for (const attachment of attachments) {
+    parts.push(uint32(attachment.length), attachment);
+  }
+
+  const payload = Buffer.concat(parts);
+  return Buffer.concat([uint32(payload.length), payload]);
+}
+
+/**
+ * Stateful per-connection decoder. When no mode is given it is detected from
+ * the first byte received: LENGTH_PREFIX_MAGIC selects length-prefixed
+ * framing, an ASCII digit selects NestJS `<length>#<json>` framing, and
+ * anything else falls back to newline-delimited JSON.
+ */
+export class FrameDecoder {
+  private buffer = Buffer.alloc(0);
+  private text = '';
+  private readonly stringDecoder = new StringDecoder('utf8');
+  private detectedMode: FramingMode | null;
+
+  constructor(private readonly maxPayloadSize: number, mode?: FramingMode) {
+    this.detectedMode = mode ?? null;
+  }
+
+  get mode(): FramingMode {
+    return this.detectedMode ?? 'newline';
+  }
+
+  push(chunk: Buffer): DecodedFrame[] {
+    this.buffer = Buffer.concat([this.buffer, chunk]);
+
+    if (this.detectedMode === null) {
+      if (this.buffer.length === 0) return [];
+
+      if (this.buffer[0] === LENGTH_PREFIX_MAGIC) {
+        this.detectedMode = 'length-prefixed';
+        this.buffer = this.buffer.subarray(1);
+      } else if (isAsciiDigit(this.buffer[0])) {
+        this.detectedMode = 'nest';
+      } else {
+        this.detectedMode = 'newline';
+      }
+    }
+
+    switch (this.detectedMode) {
+      case 'length-prefixed':
+        return this.extractLengthPrefixed();
+      case 'nest':
+        return this.extractNest();
+      default:
+        return this.extractNewline();
+    }
+  }
+
+  private extractNest(): DecodedFrame[] {
+    // Lengths are in characters, so decode to text first (keeping split multi-byte sequences)
+    this.text += this.stringDecoder.write(this.buffer);
+    this.buffer = Buffer.alloc(0);
+
+    const frames: DecodedFrame[] = [];
+
+    while (true) {
+      const delimiterIndex = this.text.indexOf(NEST_DELIMITER);
+      if (delimiterIndex === -1) break;
+
+      const rawLength = this.text.substring(0, delimiterIndex);
+      const length = Number(rawLength);
+      if (!/^\d+$/.test(rawLength)) {
+        this.text = '';
+        throw new MalformedFrameError(`corrupted packet length "${rawLength.slice(0, 20)}"`);
+      }
+      if (length > this.maxPayloadSize) {
+        this.text = '';
+        throw new FrameTooLargeError();
+      }
+
+      const start = delimiterIndex + 1;
+      if (this.text.length < start + length) break;
+
+      frames.push({ body: this.text.substring(start, start + length), attachments: [] });
+      this.text = this.text.substring(start + length);
+    }
+
+    if (this.text.length > this.maxPayloadSize) {
+      this.text = '';
+      throw new FrameTooLargeError();
+    }
+
+    return frames;
+  }
+
+  private extractNewline(): DecodedFrame[] {
+    const frames: DecodedFrame[] = [];
+
+    let newlineIndex;
+    while ((newlineIndex = this.buffer.indexOf('\n')) !== -1) {
+      const line = this.buffer.subarray(0, newlineIndex);
+      this.buffer = this.buffer.subarray(newlineIndex + 1);
+
+      if (line.length > this.maxPayloadSize) {
+        throw new FrameTooLargeError();
+      }
+
+      const body = line.toString('utf8').trim();
+      if (body) {
+        frames.push({ body, attachments: [] });
+      }
+    }
+
+    if (this.buffer.length > this.maxPayloadSize) {
+      this.buffer = Buffer.alloc(0);
+      throw new FrameTooLargeError();
+    }
+
+    return frames;
+  }
+
+  private extractLengthPrefixed(): DecodedFrame[] {
+    const frames: DecodedFrame[] = [];
+
+    while (this.buffer.length >= UINT32_BYTES) {
+      const frameLength = this.buffer.readUInt32BE(0);
+
+      if (frameLength > this.maxPayloadSize) {
+        this.buffer = Buffer.alloc(0);
+        throw new FrameTooLargeError();
+      }
+
+      if (this.buffer.length < UINT32_BYTES + frameLength) break;
+
+      const frame = this.buffer.subarray(UINT32_BYTES, UINT32_BYTES + frameLength);
+      this.buffer = this.buffer.subarray(UINT32_BYTES + frameLength);
+
+      frames.push(parseLengthPrefixedFrame(frame));
+    }
+
+    return frames;
+  }
+}
+
+function parseLengthPrefixedFrame(frame: Buffer): DecodedFrame {
+  let offset = 0;
+
+  const readChunk = (label: string): Buffer => {
+    if (offset + UINT32_BYTES > frame.length) {
+      throw new MalformedFrameError(`missing ${label} length`);
+    }
+    const length = frame.readUInt32BE(offset);
+    offset += UINT32_BYTES;
+
+    if (offset + length > frame.length) {
+      throw new MalformedFrameError(`${label} exceeds frame boundary`);
+    }
+    const chunk = frame.subarray(offset, offset + length);
+    offset += length;
+    return chunk;
+  };
+
+  const body = readChunk('json').toString('utf8');
+  const attachments: Buffer[] = [];
+  while (offset < frame.length) {
+    // Copy so the attachment doesn't pin the whole connection buffer
+    attachments.push(Buffer.from(readChunk('attachment')));
+  }
+
+  return { body, attachments };
+}
+
+function isAsciiDigit(byte: number): boolean {
+  return byte >= 0x30 && byte <= 0x39;
+}
+
+function uint32(value: number): Buffer {
+  const buf = Buffer.alloc(UINT32_BYTES);
+  buf.writeUInt32BE(value, 0);
+  return buf;
+}
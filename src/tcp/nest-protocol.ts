@@ -0,0 +1,82 @@
+/**
+ * Translation between NestJS `ClientTCP` packets and the native `{ type, data }`
+ * envelope, so a gateway can call `client.send('STAFF_GET_BOOKINGS', data)`.
+ */
+
+export interface NestIncomingPacket {
+  pattern: unknown;
+  data?: unknown;
+  // Absent for `client.emit()` events, which expect no reply
+  id?: string;
+}
+
+export interface NestOutgoingPacket {
+  id: string;
+  response?: unknown;
+  err?: unknown;
+  isDisposed: boolean;
+}
+
+export function isNestPacket(packet: unknown): packet is NestIncomingPacket {
+  return typeof packet === 'object' && packet !== null && 'pattern' in packet;
+}
+
+/**
+ * Resolves a Nest pattern to a message type. Nest serialises object patterns to
+ * JSON with sorted keys, so `{ cmd: 'STAFF_GET_BOOKINGS' }` arrives as a string too.
+ */
+export function resolveNestPattern(pattern: unknown): string | undefined {
+  let value = pattern;
+
+  if (typeof value === 'string') {
+    const trimmed = value.trim();
+    if (!trimmed.startsWith('{')) return trimmed;
+
+    try {
+      value = JSON.parse(trimmed);
+    } catch {
+      return trimmed;
+    }
+  }
+
+  if (typeof value === 'object' && value !== null) {
+    const { cmd, type } = value as { cmd?: unknown; type?: unknown };
+    if (typeof cmd === 'string') return cmd;
+    if (typeof type === 'string') return type;
+  }
+
+  return undefined;
+}
+
+/**
+ * Nest clients can only send `data`, so credentials travel inside it as
+ * `{ auth, headers, ...payload }` and are lifted into the envelope here.
+ */
+export function toTCPPayload(packet: NestIncomingPacket) {
+  let data = packet.data;
+  let auth: unknown;
+  let headers: unknown;
+
+  if (typeof data === 'object' && data !== null && !Array.isArray(data)) {
+    const { auth: packetAuth, headers: packetHeaders, ...rest } = data as Record<string, unknown>;
+    auth = packetAuth;
+    headers = packetHeaders;
+    data = rest;
+  }
+
+  return {
+    id: packet.id,
+    type: resolveNestPattern(packet.pattern) ?? String(packet.pattern),
+    data,
+    auth,
+    headers,
+  };
+}
+
+export function toNestResponse(id: string, response: unknown): NestOutgoingPacket {
+  return { id, response, isDisposed: true };
+}
+
+export function toNestError(id: string, err: unknown): NestOutgoingPacket {
+  return { id, err, isDisposed: true };
+}
@@ -0,0 +1,53 @@
+// The part of a socket the pipeline needs to apply backpressure
+export interface FlowControl {
+  pause(): unknown;
+  resume(): unknown;
+  isPaused(): boolean;
+}
+
+/**
+ * Runs the messages of one connection concurrently, up to `maxInFlight` at a
+ * time. Each reply is sent as soon as its message finishes, so callers match
+ * replies by payload id. The socket is paused while messages are queued
+ * beyond the limit and resumed once the queue drains.
+ */
+export class RequestPipeline<T> {
+  private queued: T[] = [];
+  private running = 0;
+
+  constructor(
+    private readonly socket: FlowControl,
+    private readonly maxInFlight: number,
+    private readonly process: (item: T) => Promise<void>
+  ) {}
+
+  get inFlight(): number {
+    return this.running;
+  }
+
+  get pending(): number {
+    return this.queued.length;
+  }
+
+  push(...items: T[]): void {
+    this.queued.push(...items);
+    this.drain();
+  }
+
+  private drain(): void {
+    while (this.running < this.maxInFlight && this.queued.length > 0) {
+      const item = this.queued.shift()!;
+      this.running++;
+      this.process(item).finally(() => {
+        this.running--;
+        this.drain();
+      });
+    }
+
+    if (this.queued.length > 0) {
+      this.socket.pause();
+    } else if (this.socket.isPaused()) {
+      this.socket.resume();
+    }
+  }
+}
@@ -0,0 +1,427 @@
+import { z } from 'zod';
+import type { TCPResponseError, TCPResponseSuccess } from '../interfaces/tcp-response.interface';
+import {
+  AcceptBookingSchema,
+  AddAvailabilityExceptionSchema,
+  CheckInSchema,
+  CheckOutSchema,
+  CorrectWorkLogSchema,
+  CreateInspectionReportSchema,
+  CreateProposalSchema,
+  DeclineBookingSchema,
+  ExportCalendarSchema,
+  FinishJobSchema,
+  GetBookingDetailSchema,
+  GetBookingsByDateSchema,
+  GetBookingsListSchema,
+  GetAvailabilityCalendarSchema,
+  GetAvailabilitySchema,
+  GetBookingWorkflowSchema,
+  GetChecklistTemplateSchema,
+  GetDailyRouteSchema,
+  GetInspectionDetailSchema,
+  GetInspectionReportsSchema,
+  GetMonthlyStatsSchema,
+  GetPendingAssignmentsSchema,
+  GetRecentWorkLogsSchema,
+  GetReviewsSchema,
+  GetScheduleConflictsSchema,
+  GetWorkPolicySchema,
+  ListAutoClosedLogsSchema,
+  LookupWarrantySchema,
+  OpenWarrantyClaimSchema,
+  PauseWorkSchema,
+  RemoveAvailabilityExceptionSchema,
+  ResumeWorkSchema,
+  SearchServiceItemsSchema,
+  SetWeeklyAvailabilitySchema,
+  StaffIdSchema,
+  UpdateInspectionReportPayloadSchema,
+  UpdateProposalSchema,
+} from '../schemas/app.schema';
+import type {
+  AcceptBookingResponseSchema,
+  AllInspectionReportsResponseSchema,
+  AutoClosedLogsResponseSchema,
+  AvailabilityCalendarResponseSchema,
+  AvailabilityExceptionResponseSchema,
+  AvailabilityResponseSchema,
+  BookingDetailResponseSchema,
+  BookingsByDateResponseSchema,
+  BookingsListResponseSchema,
+  CalendarExportResponseSchema,
+  CheckOutResponseSchema,
+  ChecklistTemplateResponseSchema,
+  DailyRouteResponseSchema,
+  DeclineBookingResponseSchema,
+  FinishJobResponseSchema,
+  InspectionReportDetailResponseSchema,
+  InspectionReportResponseSchema,
+  InspectionReportsListResponseSchema,
+  MonthlyStatsResponseSchema,
+  PendingAssignmentsResponseSchema,
+  PerformanceResponseSchema,
+  ProposalHistoryResponseSchema,
+  ProposalResponseSchema,
+  RemoveAvailabilityExceptionResponseSchema,
+  ReviewSummaryResponseSchema,
+  ReviewsResponseSchema,
+  ScheduleConflictsResponseSchema,
+  ServiceItemSearchResponseSchema,
+  WarrantyClaimResponseSchema,
+  WarrantyLookupResponseSchema,
+  WeeklyAvailabilityResponseSchema,
+  WorkLogResponseSchema,
+  WorkLogsResponseSchema,
+  WorkPolicyResponseSchema,
+} from '../schemas/response.schema';
+import { TCPConnection, TCPConnectionOptions } from './client';
+import { FramingMode } from './framing';
+
+// A value as it arrives after JSON serialization: dates become ISO strings
+type Jsonified<T> = T extends Date
+  ? string
+  : T extends (infer U)[]
+    ? Jsonified<U>[]
+    : T extends object
+      ? { [K in keyof T]: Jsonified<T[K]> }
+      : T;
+
+interface Contract<S extends z.ZodTypeAny, R extends z.ZodTypeAny> {
+  request: z.input<S>;
+  response: Jsonified<z.output<R>>;
+}
+
+/**
+ * Request/response types for every message type the staff service accepts.
+ * Requests come from the zod schemas the server validates against, responses
+ * from the schemas it documents its replies with.
+ */
+export interface StaffMessageContract {
+  STAFF_GET_BOOKINGS: Contract<typeof GetBookingsListSchema, typeof BookingsListResponseSchema>;
+  STAFF_GET_BOOKING_DETAIL: Contract<typeof GetBookingDetailSchema, typeof BookingDetailResponseSchema>;
+  STAFF_LIST_PENDING_ASSIGNMENTS: Contract<typeof GetPendingAssignmentsSchema, typeof PendingAssignmentsResponseSchema>;
+  STAFF_ACCEPT_BOOKING: Contract<typeof AcceptBookingSchema, typeof AcceptBookingResponseSchema>;
+  STAFF_DECLINE_BOOKING: Contract<typeof DeclineBookingSchema, typeof DeclineBookingResponseSchema>;
+  STAFF_CREATE_INSPECTION_REPORT: Contract<typeof CreateInspectionReportSchema, typeof InspectionReportResponseSchema>;
+  STAFF_GET_REVIEWS: Contract<typeof GetReviewsSchema, typeof ReviewsResponseSchema>;
+  STAFF_GET_INSPECTION_REPORTS: Contract<typeof GetInspectionReportsSchema, typeof InspectionReportsListResponseSchema>;
+  STAFF_GET_INSPECTION_DETAIL: Contract<typeof GetInspectionDetailSchema, typeof InspectionReportDetailResponseSchema>;
+  UPDATE_INSPECTION_REPORT: Contract<typeof UpdateInspectionReportPayloadSchema, typeof InspectionReportResponseSchema>;
+  STAFF_GET_CHECKLIST_TEMPLATE: Contract<typeof GetChecklistTemplateSchema, typeof ChecklistTemplateResponseSchema>;
+  STAFF_GET_WORK_LOGS: Contract<typeof GetRecentWorkLogsSchema, typeof WorkLogsResponseSchema>;
+  STAFF_GET_PERFORMANCE: Contract<typeof StaffIdSchema, typeof PerformanceResponseSchema>;
+  STAFF_GET_REVIEW_SUMMARY: Contract<typeof StaffIdSchema, typeof ReviewSummaryResponseSchema>;
+  STAFF_CREATE_WORK_LOG: Contract<typeof CheckInSchema, typeof WorkLogResponseSchema>;
+  STAFF_CHECK_OUT: Contract<typeof CheckOutSchema, typeof CheckOutResponseSchema>;
+  STAFF_PAUSE_WORK: Contract<typeof PauseWorkSchema, typeof WorkLogResponseSchema>;
+  STAFF_RESUME_WORK: Contract<typeof ResumeWorkSchema, typeof WorkLogResponseSchema>;
+  STAFF_FINISH_JOB: Contract<typeof FinishJobSchema, typeof FinishJobResponseSchema>;
+  STAFF_GET_WORK_POLICY: Contract<typeof GetWorkPolicySchema, typeof WorkPolicyResponseSchema>;
+  STAFF_LIST_AUTO_CLOSED_LOGS: Contract<typeof ListAutoClosedLogsSchema, typeof AutoClosedLogsResponseSchema>;
+  SUPERVISOR_CORRECT_WORK_LOG: Contract<typeof CorrectWorkLogSchema, typeof WorkLogResponseSchema>;
+  STAFF_GET_BOOKINGS_BY_DATE: Contract<typeof GetBookingsByDateSchema, typeof BookingsByDateResponseSchema>;
+  STAFF_GET_SCHEDULE_CONFLICTS: Contract<typeof GetScheduleConflictsSchema, typeof ScheduleConflictsResponseSchema>;
+  STAFF_GET_DAILY_ROUTE: Contract<typeof GetDailyRouteSchema, typeof DailyRouteResponseSchema>;
+  STAFF_EXPORT_CALENDAR: Contract<typeof ExportCalendarSchema, typeof CalendarExportResponseSchema>;
+  STAFF_GET_AVAILABILITY: Contract<typeof GetAvailabilitySchema, typeof AvailabilityResponseSchema>;
+  STAFF_SET_WEEKLY_AVAILABILITY: Contract<typeof SetWeeklyAvailabilitySchema, typeof WeeklyAvailabilityResponseSchema>;
+  STAFF_ADD_AVAILABILITY_EXCEPTION: Contract<typeof AddAvailabilityExceptionSchema, typeof AvailabilityExceptionResponseSchema>;
+  STAFF_REMOVE_AVAILABILITY_EXCEPTION: Contract<typeof RemoveAvailabilityExceptionSchema, typeof RemoveAvailabilityExceptionResponseSchema>;
+  STAFF_GET_AVAILABILITY_CALENDAR: Contract<typeof GetAvailabilityCalendarSchema, typeof AvailabilityCalendarResponseSchema>;
+  STAFF_GET_MONTHLY_STATS: Contract<typeof GetMonthlyStatsSchema, typeof MonthlyStatsResponseSchema>;
+  STAFF_GET_INSPECTION_STAFF: Contract<typeof GetInspectionReportsSchema, typeof AllInspectionReportsResponseSchema>;
+  STAFF_GET_PROPOSAL: Contract<typeof GetBookingWorkflowSchema, typeof ProposalHistoryResponseSchema>;
+  STAFF_CREATE_PROPOSAL: Contract<typeof CreateProposalSchema, typeof ProposalResponseSchema>;
+  STAFF_UPDATE_PROPOSAL: Contract<typeof UpdateProposalSchema, typeof ProposalResponseSchema>;
+  STAFF_SEARCH_SERVICE_ITEMS: Contract<typeof SearchServiceItemsSchema, typeof ServiceItemSearchResponseSchema>;
+  STAFF_LOOKUP_WARRANTY: Contract<typeof LookupWarrantySchema, typeof WarrantyLookupResponseSchema>;
+  STAFF_OPEN_WARRANTY_CLAIM: Contract<typeof OpenWarrantyClaimSchema, typeof WarrantyClaimResponseSchema>;
+}
+
+export type StaffMessageType = keyof StaffMessageContract;
+export type StaffRequest<T extends StaffMessageType> = StaffMessageContract[T]['request'];
+export type StaffResponse<T extends StaffMessageType> = StaffMessageContract[T]['response'];
+
+export interface CallOptions {
+  // Overrides the client-wide access token for this call
+  token?: string;
+  timeout?: number;
+  signal?: AbortSignal;
+  attachments?: Buffer[];
+}
+
+export interface StaffServiceClientOptions extends TCPConnectionOptions {
+  poolSize?: number;
+  framing?: FramingMode;
+  // Sent as `auth.token` with every request
+  token?: string;
+  // Reconnect backoff: baseDelay * 2^attempt, capped at maxDelay
+  reconnect?: {
+    maxAttempts?: number;
+    baseDelay?: number;
+    maxDelay?: number;
+  };
+}
+
+/**
+ * Thrown when the service replies with an error envelope.
+ */
+export class StaffServiceError extends Error {
+  public statusCode: number;
+  public error: string;
+  public path: string[];
+  public details?: Record<string, any>;
+
+  constructor(response: TCPResponseError & { details?: Record<string, any> }) {
+    super(response.message?.message || response.error || 'Staff service error');
+    this.name = 'StaffServiceError';
+    this.statusCode = response.statusCode;
+    this.error = response.error;
+    this.path = response.message?.path || [];
+    this.details = response.details;
+  }
+}
+
+const sleep = (ms: number, signal?: AbortSignal) =>
+  new Promise<void>((resolve, reject) => {
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal?.reason ?? new Error('Aborted'));
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+
+export class StaffServiceClient {
+  private readonly pool: TCPConnection[];
+  private readonly maxAttempts: number;
+  private readonly baseDelay: number;
+  private readonly maxDelay: number;
+  private readonly token?: string;
+
+  constructor(options: StaffServiceClientOptions = {}) {
+    const { poolSize = 4, reconnect = {}, token, ...connectionOptions } = options;
+
+    this.pool = Array.from({ length: Math.max(poolSize, 1) }, () => new TCPConnection(connectionOptions));
+    this.maxAttempts = reconnect.maxAttempts ?? 5;
+    this.baseDelay = reconnect.baseDelay ?? 200;
+    this.maxDelay = reconnect.maxDelay ?? 5000;
+    this.token = token;
+  }
+
+  async send<T extends StaffMessageType>(
+    type: T,
+    data: StaffRequest<T>,
+    options: CallOptions = {}
+  ): Promise<StaffResponse<T>> {
+    const connection = await this.acquire(options.signal);
+    const token = options.token ?? this.token;
+    const response = await connection.request({ type, data, ...(token ? { auth: { token } } : {}) }, options);
+
+    if (response?.success) {
+      return (response as TCPResponseSuccess<StaffResponse<T>>).data;
+    }
+
+    throw new StaffServiceError(response);
+  }
+
+  close(): void {
+    this.pool.forEach((connection) => connection.close());
+  }
+
+  getBookings(data: StaffRequest<'STAFF_GET_BOOKINGS'>, options?: CallOptions) {
+    return this.send('STAFF_GET_BOOKINGS', data, options);
+  }
+
+  getBookingDetail(data: StaffRequest<'STAFF_GET_BOOKING_DETAIL'>, options?: CallOptions) {
+    return this.send('STAFF_GET_BOOKING_DETAIL', data, options);
+  }
+
+  listPendingAssignments(data: StaffRequest<'STAFF_LIST_PENDING_ASSIGNMENTS'>, options?: CallOptions) {
+    return this.send('STAFF_LIST_PENDING_ASSIGNMENTS', data, options);
+  }
+
+  acceptBooking(data: StaffRequest<'STAFF_ACCEPT_BOOKING'>, options?: CallOptions) {
+    return this.send('STAFF_ACCEPT_BOOKING', data, options);
+  }
+
+  declineBooking(data: StaffRequest<'STAFF_DECLINE_BOOKING'>, options?: CallOptions) {
+    return this.send('STAFF_DECLINE_BOOKING', data, options);
+  }
+
+  getBookingsByDate(data: StaffRequest<'STAFF_GET_BOOKINGS_BY_DATE'>, options?: CallOptions) {
+    return this.send('STAFF_GET_BOOKINGS_BY_DATE', data, options);
+  }
+
+  createInspectionReport(data: StaffRequest<'STAFF_CREATE_INSPECTION_REPORT'>, options?: CallOptions) {
+    return this.send('STAFF_CREATE_INSPECTION_REPORT', data, options);
+  }
+
+  getInspectionReports(data: StaffRequest<'STAFF_GET_INSPECTION_REPORTS'>, options?: CallOptions) {
+    return this.send('STAFF_GET_INSPECTION_REPORTS', data, options);
+  }
+
+  getAllInspectionReports(data: StaffRequest<'STAFF_GET_INSPECTION_STAFF'>, options?: CallOptions) {
+    return this.send('STAFF_GET_INSPECTION_STAFF', data, options);
+  }
+
+  getInspectionDetail(data: StaffRequest<'STAFF_GET_INSPECTION_DETAIL'>, options?: CallOptions) {
+    return this.send('STAFF_GET_INSPECTION_DETAIL', data, options);
+  }
+
+  updateInspectionReport(data: StaffRequest<'UPDATE_INSPECTION_REPORT'>, options?: CallOptions) {
+    return this.send('UPDATE_INSPECTION_REPORT', data, options);
+  }
+
+  getChecklistTemplate(data: StaffRequest<'STAFF_GET_CHECKLIST_TEMPLATE'>, options?: CallOptions) {
+    return this.send('STAFF_GET_CHECKLIST_TEMPLATE', data, options);
+  }
+
+  getReviews(data: StaffRequest<'STAFF_GET_REVIEWS'>, options?: CallOptions) {
+    return this.send('STAFF_GET_REVIEWS', data, options);
+  }
+
+  getReviewSummary(data: StaffRequest<'STAFF_GET_REVIEW_SUMMARY'>, options?: CallOptions) {
+    return this.send('STAFF_GET_REVIEW_SUMMARY', data, options);
+  }
+
+  getWorkLogs(data: StaffRequest<'STAFF_GET_WORK_LOGS'>, options?: CallOptions) {
+    return this.send('STAFF_GET_WORK_LOGS', data, options);
+  }
+
+  getPerformance(data: StaffRequest<'STAFF_GET_PERFORMANCE'>, options?: CallOptions) {
+    return this.send('STAFF_GET_PERFORMANCE', data, options);
+  }
+
+  getMonthlyStats(data: StaffRequest<'STAFF_GET_MONTHLY_STATS'>, options?: CallOptions) {
+    return this.send('STAFF_GET_MONTHLY_STATS', data, options);
+  }
+
+  checkIn(data: StaffRequest<'STAFF_CREATE_WORK_LOG'>, options?: CallOptions) {
+    return this.send('STAFF_CREATE_WORK_LOG', data, options);
+  }
+
+  checkOut(data: StaffRequest<'STAFF_CHECK_OUT'>, options?: CallOptions) {
+    return this.send('STAFF_CHECK_OUT', data, options);
+  }
+
+  pauseWork(data: StaffRequest<'STAFF_PAUSE_WORK'>, options?: CallOptions) {
+    return this.send('STAFF_PAUSE_WORK', data, options);
+  }
+
+  resumeWork(data: StaffRequest<'STAFF_RESUME_WORK'>, options?: CallOptions) {
+    return this.send('STAFF_RESUME_WORK', data, options);
+  }
+
+  finishJob(data: StaffRequest<'STAFF_FINISH_JOB'>, options?: CallOptions) {
+    return this.send('STAFF_FINISH_JOB', data, options);
+  }
+
+  getWorkPolicy(data: StaffRequest<'STAFF_GET_WORK_POLICY'>, options?: CallOptions) {
+    return this.send('STAFF_GET_WORK_POLICY', data, options);
+  }
+
+  getScheduleConflicts(data: StaffRequest<'STAFF_GET_SCHEDULE_CONFLICTS'>, options?: CallOptions) {
+    return this.send('STAFF_GET_SCHEDULE_CONFLICTS', data, options);
+  }
+
+  getDailyRoute(data: StaffRequest<'STAFF_GET_DAILY_ROUTE'>, options?: CallOptions) {
+    return this.send('STAFF_GET_DAILY_ROUTE', data, options);
+  }
+
+  exportCalendar(data: StaffRequest<'STAFF_EXPORT_CALENDAR'>, options?: CallOptions) {
+    return this.send('STAFF_EXPORT_CALENDAR', data, options);
+  }
+
+  getAvailability(data: StaffRequest<'STAFF_GET_AVAILABILITY'>, options?: CallOptions) {
+    return this.send('STAFF_GET_AVAILABILITY', data, options);
+  }
+
+  setWeeklyAvailability(data: StaffRequest<'STAFF_SET_WEEKLY_AVAILABILITY'>, options?: CallOptions) {
+    return this.send('STAFF_SET_WEEKLY_AVAILABILITY', data, options);
+  }
+
+  addAvailabilityException(data: StaffRequest<'STAFF_ADD_AVAILABILITY_EXCEPTION'>, options?: CallOptions) {
+    return this.send('STAFF_ADD_AVAILABILITY_EXCEPTION', data, options);
+  }
+
+  removeAvailabilityException(data: StaffRequest<'STAFF_REMOVE_AVAILABILITY_EXCEPTION'>, options?: CallOptions) {
+    return this.send('STAFF_REMOVE_AVAILABILITY_EXCEPTION', data, options);
+  }
+
+  getAvailabilityCalendar(data: StaffRequest<'STAFF_GET_AVAILABILITY_CALENDAR'>, options?: CallOptions) {
+    return this.send('STAFF_GET_AVAILABILITY_CALENDAR', data, options);
+  }
+
+  listAutoClosedLogs(data: StaffRequest<'STAFF_LIST_AUTO_CLOSED_LOGS'>, options?: CallOptions) {
+    return this.send('STAFF_LIST_AUTO_CLOSED_LOGS', data, options);
+  }
+
+  correctWorkLog(data: StaffRequest<'SUPERVISOR_CORRECT_WORK_LOG'>, options?: CallOptions) {
+    return this.send('SUPERVISOR_CORRECT_WORK_LOG', data, options);
+  }
+
+  getProposal(data: StaffRequest<'STAFF_GET_PROPOSAL'>, options?: CallOptions) {
+    return this.send('STAFF_GET_PROPOSAL', data, options);
+  }
+
+  createProposal(data: StaffRequest<'STAFF_CREATE_PROPOSAL'>, options?: CallOptions) {
+    return this.send('STAFF_CREATE_PROPOSAL', data, options);
+  }
+
+  updateProposal(data: StaffRequest<'STAFF_UPDATE_PROPOSAL'>, options?: CallOptions) {
+    return this.send('STAFF_UPDATE_PROPOSAL', data, options);
+  }
+
+  searchServiceItems(data: StaffRequest<'STAFF_SEARCH_SERVICE_ITEMS'>, options?: CallOptions) {
+    return this.send('STAFF_SEARCH_SERVICE_ITEMS', data, options);
+  }
+
+  lookupWarranty(data: StaffRequest<'STAFF_LOOKUP_WARRANTY'>, options?: CallOptions) {
+    return this.send('STAFF_LOOKUP_WARRANTY', data, options);
+  }
+
+  openWarrantyClaim(data: StaffRequest<'STAFF_OPEN_WARRANTY_CLAIM'>, options?: CallOptions) {
+    return this.send('STAFF_OPEN_WARRANTY_CLAIM', data, options);
+  }
+
+  /**
+   * Picks the connected socket with the fewest requests in flight,
+   * reconnecting with exponential backoff when none is available.
+   */
+  private async acquire(signal?: AbortSignal): Promise<TCPConnection> {
+    const connected = this.pool.filter((connection) => connection.isConnected);
+    if (connected.length > 0) {
+      return connected.reduce((best, connection) =>
+        connection.inFlight < best.inFlight ? connection : best
+      );
+    }
+
+    const connection = this.pool.reduce((best, candidate) =>
+      candidate.inFlight < best.inFlight ? candidate : best
+    );
+
+    let lastError: Error | undefined;
+    for (let attempt = 0; attempt < this.maxAttempts; attempt++) {
+      if (signal?.aborted) throw signal.reason ?? new Error('Aborted');
+
+      try {
+        await connection.connect();
+        return connection;
+      } catch (error) {
+        lastError = error as Error;
+        if (attempt === this.maxAttempts - 1) break;
+
+        const delay = Math.min(this.baseDelay * 2 ** attempt, this.maxDelay);
+        console.warn(`[TCP] 🔁 Reconnect attempt ${attempt + 1}/${this.maxAttempts} failed, retrying in ${delay}ms`);
+        await sleep(delay, signal);
+      }
+    }
+
+    throw lastError ?? new Error('Unable to connect to staff service');
+  }
+}
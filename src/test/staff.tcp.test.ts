@@ -143,18 +143,19 @@ class StaffApiClient {
         });
     }
 
-    static async getInspectionReportDetail(inspectionId: number): Promise<TCPResponse | null> {
+    static async getInspectionReportDetail(staffId: number, inspectionId: number): Promise<TCPResponse | null> {
         if (!inspectionId || inspectionId <= 0) {
             throw new Error('Valid inspectionId is required');
         }
 
         return this.safeRequest('STAFF_GET_INSPECTION_DETAIL', {
             type: 'STAFF_GET_INSPECTION_DETAIL',
-            data: { inspectionId }
+            data: { staffId, inspectionId }
         });
     }
 
     static async updateInspectionReport(
+        staffId: number,
         inspectionId: number,
         updateData: UpdateInspectionData
     ): Promise<TCPResponse | null> {
@@ -168,6 +169,7 @@ class StaffApiClient {
         return this.safeRequest('UPDATE_INSPECTION_REPORT', {
             type: 'UPDATE_INSPECTION_REPORT',
             data: {
+                staffId,
                 inspectionId,
                 dataInspection: updateData
             }
@@ -221,14 +223,25 @@ class StaffApiClient {
         });
     }
 
-    static async checkOut(bookingId: number): Promise<TCPResponse | null> {
+    static async checkOut(staffId: number, bookingId: number): Promise<TCPResponse | null> {
         if (!bookingId || bookingId <= 0) {
             throw new Error('Valid bookingId is required');
         }
 
         return this.safeRequest('STAFF_CHECK_OUT', {
             type: 'STAFF_CHECK_OUT',
-            data: { bookingId }
+            data: { staffId, bookingId }
+        });
+    }
+
+    static async finishJob(staffId: number, bookingId: number): Promise<TCPResponse | null> {
+        if (!bookingId || bookingId <= 0) {
+            throw new Error('Valid bookingId is required');
+        }
+
+        return this.safeRequest('STAFF_FINISH_JOB', {
+            type: 'STAFF_FINISH_JOB',
+            data: { staffId, bookingId }
         });
     }
 
@@ -335,7 +348,7 @@ class TestRunner {
         try {
             await StaffApiClient.getInspectionReportsByStaff(this.config.staffId);
 
-            await StaffApiClient.getInspectionReportDetail(this.config.inspectionId);
+            await StaffApiClient.getInspectionReportDetail(this.config.staffId, this.config.inspectionId);
 
             // await StaffApiClient.createInspectionReport({
             //     staffId: this.config.staffId,
@@ -378,7 +391,7 @@ class TestRunner {
 
 
         // try {
-        //     await StaffApiClient.updateInspectionReport(1, {
+        //     await StaffApiClient.updateInspectionReport(this.config.staffId, 1, {
         //         note: 'Đã sửa đường ống bị rò rỉ, mất 90 phút',
         //         images: [
         //             'https://example.com/fix1.jpg',
@@ -389,7 +402,9 @@ class TestRunner {
         //     
         //     await StaffApiClient.createWorkLog(this.config.staffId, this.config.bookingId);
         //     
-        //     await StaffApiClient.checkOut(this.config.bookingId);
+        //     await StaffApiClient.checkOut(this.config.staffId, this.config.bookingId);
+        //     
+        //     await StaffApiClient.finishJob(this.config.staffId, this.config.bookingId);
         //     
         // } catch (error) {
         //     console.error('Update tests failed:', error);
@@ -0,0 +1,110 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { AvailabilityExceptionType, Session, WeekDay } from '../../generated/prisma';
+import {
+    AvailabilityException,
+    buildAvailabilityCalendar,
+    checkAvailabilityAt,
+    sessionOf,
+    WeeklySlot,
+} from '../../schedule/availability';
+
+// Monday 2 June 2025, Vietnam time
+const mondayAt = (hour: number) => new Date(`2025-06-02T${String(hour).padStart(2, '0')}:00:00+07:00`);
+
+const weekdayMornings: WeeklySlot[] = [
+    { weekDay: WeekDay.MONDAY, session: Session.MORNING },
+    { weekDay: WeekDay.TUESDAY, session: Session.MORNING },
+];
+
+const exception = (
+    date: string,
+    type: AvailabilityExceptionType,
+    session: Session | null = null
+): AvailabilityException => ({ date: new Date(date), session, type });
+
+describe('sessionOf', () => {
+    it('maps hours onto sessions', () => {
+        assert.equal(sessionOf(mondayAt(8)), Session.MORNING);
+        assert.equal(sessionOf(mondayAt(12)), Session.AFTERNOON);
+        assert.equal(sessionOf(mondayAt(19)), null);
+    });
+
+    it('reads the hour in Vietnam time whatever the server zone', () => {
+        // 01:30 UTC is 08:30 in Ho Chi Minh City
+        assert.equal(sessionOf(new Date('2025-06-02T01:30:00Z')), Session.MORNING);
+    });
+});
+
+describe('checkAvailabilityAt', () => {
+    it('accepts times inside a weekly slot', () => {
+        assert.deepEqual(checkAvailabilityAt(weekdayMornings, [], mondayAt(9)), { available: true, reason: null });
+    });
+
+    it('flags sessions the staff member did not declare', () => {
+        assert.deepEqual(checkAvailabilityAt(weekdayMornings, [], mondayAt(14)), {
+            available: false,
+            reason: 'NOT_SCHEDULED',
+        });
+        assert.deepEqual(checkAvailabilityAt(weekdayMornings, [], mondayAt(20)), {
+            available: false,
+            reason: 'OUTSIDE_SESSION_HOURS',
+        });
+    });
+
+    it('treats staff without weekly slots as available', () => {
+        assert.deepEqual(checkAvailabilityAt([], [], mondayAt(20)), { available: true, reason: null });
+    });
+
+    it('lets leave and sick days override the weekly slots', () => {
+        const leave = [exception('2025-06-02', AvailabilityExceptionType.LEAVE)];
+        const sickMorning = [exception('2025-06-02', AvailabilityExceptionType.SICK, Session.MORNING)];
+
+        assert.deepEqual(checkAvailabilityAt(weekdayMornings, leave, mondayAt(9)), { available: false, reason: 'LEAVE' });
+        assert.deepEqual(checkAvailabilityAt(weekdayMornings, sickMorning, mondayAt(9)), { available: false, reason: 'SICK' });
+    });
+
+    it('ignores exceptions on other dates or sessions', () => {
+        const exceptions = [
+            exception('2025-06-03', AvailabilityExceptionType.LEAVE),
+            exception('2025-06-02', AvailabilityExceptionType.SICK, Session.AFTERNOON),
+        ];
+
+        assert.deepEqual(checkAvailabilityAt(weekdayMornings, exceptions, mondayAt(9)), { available: true, reason: null });
+    });
+
+    it('opens extra shifts outside the weekly slots', () => {
+        const extra = [exception('2025-06-02', AvailabilityExceptionType.EXTRA_SHIFT, Session.AFTERNOON)];
+
+        assert.deepEqual(checkAvailabilityAt(weekdayMornings, extra, mondayAt(14)), { available: true, reason: null });
+    });
+
+    it('prefers an absence over an extra shift on the same session', () => {
+        const exceptions = [
+            exception('2025-06-02', AvailabilityExceptionType.EXTRA_SHIFT, Session.MORNING),
+            exception('2025-06-02', AvailabilityExceptionType.LEAVE),
+        ];
+
+        assert.equal(checkAvailabilityAt(weekdayMornings, exceptions, mondayAt(9)).reason, 'LEAVE');
+    });
+});
+
+describe('buildAvailabilityCalendar', () => {
+    it('lists every session of every day in the range', () => {
+        const days = buildAvailabilityCalendar(
+            weekdayMornings,
+            [exception('2025-06-03', AvailabilityExceptionType.SICK)],
+            '2025-06-02',
+            '2025-06-04'
+        );
+
+        assert.deepEqual(
+            days.map((day) => [day.date, day.weekDay, day.sessions.map((slot) => slot.reason ?? 'OK')]),
+            [
+                ['2025-06-02', WeekDay.MONDAY, ['OK', 'NOT_SCHEDULED']],
+                ['2025-06-03', WeekDay.TUESDAY, ['SICK', 'SICK']],
+                ['2025-06-04', WeekDay.WEDNESDAY, ['NOT_SCHEDULED', 'NOT_SCHEDULED']],
+            ]
+        );
+    });
+});
@@ -0,0 +1,53 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { assertBookingOwner } from '../../auth/booking-owner';
+import { BookingStatus, Prisma, RequestStatus } from '../../generated/prisma';
+import { AppError } from '../../handlers/error';
+
+const booking = {
+    staffId: 1,
+    providerId: 5,
+    status: BookingStatus.CONFIRMED,
+    ServiceRequest: { id: 50, status: RequestStatus.PENDING, categoryId: 3, preferredDate: new Date() },
+};
+
+// Just enough of a transaction client to look up one booking
+const fakeTx = (row: typeof booking | null) =>
+    ({ booking: { findUnique: async () => row } }) as unknown as Prisma.TransactionClient;
+
+describe('assertBookingOwner', () => {
+    it('returns the booking to the staff member it is assigned to', async () => {
+        assert.deepEqual(await assertBookingOwner(fakeTx(booking), 1, 10), booking);
+    });
+
+    it("refuses a check-in on another staff member's booking with 403", async () => {
+        await assert.rejects(assertBookingOwner(fakeTx(booking), 2, 10), (error: AppError) => {
+            assert.equal(error.statusCode, 403);
+            assert.equal(error.code, 'Error.UnauthorizedAccess');
+            return true;
+        });
+    });
+
+    it("refuses an inspection report on another staff member's booking with 403", async () => {
+        const reads: number[] = [];
+        const tx = {
+            booking: {
+                findUnique: async ({ where }: any) => {
+                    reads.push(where.id);
+                    return { ...booking, staffId: 3 };
+                },
+            },
+        } as unknown as Prisma.TransactionClient;
+
+        await assert.rejects(assertBookingOwner(tx, 1, 10), { code: 'Error.UnauthorizedAccess', statusCode: 403 });
+        assert.deepEqual(reads, [10]);
+    });
+
+    it('reports unknown bookings with 404', async () => {
+        await assert.rejects(assertBookingOwner(fakeTx(null), 1, 10), (error: AppError) => {
+            assert.equal(error.statusCode, 404);
+            assert.equal(error.code, 'Error.BookingNotFound');
+            return true;
+        });
+    });
+});
@@ -0,0 +1,102 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { ChecklistItemType } from '../../generated/prisma';
+import { AppError } from '../../handlers/error';
+import {
+    checkAnswer,
+    ChecklistItemDefinition,
+    storedValue,
+    validateChecklistAnswers,
+} from '../../inspection/checklist';
+
+const item = (
+    id: number,
+    key: string,
+    type: ChecklistItemType,
+    overrides: Partial<ChecklistItemDefinition> = {}
+): ChecklistItemDefinition => ({
+    id,
+    key,
+    label: key,
+    type,
+    required: false,
+    minValue: null,
+    maxValue: null,
+    options: [],
+    ...overrides,
+});
+
+// Air-conditioner inspection
+const items = [
+    item(1, 'powers_on', ChecklistItemType.BOOLEAN, { required: true }),
+    item(2, 'gas_pressure', ChecklistItemType.NUMBER, { minValue: 0, maxValue: 600 }),
+    item(3, 'filter_state', ChecklistItemType.CHOICE, { required: true, options: ['clean', 'dusty', 'blocked'] }),
+    item(4, 'unit_photo', ChecklistItemType.PHOTO),
+];
+
+const issuesOf = (fn: () => unknown) => {
+    try {
+        fn();
+    } catch (error) {
+        assert.ok(error instanceof AppError);
+        return (error.details as { issues: { key: string; problem: string }[] }).issues;
+    }
+    assert.fail('expected the answers to be rejected');
+};
+
+describe('checkAnswer', () => {
+    it('accepts values matching the item type', () => {
+        assert.equal(checkAnswer(items[0], false), null);
+        assert.equal(checkAnswer(items[1], 420.5), null);
+        assert.equal(checkAnswer(items[2], 'dusty'), null);
+        assert.equal(checkAnswer(items[3], ['https://cdn.example.com/a.jpg']), null);
+    });
+
+    it('rejects values of the wrong type, out of range or not among the options', () => {
+        assert.equal(checkAnswer(items[0], 'yes'), 'WRONG_TYPE');
+        assert.equal(checkAnswer(items[1], 700), 'OUT_OF_RANGE');
+        assert.equal(checkAnswer(items[2], 'broken'), 'INVALID_CHOICE');
+        assert.equal(checkAnswer(items[3], 'https://cdn.example.com/a.jpg'), 'WRONG_TYPE');
+    });
+});
+
+describe('validateChecklistAnswers', () => {
+    it('stores each answer in the column of its item type', () => {
+        const stored = validateChecklistAnswers(items, [
+            { key: 'powers_on', value: true },
+            { key: 'filter_state', value: 'clean' },
+            { key: 'unit_photo', value: ['https://cdn.example.com/a.jpg'] },
+        ]);
+
+        assert.deepEqual(stored, [
+            { itemId: 1, booleanValue: true, numberValue: null, choiceValue: null, photoUrls: [] },
+            { itemId: 3, booleanValue: null, numberValue: null, choiceValue: 'clean', photoUrls: [] },
+            { itemId: 4, booleanValue: null, numberValue: null, choiceValue: null, photoUrls: ['https://cdn.example.com/a.jpg'] },
+        ]);
+        assert.equal(storedValue(items[3], stored[2]), stored[2].photoUrls);
+    });
+
+    it('reports every problem at once', () => {
+        const issues = issuesOf(() =>
+            validateChecklistAnswers(items, [
+                { key: 'powers_on', value: 1 },
+                { key: 'colour', value: 'white' },
+                { key: 'gas_pressure', value: 300 },
+                { key: 'gas_pressure', value: 310 },
+            ])
+        );
+
+        assert.deepEqual(issues, [
+            { key: 'powers_on', problem: 'WRONG_TYPE' },
+            { key: 'colour', problem: 'UNKNOWN_ITEM' },
+            { key: 'gas_pressure', problem: 'DUPLICATE_ANSWER' },
+            { key: 'filter_state', problem: 'MISSING_REQUIRED' },
+        ]);
+    });
+
+    it('counts items answered earlier towards required ones on update', () => {
+        const stored = validateChecklistAnswers(items, [{ key: 'gas_pressure', value: 410 }], new Set([1, 3]));
+
+        assert.deepEqual(stored.map((answer) => answer.itemId), [2]);
+    });
+});
@@ -0,0 +1,90 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { Coordinates } from '../../geo/distance';
+import { HaversineDistanceMatrix, TravelEstimate } from '../../geo/distance-matrix';
+import { bookingWindow } from '../../schedule/conflicts';
+import { planRoute, RouteStop, TravelLookup } from '../../schedule/route';
+
+const at = (time: string) => new Date(`2025-06-02T${time}:00Z`);
+
+// Points along a line of latitude in District 1, roughly 1.1 km apart
+const point = (km: number): Coordinates => ({ latitude: 10.7769 + km * 0.009, longitude: 106.7009 });
+
+const stop = (bookingId: number, start: string, minutes: number, coordinates: Coordinates | null): RouteStop => ({
+    ...bookingWindow({ bookingId, start: at(start), proposalMinutes: minutes, estimatedMinutes: null }),
+    address: `Job ${bookingId}`,
+    coordinates,
+});
+
+// Travel at 1 minute per km of straight-line distance between the stops' coordinates
+const lookup = (stops: RouteStop[], startPosition?: Coordinates): TravelLookup => (from, to) => {
+    const origin = from === null ? startPosition : stops[from].coordinates;
+    const destination = stops[to].coordinates;
+    if (!origin || !destination) return null;
+
+    const km = Math.abs(destination.latitude - origin.latitude) / 0.009;
+    return { distanceMeters: km * 1000, durationSeconds: km * 60 } satisfies TravelEstimate;
+};
+
+describe('HaversineDistanceMatrix', () => {
+    it('stretches straight-line distance and converts it at the average speed', async () => {
+        const [[self, there]] = await new HaversineDistanceMatrix(30, 1.5).measure([point(0), point(1)]);
+
+        assert.deepEqual(self, { distanceMeters: 0, durationSeconds: 0 });
+        assert.ok(Math.abs(there!.distanceMeters - 1500) < 5);
+        // 1.5 km at 30 km/h
+        assert.ok(Math.abs(there!.durationSeconds - 180) < 1);
+    });
+});
+
+describe('planRoute', () => {
+    it('orders jobs by time window', () => {
+        const stops = [stop(1, '13:00', 60, point(0)), stop(2, '08:00', 60, point(2))];
+
+        const route = planRoute(stops, lookup(stops));
+
+        assert.deepEqual(route.stops.map((planned) => planned.bookingId), [2, 1]);
+        assert.deepEqual(route.stops[1].travelFromPrevious, { distanceMeters: 2000, durationMinutes: 2 });
+        assert.equal(route.totalDistanceMeters, 2000);
+    });
+
+    it('visits the nearer of two jobs that start around the same time first', () => {
+        const startPosition = point(0);
+        const stops = [stop(1, '08:00', 30, point(10)), stop(2, '08:30', 30, point(1))];
+
+        const route = planRoute(stops, lookup(stops, startPosition), true);
+
+        assert.deepEqual(route.stops.map((planned) => planned.bookingId), [2, 1]);
+        assert.deepEqual(route.stops[0].travelFromPrevious, { distanceMeters: 1000, durationMinutes: 1 });
+    });
+
+    it('waits for a job whose window has not started yet', () => {
+        const stops = [stop(1, '08:00', 60, point(0)), stop(2, '10:00', 60, point(1))];
+
+        const [, second] = planRoute(stops, lookup(stops)).stops;
+
+        assert.deepEqual(second.estimatedArrival, at('09:01'));
+        assert.deepEqual(second.estimatedStart, at('10:00'));
+        assert.equal(second.reachable, true);
+    });
+
+    it('flags jobs that cannot be reached in time', () => {
+        const stops = [stop(1, '08:00', 120, point(0)), stop(2, '09:00', 60, point(30))];
+
+        const route = planRoute(stops, lookup(stops));
+
+        assert.deepEqual(route.unreachable, [2]);
+        assert.equal(route.stops[1].lateByMinutes, 90);
+        assert.deepEqual(route.stops[1].estimatedStart, at('10:30'));
+    });
+
+    it('keeps unlocated jobs in the plan without travel estimates', () => {
+        const stops = [stop(1, '08:00', 60, point(0)), stop(2, '09:00', 60, null)];
+
+        const [, unlocated] = planRoute(stops, lookup(stops)).stops;
+
+        assert.equal(unlocated.travelFromPrevious, null);
+        assert.deepEqual(unlocated.estimatedArrival, at('09:00'));
+        assert.equal(unlocated.reachable, true);
+    });
+});
@@ -0,0 +1,132 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import {
+    encodeFrame,
+    FrameDecoder,
+    FrameTooLargeError,
+    LENGTH_PREFIX_MAGIC,
+    MalformedFrameError,
+} from '../../tcp/framing';
+
+const MAX_PAYLOAD = 1024;
+
+const magic = Buffer.from([LENGTH_PREFIX_MAGIC]);
+const body = JSON.stringify({ type: 'PING', data: { note: 'héllo' } });
+const attachments = [Buffer.from([0xff, 0xd8, 0xff, 0x00]), Buffer.alloc(0), Buffer.from('second')];
+
+// Feeds the bytes in two chunks split at every possible offset
+function decodeAtEverySplit(bytes: Buffer, mode?: 'newline' | 'length-prefixed' | 'nest') {
+    const results = [];
+    for (let split = 0; split <= bytes.length; split++) {
+        const decoder = new FrameDecoder(MAX_PAYLOAD, mode);
+        results.push([...decoder.push(bytes.subarray(0, split)), ...decoder.push(bytes.subarray(split))]);
+    }
+    return results;
+}
+
+describe('FrameDecoder', () => {
+    it('decodes a length-prefixed frame split at every byte boundary', () => {
+        const bytes = Buffer.concat([magic, encodeFrame('length-prefixed', body, attachments)]);
+
+        for (const frames of decodeAtEverySplit(bytes)) {
+            assert.deepEqual(frames, [{ body, attachments }]);
+        }
+    });
+
+    it('decodes newline and Nest frames split at every byte boundary, multi-byte characters included', () => {
+        for (const mode of ['newline', 'nest'] as const) {
+            const bytes = Buffer.concat([encodeFrame(mode, body), encodeFrame(mode, body)]);
+
+            for (const frames of decodeAtEverySplit(bytes)) {
+                assert.deepEqual(frames, [
+                    { body, attachments: [] },
+                    { body, attachments: [] },
+                ]);
+            }
+        }
+    });
+
+    it('keeps a raw newline inside a length-prefixed JSON string', () => {
+        const multiline = '{"type":"PING","data":{"note":"line one\nline two"}}';
+        const decoder = new FrameDecoder(MAX_PAYLOAD);
+
+        const frames = decoder.push(Buffer.concat([magic, encodeFrame('length-prefixed', multiline)]));
+
+        assert.deepEqual(frames, [{ body: multiline, attachments: [] }]);
+    });
+
+    it('keeps an escaped newline inside a newline-delimited JSON string in one frame', () => {
+        const escaped = JSON.stringify({ note: 'line one\nline two' });
+        const decoder = new FrameDecoder(MAX_PAYLOAD);
+
+        const frames = decoder.push(encodeFrame('newline', escaped));
+
+        assert.equal(frames.length, 1);
+        assert.deepEqual(JSON.parse(frames[0].body), { note: 'line one\nline two' });
+    });
+
+    it('picks the framing from the first byte of the connection', () => {
+        const cases = [
+            { bytes: Buffer.concat([magic, encodeFrame('length-prefixed', body)]), mode: 'length-prefixed' },
+            { bytes: encodeFrame('nest', body), mode: 'nest' },
+            { bytes: encodeFrame('newline', body), mode: 'newline' },
+        ];
+
+        for (const { bytes, mode } of cases) {
+            const decoder = new FrameDecoder(MAX_PAYLOAD);
+            assert.equal(decoder.mode, 'newline');
+
+            assert.deepEqual(decoder.push(bytes), [{ body, attachments: [] }]);
+            assert.equal(decoder.mode, mode);
+        }
+    });
+
+    it('waits for the first byte before picking the framing', () => {
+        const decoder = new FrameDecoder(MAX_PAYLOAD);
+
+        assert.deepEqual(decoder.push(Buffer.alloc(0)), []);
+        decoder.push(magic);
+        assert.equal(decoder.mode, 'length-prefixed');
+    });
+
+    it('refuses declared lengths above the payload limit before buffering them', () => {
+        const tooLong = Buffer.alloc(4);
+        tooLong.writeUInt32BE(MAX_PAYLOAD + 1);
+
+        assert.throws(() => new FrameDecoder(MAX_PAYLOAD).push(Buffer.concat([magic, tooLong])), FrameTooLargeError);
+        assert.throws(() => new FrameDecoder(MAX_PAYLOAD).push(Buffer.from(`${MAX_PAYLOAD + 1}#`)), FrameTooLargeError);
+        assert.throws(
+            () => new FrameDecoder(MAX_PAYLOAD).push(Buffer.from('x'.repeat(MAX_PAYLOAD + 1))),
+            FrameTooLargeError
+        );
+    });
+
+    it('rejects parts that run past the end of their frame', () => {
+        const frame = encodeFrame('length-prefixed', body, [Buffer.from('photo')]);
+        // Claim one more attachment byte than the frame holds
+        frame.writeUInt32BE('photo'.length + 1, 4 + 4 + Buffer.byteLength(body));
+
+        assert.throws(() => new FrameDecoder(MAX_PAYLOAD, 'length-prefixed').push(frame), MalformedFrameError);
+    });
+});
+
+describe('encodeFrame', () => {
+    it('round-trips attachments byte for byte and in order', () => {
+        const binary = Buffer.from(Array.from({ length: 256 }, (_, byte) => byte));
+        const decoder = new FrameDecoder(MAX_PAYLOAD, 'length-prefixed');
+
+        const [frame] = decoder.push(encodeFrame('length-prefixed', body, [binary, ...attachments]));
+
+        assert.equal(frame.body, body);
+        assert.deepEqual(frame.attachments, [binary, ...attachments]);
+    });
+
+    it('only allows attachments on length-prefixed frames', () => {
+        assert.throws(() => encodeFrame('newline', body, attachments), /length-prefixed/);
+        assert.throws(() => encodeFrame('nest', body, attachments), /length-prefixed/);
+    });
+
+    it('counts Nest lengths in characters, not bytes', () => {
+        assert.equal(encodeFrame('nest', '"é"').toString('utf8'), '3#"é"');
+    });
+});
@@ -0,0 +1,97 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { distanceInMeters } from '../../geo/distance';
+import { StubGeocoder } from '../../geo/geocoder';
+import { evaluateGeofence, GeofenceConfig } from '../../geo/geofence';
+
+// District 1, Ho Chi Minh City
+const jobSite = { latitude: 10.7769, longitude: 106.7009 };
+// Roughly 110 m north of the job site
+const nearby = { latitude: 10.7779, longitude: 106.7009 };
+// Roughly 330 m north of the job site
+const justOutside = { latitude: 10.7799, longitude: 106.7009 };
+// Roughly 1.1 km north of the job site
+const farAway = { latitude: 10.7869, longitude: 106.7009 };
+
+const flag: GeofenceConfig = { MODE: 'flag', RADIUS_METERS: 200 };
+const enforce: GeofenceConfig = { MODE: 'enforce', RADIUS_METERS: 200 };
+const off: GeofenceConfig = { MODE: 'off', RADIUS_METERS: 200 };
+
+describe('distanceInMeters', () => {
+    it('is zero for the same point', () => {
+        assert.equal(distanceInMeters(jobSite, jobSite), 0);
+    });
+
+    it('measures a thousandth of a degree of latitude as about 111 m', () => {
+        assert.ok(Math.abs(distanceInMeters(jobSite, nearby) - 111) < 1);
+    });
+});
+
+describe('evaluateGeofence', () => {
+    it('accepts positions inside the radius', () => {
+        const result = evaluateGeofence(jobSite, nearby, enforce);
+        assert.deepEqual(result, { ...nearby, distanceMeters: 111, flagged: false });
+    });
+
+    it('flags positions outside the radius in flag mode', () => {
+        const result = evaluateGeofence(jobSite, farAway, flag);
+        assert.equal(result?.flagged, true);
+        assert.ok(result!.distanceMeters! > 1000);
+    });
+
+    it('rejects positions outside the radius in enforce mode', () => {
+        assert.throws(() => evaluateGeofence(jobSite, farAway, enforce), {
+            code: 'Error.OutsideGeofence',
+            statusCode: 400,
+        });
+    });
+
+    it('allows for the reported GPS accuracy', () => {
+        const result = evaluateGeofence(jobSite, { ...justOutside, accuracy: 150 }, enforce);
+        assert.equal(result?.flagged, false);
+    });
+
+    it('rejects positions less precise than the radius in enforce mode', () => {
+        assert.throws(() => evaluateGeofence(jobSite, { ...farAway, accuracy: 1e9 }, enforce), {
+            code: 'Error.LocationTooImprecise',
+            statusCode: 400,
+        });
+        assert.throws(() => evaluateGeofence(jobSite, { ...nearby, accuracy: 201 }, enforce), {
+            code: 'Error.LocationTooImprecise',
+        });
+    });
+
+    it('flags positions less precise than the radius in flag mode', () => {
+        const result = evaluateGeofence(jobSite, { ...nearby, accuracy: 500 }, flag);
+        assert.deepEqual(result, { ...nearby, distanceMeters: 111, flagged: true });
+    });
+
+    it('requires a position only in enforce mode', () => {
+        assert.throws(() => evaluateGeofence(jobSite, undefined, enforce), { code: 'Error.LocationRequired' });
+        assert.deepEqual(evaluateGeofence(jobSite, undefined, flag), {
+            latitude: null,
+            longitude: null,
+            distanceMeters: null,
+            flagged: true,
+        });
+    });
+
+    it('flags instead of rejecting when the job site is unknown', () => {
+        const result = evaluateGeofence(null, farAway, enforce);
+        assert.deepEqual(result, { ...farAway, distanceMeters: null, flagged: true });
+    });
+
+    it('only records the position when the geofence is off', () => {
+        assert.deepEqual(evaluateGeofence(jobSite, farAway, off), { ...farAway, distanceMeters: null, flagged: false });
+        assert.equal(evaluateGeofence(jobSite, undefined, off), undefined);
+    });
+});
+
+describe('StubGeocoder', () => {
+    it('matches addresses regardless of case and spacing', async () => {
+        const geocoder = new StubGeocoder({ '1 Le Loi, District 1': jobSite });
+
+        assert.deepEqual(await geocoder.geocode('  1 le loi,   district 1 '), jobSite);
+        assert.equal(await geocoder.geocode('Unknown street'), null);
+    });
+});
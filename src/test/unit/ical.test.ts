@@ -0,0 +1,78 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { BookingStatus } from '../../generated/prisma';
+import { CalendarEvent, escapeText, eventUid, foldLine, renderCalendar } from '../../schedule/ical';
+
+const event = (overrides: Partial<CalendarEvent> = {}): CalendarEvent => ({
+    bookingId: 42,
+    start: new Date('2025-06-02T01:30:00Z'),
+    end: new Date('2025-06-02T03:00:00Z'),
+    status: BookingStatus.CONFIRMED,
+    summary: 'Plumbing – Nguyễn Văn A',
+    location: '12 Lê Lợi, Quận 1',
+    description: 'Customer: Nguyễn Văn A\nPhone: 0901234567',
+    lastModified: new Date('2025-05-30T10:00:00Z'),
+    ...overrides,
+});
+
+const unfold = (calendar: string) => calendar.replace(/\r\n /g, '');
+
+describe('escapeText', () => {
+    it('escapes separators, backslashes and newlines', () => {
+        assert.equal(escapeText('a,b;c\\d\ne'), 'a\\,b\\;c\\\\d\\ne');
+    });
+});
+
+describe('foldLine', () => {
+    it('leaves short lines alone', () => {
+        assert.equal(foldLine('SUMMARY:Short'), 'SUMMARY:Short');
+    });
+
+    it('folds at 75 octets without splitting multi-byte characters', () => {
+        const line = `DESCRIPTION:${'ễ'.repeat(60)}`;
+        const folded = foldLine(line).split('\r\n');
+
+        assert.ok(folded.length > 1);
+        for (const part of folded) {
+            assert.ok(Buffer.byteLength(part, 'utf8') <= 75);
+        }
+        assert.equal(folded.map((part, index) => (index === 0 ? part : part.slice(1))).join(''), line);
+    });
+});
+
+describe('renderCalendar', () => {
+    const now = new Date('2025-06-01T00:00:00Z');
+
+    it('renders one VEVENT per booking with CRLF line endings', () => {
+        const calendar = renderCalendar([event()], 'Home Care jobs', now);
+
+        assert.ok(calendar.startsWith('BEGIN:VCALENDAR\r\nVERSION:2.0\r\n'));
+        assert.ok(calendar.endsWith('END:VCALENDAR\r\n'));
+        assert.ok(!/[^\r]\n/.test(calendar));
+
+        const lines = unfold(calendar).split('\r\n');
+        assert.ok(lines.includes(`UID:${eventUid(42)}`));
+        assert.ok(lines.includes('DTSTAMP:20250601T000000Z'));
+        assert.ok(lines.includes('DTSTART:20250602T013000Z'));
+        assert.ok(lines.includes('DTEND:20250602T030000Z'));
+        assert.ok(lines.includes('LOCATION:12 Lê Lợi\\, Quận 1'));
+        assert.ok(lines.includes('DESCRIPTION:Customer: Nguyễn Văn A\\nPhone: 0901234567'));
+        assert.ok(lines.includes('STATUS:CONFIRMED'));
+    });
+
+    it('keeps the UID stable across exports and marks cancelled bookings', () => {
+        const first = unfold(renderCalendar([event()], 'Jobs', now));
+        const second = unfold(renderCalendar([event({ status: BookingStatus.CANCELLED })], 'Jobs', now));
+
+        const uid = (calendar: string) => calendar.split('\r\n').find((line) => line.startsWith('UID:'));
+        assert.equal(uid(first), uid(second));
+        assert.ok(second.includes('\r\nSTATUS:CANCELLED\r\n'));
+    });
+
+    it('maps pending bookings to tentative events and omits an empty location', () => {
+        const calendar = renderCalendar([event({ status: BookingStatus.PENDING, location: null })], 'Jobs', now);
+
+        assert.ok(calendar.includes('\r\nSTATUS:TENTATIVE\r\n'));
+        assert.ok(!calendar.includes('LOCATION:'));
+    });
+});
@@ -0,0 +1,58 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { z } from 'zod';
+import { RequestContext } from '../../auth/identity';
+import { defineMessage, MessageRegistry } from '../../handlers/message-registry';
+import { inlinePhotos } from '../../inspection/photos';
+
+const jpeg = Buffer.from([0xff, 0xd8, 0xff, 0xe0, 0x00, 0x10]);
+const png = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a, 0x00]);
+const webp = Buffer.concat([Buffer.from('RIFF'), Buffer.alloc(4), Buffer.from('WEBPVP8 ')]);
+
+describe('inlinePhotos', () => {
+    it('turns JPEG, PNG and WebP attachments into data URLs in the order sent', () => {
+        assert.deepEqual(inlinePhotos([jpeg, png, webp]), [
+            `data:image/jpeg;base64,${jpeg.toString('base64')}`,
+            `data:image/png;base64,${png.toString('base64')}`,
+            `data:image/webp;base64,${webp.toString('base64')}`,
+        ]);
+    });
+
+    it('refuses attachments that are not images, naming the offending one', () => {
+        assert.throws(() => inlinePhotos([jpeg, Buffer.from('%PDF-1.7')]), {
+            code: 'Error.InvalidInspectionPhoto',
+            statusCode: 400,
+        });
+    });
+});
+
+describe('MessageRegistry attachments', () => {
+    const received: RequestContext[] = [];
+    const message = (type: string, acceptsAttachments: boolean) =>
+        defineMessage({
+            type,
+            description: 'Test message',
+            successMessage: 'ok',
+            input: z.object({}),
+            output: z.object({ ok: z.boolean() }),
+            acceptsAttachments,
+            handler: async (_input, context) => {
+                received.push(context);
+                return { ok: true };
+            },
+        });
+    const registry = new MessageRegistry().register(message('TEST_UPLOAD', true), message('TEST_PLAIN', false));
+
+    it('hands attachments to messages that accept them', async () => {
+        await registry.dispatch('TEST_UPLOAD', {}, { attachments: [jpeg] });
+        assert.deepEqual(received.at(-1)?.attachments, [jpeg]);
+    });
+
+    it('refuses attachments sent to any other message', async () => {
+        await assert.rejects(registry.dispatch('TEST_PLAIN', {}, { attachments: [jpeg] }), {
+            code: 'Error.AttachmentsNotAccepted',
+            statusCode: 400,
+        });
+        await registry.dispatch('TEST_PLAIN', {}, { attachments: [] });
+    });
+});
@@ -0,0 +1,105 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { AppError } from '../../handlers/error';
+import { toErrorResponse } from '../../tcp/error-response';
+import { encodeFrame, FrameDecoder, MalformedFrameError } from '../../tcp/framing';
+import { isNestPacket, resolveNestPattern, toNestError, toNestResponse, toTCPPayload } from '../../tcp/nest-protocol';
+
+// What Nest's JsonSocket writes for client.send(pattern, data)
+const nestFrame = (packet: object) => {
+    const json = JSON.stringify(packet);
+    return Buffer.from(`${json.length}#${json}`, 'utf8');
+};
+
+describe('Nest <length>#<json> decoding', () => {
+    it('decodes back-to-back packets from one chunk into native envelopes', () => {
+        const decoder = new FrameDecoder(1024);
+        const bytes = Buffer.concat([
+            nestFrame({ pattern: 'STAFF_GET_BOOKINGS', data: { staffId: 1 }, id: 'a1' }),
+            nestFrame({ pattern: '{"cmd":"STAFF_GET_PROFILE"}', data: { staffId: 2 }, id: 'a2' }),
+        ]);
+
+        const payloads = decoder.push(bytes).map(({ body }) => {
+            const packet = JSON.parse(body);
+            assert.ok(isNestPacket(packet));
+            return toTCPPayload(packet);
+        });
+
+        assert.equal(decoder.mode, 'nest');
+        assert.deepEqual(
+            payloads.map(({ id, type, data }) => ({ id, type, data })),
+            [
+                { id: 'a1', type: 'STAFF_GET_BOOKINGS', data: { staffId: 1 } },
+                { id: 'a2', type: 'STAFF_GET_PROFILE', data: { staffId: 2 } },
+            ]
+        );
+    });
+
+    it('counts the length in characters, so non-ASCII payloads decode whole', () => {
+        const decoder = new FrameDecoder(1024);
+        const packet = { pattern: 'STAFF_UPDATE_NOTE', data: { note: 'Sửa điều hòa' }, id: 'b1' };
+
+        assert.deepEqual(nestFrame(packet), encodeFrame('nest', JSON.stringify(packet)));
+        const [{ body }] = decoder.push(nestFrame(packet));
+
+        assert.equal(JSON.parse(body).data.note, 'Sửa điều hòa');
+    });
+
+    it('rejects a corrupted length', () => {
+        assert.throws(() => new FrameDecoder(1024, 'nest').push(Buffer.from('12x#{}')), MalformedFrameError);
+    });
+});
+
+describe('toTCPPayload', () => {
+    it('lifts credentials out of the Nest data into the envelope', () => {
+        const payload = toTCPPayload({
+            pattern: { cmd: 'STAFF_GET_BOOKINGS' },
+            data: { auth: { token: 't' }, headers: { 'x-user-id': 4 }, staffId: 1 },
+            id: 'c1',
+        });
+
+        assert.deepEqual(payload, {
+            id: 'c1',
+            type: 'STAFF_GET_BOOKINGS',
+            data: { staffId: 1 },
+            auth: { token: 't' },
+            headers: { 'x-user-id': 4 },
+        });
+    });
+
+    it('leaves the id out of events, which expect no reply', () => {
+        assert.equal(toTCPPayload({ pattern: 'STAFF_PING' }).id, undefined);
+    });
+
+    it('resolves string, JSON and object patterns to message types', () => {
+        assert.equal(resolveNestPattern(' STAFF_PING '), 'STAFF_PING');
+        assert.equal(resolveNestPattern('{"cmd":"STAFF_PING"}'), 'STAFF_PING');
+        assert.equal(resolveNestPattern({ type: 'STAFF_PING' }), 'STAFF_PING');
+        assert.equal(resolveNestPattern(42), undefined);
+    });
+});
+
+describe('Nest replies', () => {
+    it('wraps a result as a disposed response for the request id', () => {
+        assert.deepEqual(toNestResponse('d1', { success: true }), {
+            id: 'd1',
+            response: { success: true },
+            isDisposed: true,
+        });
+    });
+
+    it('wraps a failure as a disposed error carrying the native error envelope', () => {
+        const error = new AppError('Booking not found', [{ message: 'Error.BookingNotFound', path: ['bookingId'] }], {}, 404);
+
+        const envelope = toErrorResponse(error, 'd2');
+
+        assert.deepEqual(toNestError('d2', envelope), { id: 'd2', err: envelope, isDisposed: true });
+        assert.equal(envelope.statusCode, 404);
+    });
+
+    it('encodes replies back into <length>#<json> frames', () => {
+        const reply = JSON.stringify(toNestResponse('d3', { note: 'điều hòa' }));
+
+        assert.equal(encodeFrame('nest', reply).toString('utf8'), `${reply.length}#${reply}`);
+    });
+});
@@ -0,0 +1,199 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { z } from 'zod';
+import { StaffIdentity } from '../../auth/identity';
+import { InMemoryPermissionSource, PermissionGuard, PermissionSource } from '../../auth/permission-guard';
+import { PERMISSIONS } from '../../auth/permissions';
+import { AppError } from '../../handlers/error';
+import { defineMessage, MessageRegistry } from '../../handlers/message-registry';
+import { invalidatePermissionsMessage } from '../../handlers/permission-messages';
+
+const staff: StaffIdentity = {
+    userId: 10,
+    staffId: 1,
+    providerId: 5,
+    managedProviderId: null,
+    roles: ['STAFF'],
+    source: 'jwt',
+};
+
+const manager: StaffIdentity = {
+    userId: 20,
+    staffId: null,
+    providerId: null,
+    managedProviderId: 5,
+    roles: ['SERVICE_PROVIDER'],
+    source: 'jwt',
+};
+
+const grants = {
+    STAFF: [PERMISSIONS.BookingsRead, PERMISSIONS.WorkLogsWrite],
+    SERVICE_PROVIDER: [PERMISSIONS.PerformanceRead],
+};
+
+// Counts lookups so caching can be observed
+function countingSource(source: PermissionSource) {
+    const calls: string[] = [];
+    return {
+        calls,
+        getRolePermissions(roleName: string) {
+            calls.push(roleName);
+            return source.getRolePermissions(roleName);
+        },
+    };
+}
+
+describe('PermissionGuard', () => {
+    it('allows permissions granted by any of the caller roles', async () => {
+        const guard = new PermissionGuard(new InMemoryPermissionSource(grants));
+
+        assert.equal(await guard.can(staff, PERMISSIONS.BookingsRead), true);
+        assert.equal(await guard.can(manager, PERMISSIONS.PerformanceRead), true);
+        assert.equal(await guard.can({ ...staff, roles: ['UNKNOWN', 'STAFF'] }, PERMISSIONS.WorkLogsWrite), true);
+    });
+
+    it('rejects missing permissions with 403 Error.PermissionDenied', async () => {
+        const guard = new PermissionGuard(new InMemoryPermissionSource(grants));
+
+        await assert.rejects(guard.assert(staff, PERMISSIONS.PerformanceRead), (error: AppError) => {
+            assert.equal(error.statusCode, 403);
+            assert.equal(error.code, 'Error.PermissionDenied');
+            return true;
+        });
+        await assert.rejects(guard.assert(manager, PERMISSIONS.WorkLogsWrite));
+    });
+
+    it('caches role permissions until the TTL passes', async () => {
+        let now = 0;
+        const source = countingSource(new InMemoryPermissionSource(grants));
+        const guard = new PermissionGuard(source, { ttl: 1000, now: () => now });
+
+        await guard.can(staff, PERMISSIONS.BookingsRead);
+        await guard.can(staff, PERMISSIONS.WorkLogsWrite);
+        assert.deepEqual(source.calls, ['STAFF']);
+
+        now = 1000;
+        await guard.can(staff, PERMISSIONS.BookingsRead);
+        assert.deepEqual(source.calls, ['STAFF', 'STAFF']);
+    });
+
+    it('reloads a role after invalidation', async () => {
+        const memory = new InMemoryPermissionSource(grants);
+        const guard = new PermissionGuard(memory);
+
+        assert.equal(await guard.can(staff, PERMISSIONS.ReviewsRead), false);
+
+        memory.set('STAFF', [...grants.STAFF, PERMISSIONS.ReviewsRead]);
+        assert.equal(await guard.can(staff, PERMISSIONS.ReviewsRead), false);
+
+        guard.invalidate('STAFF');
+        assert.equal(await guard.can(staff, PERMISSIONS.ReviewsRead), true);
+    });
+
+    it('clears every role when invalidated without a name', async () => {
+        const source = countingSource(new InMemoryPermissionSource(grants));
+        const guard = new PermissionGuard(source);
+
+        await guard.can(staff, PERMISSIONS.BookingsRead);
+        await guard.can(manager, PERMISSIONS.PerformanceRead);
+        guard.invalidate();
+        await guard.can(staff, PERMISSIONS.BookingsRead);
+        await guard.can(manager, PERMISSIONS.PerformanceRead);
+
+        assert.deepEqual(source.calls, ['STAFF', 'SERVICE_PROVIDER', 'STAFF', 'SERVICE_PROVIDER']);
+    });
+
+    it('does not cache failed lookups', async () => {
+        let fail = true;
+        const guard = new PermissionGuard({
+            async getRolePermissions() {
+                if (fail) throw new Error('database unavailable');
+                return [PERMISSIONS.BookingsRead];
+            },
+        });
+
+        await assert.rejects(guard.can(staff, PERMISSIONS.BookingsRead));
+        fail = false;
+        assert.equal(await guard.can(staff, PERMISSIONS.BookingsRead), true);
+    });
+});
+
+describe('MessageRegistry permission checks', () => {
+    const registry = new MessageRegistry({
+        guard: new PermissionGuard(new InMemoryPermissionSource(grants)),
+    }).register(
+        defineMessage({
+            type: 'TEST_PERFORMANCE',
+            description: 'Test message',
+            successMessage: 'ok',
+            input: z.object({}),
+            output: z.object({ ok: z.boolean() }),
+            permission: PERMISSIONS.PerformanceRead,
+            handler: async () => ({ ok: true }),
+        }),
+        defineMessage({
+            type: 'TEST_REVIEW',
+            description: 'Test message needing a caller',
+            successMessage: 'ok',
+            input: z.object({}),
+            output: z.object({ ok: z.boolean() }),
+            permission: PERMISSIONS.PerformanceRead,
+            requiresIdentity: true,
+            handler: async () => ({ ok: true }),
+        })
+    );
+
+    it('dispatches when the caller holds the permission', async () => {
+        const result = await registry.dispatch('TEST_PERFORMANCE', {}, { identity: manager });
+        assert.deepEqual(result.data, { ok: true });
+    });
+
+    it('rejects callers without the permission before running the handler', async () => {
+        await assert.rejects(registry.dispatch('TEST_PERFORMANCE', {}, { identity: staff }), {
+            code: 'Error.PermissionDenied',
+        });
+    });
+
+    it('skips the check for unauthenticated dispatch', async () => {
+        const result = await registry.dispatch('TEST_PERFORMANCE', {});
+        assert.deepEqual(result.data, { ok: true });
+    });
+
+    it('refuses messages that require an identity when dispatched without one', async () => {
+        await assert.rejects(registry.dispatch('TEST_REVIEW', {}), { code: 'Error.Unauthenticated', statusCode: 401 });
+
+        const result = await registry.dispatch('TEST_REVIEW', {}, { identity: manager });
+        assert.deepEqual(result.data, { ok: true });
+    });
+});
+
+describe('SYSTEM_INVALIDATE_PERMISSIONS', () => {
+    const admin: StaffIdentity = { ...manager, userId: 1, roles: ['ADMIN'] };
+
+    it("applies a role's new grants right away instead of after the TTL", async () => {
+        const source = new InMemoryPermissionSource({
+            ...grants,
+            ADMIN: [PERMISSIONS.PermissionsInvalidate],
+        });
+        const guard = new PermissionGuard(source, { ttl: 60_000 });
+        const registry = new MessageRegistry({ guard }).register(invalidatePermissionsMessage(guard));
+
+        assert.equal(await guard.can(staff, PERMISSIONS.ProposalsWrite), false);
+        source.set('STAFF', [...grants.STAFF, PERMISSIONS.ProposalsWrite]);
+        assert.equal(await guard.can(staff, PERMISSIONS.ProposalsWrite), false);
+
+        const result = await registry.dispatch('SYSTEM_INVALIDATE_PERMISSIONS', { roleName: 'STAFF' }, { identity: admin });
+
+        assert.deepEqual(result.data, { roleName: 'STAFF' });
+        assert.equal(await guard.can(staff, PERMISSIONS.ProposalsWrite), true);
+    });
+
+    it('is refused to callers without the permission', async () => {
+        const guard = new PermissionGuard(new InMemoryPermissionSource(grants));
+        const registry = new MessageRegistry({ guard }).register(invalidatePermissionsMessage(guard));
+
+        await assert.rejects(registry.dispatch('SYSTEM_INVALIDATE_PERMISSIONS', {}, { identity: staff }), {
+            code: 'Error.PermissionDenied',
+        });
+    });
+});
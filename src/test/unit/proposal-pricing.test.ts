@@ -0,0 +1,58 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { missingIds, priceProposal, roundMoney } from '../../proposal/pricing';
+
+// Service basePrice and ServiceItem unitPrice by id
+const servicePrices = new Map([
+    [10, 150000],
+    [11, 89.9],
+]);
+const partPrices = new Map([
+    [20, 45000],
+    [21, 0.1],
+]);
+
+describe('priceProposal', () => {
+    it('multiplies quantities by the current prices and sums services and parts', () => {
+        const priced = priceProposal(
+            [
+                { serviceId: 10, quantity: 2, parts: [{ serviceItemId: 20, quantity: 3 }] },
+                { serviceId: 11, quantity: 1, parts: [] },
+            ],
+            servicePrices,
+            partPrices
+        );
+
+        assert.deepEqual(priced.lines, [
+            {
+                serviceId: 10,
+                quantity: 2,
+                unitPrice: 150000,
+                lineTotal: 300000,
+                parts: [{ serviceItemId: 20, quantity: 3, unitPrice: 45000, lineTotal: 135000 }],
+            },
+            { serviceId: 11, quantity: 1, unitPrice: 89.9, lineTotal: 89.9, parts: [] },
+        ]);
+        assert.equal(priced.totalPrice, 435089.9);
+    });
+
+    it('keeps totals free of floating point noise', () => {
+        const priced = priceProposal(
+            [{ serviceId: 11, quantity: 3, parts: [{ serviceItemId: 21, quantity: 3 }] }],
+            servicePrices,
+            partPrices
+        );
+
+        assert.equal(priced.lines[0].lineTotal, 269.7);
+        assert.equal(priced.lines[0].parts[0].lineTotal, 0.3);
+        assert.equal(priced.totalPrice, 270);
+        assert.equal(roundMoney(0.1 + 0.2), 0.3);
+    });
+});
+
+describe('missingIds', () => {
+    it('lists each unavailable id once', () => {
+        assert.deepEqual(missingIds([10, 12, 12, 11, 13], new Set([10, 11])), [12, 13]);
+        assert.deepEqual(missingIds([10], new Set([10])), []);
+    });
+});
@@ -0,0 +1,123 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { AppError } from '../../handlers/error';
+import { diffRevisions, RevisionSnapshot, selectRevisions } from '../../proposal/revisions';
+
+const revision = (version: number, overrides: Partial<RevisionSnapshot> = {}): RevisionSnapshot => ({
+    version,
+    notes: null,
+    totalPrice: 350000,
+    staffId: 7,
+    createdAt: new Date(`2026-03-0${version}T09:00:00+07:00`),
+    items: [
+        {
+            serviceId: 10,
+            serviceName: 'AC cleaning',
+            quantity: 1,
+            unitPrice: 200000,
+            lineTotal: 200000,
+            parts: [{ serviceItemId: 20, name: 'Air filter', quantity: 1, unitPrice: 150000, lineTotal: 150000 }],
+        },
+    ],
+    ...overrides,
+});
+
+// Quoted on site, then a second unit was added and the filter dropped
+const original = revision(1);
+const revised = revision(2, {
+    notes: 'Second unit in the bedroom',
+    totalPrice: 480000,
+    items: [
+        { serviceId: 10, serviceName: 'AC cleaning', quantity: 2, unitPrice: 200000, lineTotal: 400000, parts: [] },
+        { serviceId: 11, serviceName: 'Gas top-up', quantity: 1, unitPrice: 80000, lineTotal: 80000, parts: [] },
+    ],
+});
+
+describe('diffRevisions', () => {
+    it('lists added, removed and requoted services and parts with the price change', () => {
+        const diff = diffRevisions(original, revised);
+
+        assert.equal(diff.fromVersion, 1);
+        assert.equal(diff.toVersion, 2);
+        assert.equal(diff.notesChanged, true);
+        assert.equal(diff.totalPriceChange, 130000);
+        assert.deepEqual(diff.services, [
+            {
+                id: 10,
+                name: 'AC cleaning',
+                change: 'CHANGED',
+                before: { quantity: 1, unitPrice: 200000, total: 200000 },
+                after: { quantity: 2, unitPrice: 200000, total: 400000 },
+            },
+            {
+                id: 11,
+                name: 'Gas top-up',
+                change: 'ADDED',
+                before: null,
+                after: { quantity: 1, unitPrice: 80000, total: 80000 },
+            },
+        ]);
+        assert.deepEqual(diff.parts, [
+            {
+                id: 20,
+                name: 'Air filter',
+                change: 'REMOVED',
+                before: { quantity: 1, unitPrice: 150000, total: 150000 },
+                after: null,
+            },
+        ]);
+    });
+
+    it('folds a service quoted on several lines and omits unchanged entries', () => {
+        const split = revision(3, {
+            items: [
+                { ...original.items[0], quantity: 1, lineTotal: 200000, parts: [] },
+                { ...original.items[0], quantity: 1, lineTotal: 200000, parts: original.items[0].parts },
+            ],
+        });
+
+        const diff = diffRevisions(revision(2, { items: [{ ...original.items[0], quantity: 2, lineTotal: 400000 }] }), split);
+
+        assert.deepEqual(diff.services, []);
+        assert.deepEqual(diff.parts, []);
+        assert.equal(diff.notesChanged, false);
+    });
+
+    it('leaves the price change unknown when a version was never priced', () => {
+        assert.equal(diffRevisions(revision(1, { totalPrice: null }), revised).totalPriceChange, null);
+    });
+});
+
+describe('selectRevisions', () => {
+    const revisions = [original, revised];
+
+    it('returns the current version diffed against the previous one by default', () => {
+        const { revision: current, diff } = selectRevisions(revisions, 2);
+
+        assert.equal(current, revised);
+        assert.equal(diff?.fromVersion, 1);
+    });
+
+    it('returns the original quote without a diff', () => {
+        const { revision: first, diff } = selectRevisions(revisions, 2, { version: 1 });
+
+        assert.equal(first, original);
+        assert.equal(diff, null);
+    });
+
+    it('compares against any chosen version', () => {
+        const { diff } = selectRevisions(revisions, 2, { version: 1, compareTo: 2 });
+
+        assert.equal(diff?.fromVersion, 2);
+        assert.equal(diff?.totalPriceChange, -130000);
+    });
+
+    it('has nothing to show for proposals without versions', () => {
+        assert.deepEqual(selectRevisions([], null), { revision: null, diff: null });
+    });
+
+    it('rejects unknown versions', () => {
+        assert.throws(() => selectRevisions(revisions, 2, { version: 3 }), AppError);
+        assert.throws(() => selectRevisions(revisions, 2, { compareTo: 5 }), AppError);
+    });
+});
@@ -0,0 +1,31 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { AppError } from '../../handlers/error';
+import { assertInspectionId, assertReportOwner } from '../../inspection/report-access';
+
+const failsWith = (statusCode: number, code: string) => (error: AppError) => {
+    assert.equal(error.statusCode, statusCode);
+    assert.equal(error.code, code);
+    return true;
+};
+
+describe('assertInspectionId', () => {
+    it('lets a valid id through', () => {
+        assert.doesNotThrow(() => assertInspectionId(42));
+    });
+
+    it('rejects zero and negative ids', () => {
+        assert.throws(() => assertInspectionId(0), failsWith(400, 'Error.InvalidInspectionId'));
+        assert.throws(() => assertInspectionId(-3), failsWith(400, 'Error.InvalidInspectionId'));
+    });
+});
+
+describe('assertReportOwner', () => {
+    it('lets the staff member who filed the report read it', () => {
+        assert.doesNotThrow(() => assertReportOwner({ staffId: 7 }, 7));
+    });
+
+    it("refuses another staff member's report with 403", () => {
+        assert.throws(() => assertReportOwner({ staffId: 7 }, 8), failsWith(403, 'Error.UnauthorizedAccess'));
+    });
+});
@@ -0,0 +1,114 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { AppError } from '../../handlers/error';
+import { toErrorResponse } from '../../tcp/error-response';
+import { FrameTooLargeError } from '../../tcp/framing';
+import { RequestPipeline } from '../../tcp/pipeline';
+
+// Records pause/resume calls the way a net.Socket would report them
+function fakeSocket() {
+    const calls: string[] = [];
+    let paused = false;
+    return {
+        calls,
+        pause: () => {
+            calls.push('pause');
+            paused = true;
+        },
+        resume: () => {
+            calls.push('resume');
+            paused = false;
+        },
+        isPaused: () => paused,
+    };
+}
+
+// A message whose handling finishes only when the test says so
+function controlledMessages() {
+    const started: string[] = [];
+    const finishers = new Map<string, () => void>();
+    const replies: { id: string }[] = [];
+
+    const process = (id: string) =>
+        new Promise<void>((resolve) => {
+            started.push(id);
+            finishers.set(id, () => {
+                replies.push({ id });
+                resolve();
+            });
+        });
+
+    const finish = async (id: string) => {
+        finishers.get(id)!();
+        // Let the pipeline's settle callback run
+        await new Promise((resolve) => setImmediate(resolve));
+    };
+
+    return { started, replies, process, finish };
+}
+
+describe('RequestPipeline', () => {
+    it('runs at most the in-flight limit at once and pauses the socket while messages wait', async () => {
+        const socket = fakeSocket();
+        const messages = controlledMessages();
+        const pipeline = new RequestPipeline(socket, 2, messages.process);
+
+        pipeline.push('a', 'b', 'c', 'd');
+
+        assert.deepEqual(messages.started, ['a', 'b']);
+        assert.equal(pipeline.inFlight, 2);
+        assert.equal(pipeline.pending, 2);
+        assert.ok(socket.isPaused());
+
+        await messages.finish('a');
+        assert.deepEqual(messages.started, ['a', 'b', 'c']);
+        assert.ok(socket.isPaused());
+
+        await messages.finish('b');
+        assert.deepEqual(messages.started, ['a', 'b', 'c', 'd']);
+        assert.equal(pipeline.pending, 0);
+        assert.equal(socket.isPaused(), false);
+
+        await messages.finish('c');
+        await messages.finish('d');
+        assert.equal(pipeline.inFlight, 0);
+        assert.equal(socket.calls.at(-1), 'resume');
+    });
+
+    it('replies as each message finishes, so a slow message does not hold back later ids', async () => {
+        const socket = fakeSocket();
+        const messages = controlledMessages();
+        const pipeline = new RequestPipeline(socket, 16, messages.process);
+
+        pipeline.push('slow', 'fast');
+        await messages.finish('fast');
+        await messages.finish('slow');
+
+        assert.deepEqual(messages.replies, [{ id: 'fast' }, { id: 'slow' }]);
+        assert.deepEqual(socket.calls, []);
+    });
+});
+
+describe('toErrorResponse', () => {
+    it('echoes the request id so callers can match the failure to their request', () => {
+        const error = new AppError('Booking not found', [{ message: 'Error.BookingNotFound', path: ['bookingId'] }], {}, 404);
+
+        const response = toErrorResponse(error, 'req-7');
+
+        assert.equal(response.id, 'req-7');
+        assert.equal(response.statusCode, 404);
+        assert.deepEqual(response.message, { message: 'Error.BookingNotFound', path: ['bookingId'] });
+    });
+
+    it('leaves the id out when the request had none or could not be read', () => {
+        const response = toErrorResponse(new FrameTooLargeError());
+
+        assert.equal('id' in response, false);
+        assert.equal(response.statusCode, 413);
+        assert.equal(response.error, 'Error.PayloadTooLarge');
+    });
+
+    it('reports unknown failures as unexpected', () => {
+        assert.equal(toErrorResponse(new Error('boom'), 3).error, 'Error.Unexpected');
+    });
+});
@@ -0,0 +1,77 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { bookingWindow, DEFAULT_BOOKING_MINUTES, findConflicts, ScheduledBooking } from '../../schedule/conflicts';
+
+const at = (time: string) => new Date(`2025-06-02T${time}:00Z`);
+
+const booking = (bookingId: number, start: string, overrides: Partial<ScheduledBooking> = {}): ScheduledBooking => ({
+    bookingId,
+    start: at(start),
+    proposalMinutes: null,
+    estimatedMinutes: null,
+    ...overrides,
+});
+
+describe('bookingWindow', () => {
+    it('prefers proposal durations over the inspection estimate', () => {
+        const window = bookingWindow(booking(1, '08:00', { proposalMinutes: 90, estimatedMinutes: 30 }));
+
+        assert.equal(window.durationSource, 'proposal');
+        assert.deepEqual(window.end, at('09:30'));
+    });
+
+    it('falls back to the inspection estimate, then the default', () => {
+        assert.equal(bookingWindow(booking(1, '08:00', { estimatedMinutes: 45 })).durationMinutes, 45);
+
+        const fallback = bookingWindow(booking(1, '08:00'));
+        assert.equal(fallback.durationSource, 'default');
+        assert.equal(fallback.durationMinutes, DEFAULT_BOOKING_MINUTES);
+    });
+});
+
+describe('findConflicts', () => {
+    it('reports overlapping bookings with the overlap window', () => {
+        const windows = [
+            bookingWindow(booking(1, '08:00', { proposalMinutes: 120 })),
+            bookingWindow(booking(2, '09:30', { proposalMinutes: 60 })),
+        ];
+
+        assert.deepEqual(findConflicts(windows), [
+            { bookingIds: [1, 2], overlapStart: at('09:30'), overlapEnd: at('10:00'), overlapMinutes: 30 },
+        ]);
+    });
+
+    it('does not flag back-to-back bookings', () => {
+        const windows = [
+            bookingWindow(booking(1, '08:00', { proposalMinutes: 60 })),
+            bookingWindow(booking(2, '09:00', { proposalMinutes: 60 })),
+        ];
+
+        assert.deepEqual(findConflicts(windows), []);
+    });
+
+    it('pairs every booking a long job overlaps, whatever the input order', () => {
+        const windows = [
+            bookingWindow(booking(3, '11:00', { proposalMinutes: 30 })),
+            bookingWindow(booking(2, '09:00', { proposalMinutes: 30 })),
+            bookingWindow(booking(1, '08:00', { proposalMinutes: 240 })),
+        ];
+
+        assert.deepEqual(
+            findConflicts(windows).map((conflict) => conflict.bookingIds),
+            [
+                [1, 2],
+                [1, 3],
+            ]
+        );
+    });
+
+    it('reports a nested booking for its full length', () => {
+        const windows = [
+            bookingWindow(booking(1, '08:00', { proposalMinutes: 240 })),
+            bookingWindow(booking(2, '09:00', { estimatedMinutes: 30 })),
+        ];
+
+        assert.equal(findConflicts(windows)[0].overlapMinutes, 30);
+    });
+});
@@ -0,0 +1,237 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import {
+    BookingStatus,
+    Prisma,
+    ProposalStatus,
+    RequestStatus,
+    StockReservationStatus,
+    TransitionActorType,
+} from '../../generated/prisma';
+import {
+    canStartWork,
+    canTransitionBooking,
+    canTransitionRequest,
+    transitionBooking,
+    transitionServiceRequest,
+} from '../../state/status-machine';
+
+const staffActor = { actor: { type: TransitionActorType.STAFF, id: 1 } };
+
+// Just enough of a transaction client for the state machine
+function fakeTx(booking: { id: number; status: BookingStatus; staffId: number | null }, requestStatus?: RequestStatus) {
+    const request = requestStatus ? { id: 50, status: requestStatus } : null;
+    const bookingHistory: any[] = [];
+    const requestHistory: any[] = [];
+    const stockUpdates: any[] = [];
+    const restocked: any[] = [];
+    const warranties: any[] = [];
+    // Parts held for the booking; none unless a test adds them
+    const reservations: { id: number; serviceItemId: number; quantity: number; status: StockReservationStatus }[] = [];
+
+    const tx = {
+        booking: {
+            findUnique: async () => ({ ...booking }),
+            // Completed with an accepted one-service proposal and no parts
+            findUniqueOrThrow: async () => ({
+                customerId: 30,
+                providerId: 5,
+                Proposal: {
+                    status: ProposalStatus.ACCEPTED,
+                    ProposalItem: [{ quantity: 1, Service: { id: 10, name: 'AC repair' } }],
+                },
+                StockReservation: [],
+            }),
+            updateMany: async ({ where, data }: any) => {
+                if (where.status !== booking.status) return { count: 0 };
+                booking.status = data.status;
+                return { count: 1 };
+            },
+        },
+        bookingStatusHistory: {
+            create: async ({ data }: any) => bookingHistory.push(data),
+        },
+        serviceRequest: {
+            findUnique: async () => (request ? { ...request, Booking: { id: booking.id, status: booking.status } } : null),
+            updateMany: async ({ where, data }: any) => {
+                if (!request || where.status !== request.status) return { count: 0 };
+                request.status = data.status;
+                return { count: 1 };
+            },
+        },
+        serviceRequestStatusHistory: {
+            create: async ({ data }: any) => requestHistory.push(data),
+        },
+        stockReservation: {
+            findMany: async ({ where }: any) => reservations.filter((row) => row.status === where.status),
+            updateMany: async (args: any) => {
+                stockUpdates.push(args);
+                const row = reservations.find((held) => held.id === args.where.id && held.status === args.where.status);
+                if (!row) return { count: 0 };
+                row.status = args.data.status;
+                return { count: 1 };
+            },
+        },
+        serviceItem: {
+            update: async ({ where, data }: any) => restocked.push({ id: where.id, quantity: data.stockQuantity.increment }),
+        },
+        warranty: {
+            createMany: async ({ data }: any) => {
+                warranties.push(...data);
+                return { count: data.length };
+            },
+        },
+    };
+
+    return {
+        tx: tx as unknown as Prisma.TransactionClient,
+        booking,
+        request,
+        bookingHistory,
+        requestHistory,
+        stockUpdates,
+        restocked,
+        reservations,
+        warranties,
+    };
+}
+
+describe('status transition tables', () => {
+    it('never leaves a terminal booking status', () => {
+        assert.equal(canTransitionBooking(BookingStatus.CANCELLED, BookingStatus.COMPLETED), false);
+        assert.equal(canTransitionBooking(BookingStatus.COMPLETED, BookingStatus.CANCELLED), false);
+        assert.equal(canTransitionBooking(BookingStatus.CONFIRMED, BookingStatus.COMPLETED), true);
+    });
+
+    it('moves service requests forward only', () => {
+        assert.equal(canTransitionRequest(RequestStatus.PENDING, RequestStatus.IN_PROGRESS), true);
+        assert.equal(canTransitionRequest(RequestStatus.IN_PROGRESS, RequestStatus.ESTIMATED), true);
+        assert.equal(canTransitionRequest(RequestStatus.ESTIMATED, RequestStatus.IN_PROGRESS), false);
+        assert.equal(canTransitionRequest(RequestStatus.CANCELLED, RequestStatus.IN_PROGRESS), false);
+    });
+});
+
+describe('canStartWork', () => {
+    it('starts the request on the first check-in', () => {
+        assert.equal(canStartWork(BookingStatus.CONFIRMED, RequestStatus.PENDING, true), true);
+        assert.equal(canStartWork(BookingStatus.PENDING, undefined, true), true);
+    });
+
+    it('lets staff check in again and resume after the inspection moved the request to ESTIMATED', () => {
+        // Check-in after a checked-out session, and resume after a pause, are both follow-up sessions
+        assert.equal(canStartWork(BookingStatus.CONFIRMED, RequestStatus.ESTIMATED, false), true);
+        assert.equal(canStartWork(BookingStatus.CONFIRMED, RequestStatus.IN_PROGRESS, false), true);
+    });
+
+    it('lets the first session start on a request inspected without a check-in', () => {
+        assert.equal(canStartWork(BookingStatus.CONFIRMED, RequestStatus.ESTIMATED, true), true);
+    });
+
+    it('only starts a pending request on the first session', () => {
+        assert.equal(canStartWork(BookingStatus.CONFIRMED, RequestStatus.PENDING, false), false);
+    });
+
+    it('refuses finished bookings and cancelled requests', () => {
+        assert.equal(canStartWork(BookingStatus.COMPLETED, RequestStatus.ESTIMATED, false), false);
+        assert.equal(canStartWork(BookingStatus.CANCELLED, RequestStatus.IN_PROGRESS, false), false);
+        assert.equal(canStartWork(BookingStatus.CONFIRMED, RequestStatus.CANCELLED, true), false);
+    });
+});
+
+describe('transitionBooking', () => {
+    it('records the change with its actor', async () => {
+        const { tx, booking, bookingHistory } = fakeTx({ id: 7, status: BookingStatus.CONFIRMED, staffId: 1 });
+
+        const result = await transitionBooking(tx, 7, BookingStatus.COMPLETED, staffActor);
+
+        assert.deepEqual(result, { from: BookingStatus.CONFIRMED, to: BookingStatus.COMPLETED, changed: true });
+        assert.equal(booking.status, BookingStatus.COMPLETED);
+        assert.equal(bookingHistory.length, 1);
+        assert.equal(bookingHistory[0].actorType, TransitionActorType.STAFF);
+        assert.equal(bookingHistory[0].actorId, 1);
+    });
+
+    it('commits used parts and issues warranties on completion, once', async () => {
+        const { tx, stockUpdates, warranties } = fakeTx({ id: 7, status: BookingStatus.CONFIRMED, staffId: 1 });
+
+        await transitionBooking(tx, 7, BookingStatus.COMPLETED, staffActor);
+        await transitionBooking(tx, 7, BookingStatus.COMPLETED, staffActor);
+
+        assert.equal(stockUpdates.length, 1);
+        assert.equal(stockUpdates[0].data.status, StockReservationStatus.COMMITTED);
+        assert.equal(warranties.length, 1);
+        assert.equal(warranties[0].itemId, 10);
+        assert.equal(warranties[0].bookingId, 7);
+    });
+
+    it('returns held parts to stock in the cancelling transaction', async () => {
+        const { tx, reservations, restocked } = fakeTx({ id: 7, status: BookingStatus.CONFIRMED, staffId: 1 });
+        reservations.push({ id: 1, serviceItemId: 20, quantity: 2, status: StockReservationStatus.RESERVED });
+
+        await transitionBooking(tx, 7, BookingStatus.CANCELLED, staffActor);
+        await transitionBooking(tx, 7, BookingStatus.CANCELLED, staffActor);
+
+        assert.equal(reservations[0].status, StockReservationStatus.RELEASED);
+        assert.deepEqual(restocked, [{ id: 20, quantity: 2 }]);
+    });
+
+    it('rejects completing a cancelled booking', async () => {
+        const { tx, booking, bookingHistory } = fakeTx({ id: 7, status: BookingStatus.CANCELLED, staffId: 1 });
+
+        await assert.rejects(transitionBooking(tx, 7, BookingStatus.COMPLETED, staffActor), {
+            code: 'Error.InvalidStatusTransition',
+            statusCode: 409,
+        });
+        assert.equal(booking.status, BookingStatus.CANCELLED);
+        assert.equal(bookingHistory.length, 0);
+    });
+
+    it('rejects completing a booking without staff', async () => {
+        const { tx } = fakeTx({ id: 7, status: BookingStatus.PENDING, staffId: null });
+
+        await assert.rejects(transitionBooking(tx, 7, BookingStatus.COMPLETED, staffActor), {
+            code: 'Error.InvalidStatusTransition',
+        });
+    });
+
+    it('returns an accepted booking to PENDING only once its staff member is unassigned', async () => {
+        const { tx, booking, bookingHistory } = fakeTx({ id: 7, status: BookingStatus.CONFIRMED, staffId: 1 });
+
+        await assert.rejects(transitionBooking(tx, 7, BookingStatus.PENDING, staffActor), {
+            code: 'Error.InvalidStatusTransition',
+        });
+
+        booking.staffId = null;
+        const result = await transitionBooking(tx, 7, BookingStatus.PENDING, staffActor);
+
+        assert.equal(result.changed, true);
+        assert.equal(booking.status, BookingStatus.PENDING);
+        assert.equal(bookingHistory.length, 1);
+    });
+
+    it('treats the current status as a no-op', async () => {
+        const { tx, bookingHistory } = fakeTx({ id: 7, status: BookingStatus.COMPLETED, staffId: 1 });
+
+        const result = await transitionBooking(tx, 7, BookingStatus.COMPLETED, staffActor);
+
+        assert.equal(result.changed, false);
+        assert.equal(bookingHistory.length, 0);
+    });
+});
+
+describe('transitionServiceRequest', () => {
+    it('cancels the linked booking when the request is cancelled, releasing its parts', async () => {
+        const { tx, booking, bookingHistory, requestHistory, reservations, restocked } = fakeTx(
+            { id: 7, status: BookingStatus.PENDING, staffId: 1 },
+            RequestStatus.IN_PROGRESS
+        );
+        reservations.push({ id: 1, serviceItemId: 20, quantity: 2, status: StockReservationStatus.RESERVED });
+
+        await transitionServiceRequest(tx, 50, RequestStatus.CANCELLED, staffActor);
+
+        assert.equal(booking.status, BookingStatus.CANCELLED);
+        assert.equal(requestHistory[0].toStatus, RequestStatus.CANCELLED);
+        assert.equal(bookingHistory[0].reason, 'Service request cancelled');
+        assert.deepEqual(restocked, [{ id: 20, quantity: 2 }]);
+    });
+});
@@ -0,0 +1,51 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { StockReleaseStore, StockReleaseSweeper } from '../../jobs/stock-release-sweeper';
+
+// Reservation counts per booking, emptied as they are released
+class InMemoryStore implements StockReleaseStore {
+    lookups = 0;
+
+    constructor(
+        private readonly held: Map<number, number>,
+        private readonly broken: Set<number> = new Set()
+    ) {}
+
+    async findReleasableBookings(): Promise<number[]> {
+        this.lookups++;
+        return [...this.held.keys()];
+    }
+
+    async releaseForBooking(bookingId: number): Promise<number> {
+        if (this.broken.has(bookingId)) throw new Error('connection reset');
+        const count = this.held.get(bookingId) ?? 0;
+        this.held.delete(bookingId);
+        return count;
+    }
+}
+
+describe('StockReleaseSweeper', () => {
+    it('releases every booking and carries on past failures', async () => {
+        const store = new InMemoryStore(new Map([[1, 2], [2, 1], [3, 4]]), new Set([2]));
+        const sweeper = new StockReleaseSweeper(store);
+
+        const originalError = console.error;
+        console.error = () => {};
+        try {
+            assert.deepEqual(await sweeper.sweep(), { scanned: 3, released: 6, failed: [2] });
+        } finally {
+            console.error = originalError;
+        }
+    });
+
+    it('shares a sweep already in progress', async () => {
+        const store = new InMemoryStore(new Map([[1, 1]]));
+        const sweeper = new StockReleaseSweeper(store);
+
+        const [first, second] = await Promise.all([sweeper.sweep(), sweeper.sweep()]);
+
+        assert.equal(first, second);
+        assert.equal(store.lookups, 1);
+        assert.deepEqual(await sweeper.sweep(), { scanned: 0, released: 0, failed: [] });
+    });
+});
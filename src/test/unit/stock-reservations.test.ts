@@ -0,0 +1,123 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { BookingStatus, Prisma, ProposalStatus, StockReservationStatus } from '../../generated/prisma';
+import {
+    commitReserved,
+    findReleasableBookings,
+    releaseReserved,
+    reserveForProposal,
+} from '../../inventory/reservations';
+
+interface Reservation {
+    id: number;
+    bookingId: number;
+    proposalId: number;
+    serviceItemId: number;
+    quantity: number;
+    status: StockReservationStatus;
+}
+
+const matchesValue = (value: any, condition: any) =>
+    condition !== null && typeof condition === 'object' && 'in' in condition
+        ? condition.in.includes(value)
+        : value === condition;
+
+// Just enough of a transaction client for stock reservations, with one proposal per booking
+function fakeStore(stock: Record<number, number>) {
+    const items = new Map(Object.entries(stock).map(([id, quantity]) => [Number(id), quantity]));
+    const bookings = new Map<number, BookingStatus>();
+    const proposals = new Map<number, ProposalStatus>();
+    const reservations: Reservation[] = [];
+
+    const matches = (row: Reservation, where: any): boolean =>
+        Object.entries(where).every(([key, condition]: [string, any]) => {
+            if (key === 'OR') return condition.some((branch: any) => matches(row, branch));
+            if (key === 'Booking') return matchesValue(bookings.get(row.bookingId), condition.status);
+            if (key === 'Proposal') return matchesValue(proposals.get(row.proposalId), condition.status);
+            return matchesValue(row[key as keyof Reservation], condition);
+        });
+
+    const tx = {
+        serviceItem: {
+            updateMany: async ({ where, data }: any) => {
+                const quantity = items.get(where.id) ?? 0;
+                if (quantity < where.stockQuantity.gte) return { count: 0 };
+                items.set(where.id, quantity - data.stockQuantity.decrement);
+                return { count: 1 };
+            },
+            update: async ({ where, data }: any) => {
+                items.set(where.id, (items.get(where.id) ?? 0) + data.stockQuantity.increment);
+            },
+            findMany: async ({ where }: any) =>
+                where.id.in.map((id: number) => ({ id, stockQuantity: items.get(id) ?? 0 })),
+        },
+        stockReservation: {
+            create: async ({ data }: any) => {
+                reservations.push({ ...data, id: reservations.length + 1, status: StockReservationStatus.RESERVED });
+            },
+            findMany: async ({ where, distinct }: any) => {
+                const rows = reservations.filter((row) => matches(row, where));
+                return distinct ? [...new Map(rows.map((row) => [row.bookingId, row])).values()] : rows;
+            },
+            updateMany: async ({ where, data }: any) => {
+                const rows = reservations.filter((row) => matches(row, where));
+                rows.forEach((row) => (row.status = data.status));
+                return { count: rows.length };
+            },
+        },
+    };
+
+    return { tx: tx as unknown as Prisma.TransactionClient, items, bookings, proposals, reservations };
+}
+
+const lines = [{ parts: [{ serviceItemId: 20, quantity: 2 }] }];
+
+describe('stock reservations', () => {
+    it('keeps the parts of a pending proposal held at check-out and returns them once it is rejected', async () => {
+        const store = fakeStore({ 20: 10 });
+        store.bookings.set(1, BookingStatus.CONFIRMED);
+        store.proposals.set(5, ProposalStatus.PENDING);
+
+        await reserveForProposal(store.tx, 1, 5, lines);
+        assert.equal(store.items.get(20), 8);
+
+        // Checking out of the inspection visit before the customer decided
+        assert.equal(await commitReserved(store.tx, 1), 0);
+        assert.deepEqual(await findReleasableBookings(store.tx), []);
+
+        store.proposals.set(5, ProposalStatus.REJECTED);
+        assert.deepEqual(await findReleasableBookings(store.tx), [1]);
+        assert.equal(await releaseReserved(store.tx, 1), 1);
+
+        assert.equal(store.items.get(20), 10);
+        assert.equal(store.reservations[0].status, StockReservationStatus.RELEASED);
+        assert.deepEqual(await findReleasableBookings(store.tx), []);
+    });
+
+    it('commits the parts of an accepted proposal at check-out for good', async () => {
+        const store = fakeStore({ 20: 10 });
+        store.bookings.set(1, BookingStatus.CONFIRMED);
+        store.proposals.set(5, ProposalStatus.ACCEPTED);
+
+        await reserveForProposal(store.tx, 1, 5, lines);
+        assert.equal(await commitReserved(store.tx, 1), 1);
+
+        store.bookings.set(1, BookingStatus.COMPLETED);
+        assert.deepEqual(await findReleasableBookings(store.tx), []);
+        assert.equal(store.items.get(20), 8);
+    });
+
+    it('returns parts still held when the job is completed without an accepted proposal', async () => {
+        const store = fakeStore({ 20: 10 });
+        store.bookings.set(1, BookingStatus.CONFIRMED);
+        store.proposals.set(5, ProposalStatus.PENDING);
+
+        await reserveForProposal(store.tx, 1, 5, lines);
+        await commitReserved(store.tx, 1);
+        store.bookings.set(1, BookingStatus.COMPLETED);
+
+        assert.deepEqual(await findReleasableBookings(store.tx), [1]);
+        await releaseReserved(store.tx, 1);
+        assert.equal(store.items.get(20), 10);
+    });
+});
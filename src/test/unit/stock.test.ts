@@ -0,0 +1,28 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { partQuantities, stillToReserve } from '../../inventory/stock';
+
+describe('partQuantities', () => {
+    it('adds up a part fitted on several lines', () => {
+        const totals = partQuantities([
+            { parts: [{ serviceItemId: 20, quantity: 2 }, { serviceItemId: 21, quantity: 1 }] },
+            { parts: [] },
+            { parts: [{ serviceItemId: 20, quantity: 3 }] },
+        ]);
+
+        assert.deepEqual([...totals], [[20, 5], [21, 1]]);
+    });
+});
+
+describe('stillToReserve', () => {
+    it('skips what was already used on the job and orders by part id', () => {
+        const needed = new Map([[30, 4], [20, 2], [25, 1]]);
+        const committed = new Map([[20, 2], [30, 1]]);
+
+        assert.deepEqual([...stillToReserve(needed, committed)], [[25, 1], [30, 3]]);
+    });
+
+    it('never reserves a negative quantity when the proposal shrank after use', () => {
+        assert.deepEqual([...stillToReserve(new Map([[20, 1]]), new Map([[20, 3]]))], []);
+    });
+});
@@ -0,0 +1,51 @@
+import assert from 'node:assert/strict';
+import net from 'node:net';
+import { after, before, describe, it } from 'node:test';
+import { TCPConnection } from '../../tcp/client';
+import { FrameDecoder } from '../../tcp/framing';
+
+// Answers every newline-delimited request with its id after a short delay
+function delayedEchoServer(delayMs: number): net.Server {
+    return net.createServer((socket) => {
+        const decoder = new FrameDecoder(1024 * 1024, 'newline');
+        socket.on('data', (chunk) => {
+            for (const { body } of decoder.push(chunk)) {
+                const { id } = JSON.parse(body);
+                setTimeout(() => {
+                    if (!socket.destroyed) socket.write(JSON.stringify({ id, success: true }) + '\n');
+                }, delayMs);
+            }
+        });
+        socket.on('error', () => {});
+    });
+}
+
+describe('TCPConnection', () => {
+    const server = delayedEchoServer(50);
+    let port = 0;
+
+    before(async () => {
+        await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+        port = (server.address() as net.AddressInfo).port;
+    });
+
+    after(async () => {
+        await new Promise((resolve) => server.close(resolve));
+    });
+
+    it('keeps requests on a new socket alive when the replaced socket closes late', async () => {
+        const connection = new TCPConnection({ host: '127.0.0.1', port });
+        await connection.connect();
+
+        try {
+            // The old socket's close event arrives while the new socket's request is in flight
+            connection.close();
+            const reply = await connection.request({ type: 'PING' });
+
+            assert.equal(reply.success, true);
+            assert.equal(connection.inFlight, 0);
+        } finally {
+            connection.close();
+        }
+    });
+});
@@ -0,0 +1,98 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { rangeBounds } from '../../schedule/date-range';
+import {
+    zonedDateKey,
+    zonedDayBounds,
+    zonedFilterBounds,
+    zonedMonthBounds,
+    zonedParts,
+} from '../../schedule/time-zone';
+
+const ZONE = 'Asia/Ho_Chi_Minh';
+
+describe('zonedDateKey', () => {
+    it('moves evening UTC times onto the next Vietnam day', () => {
+        // 00:30 on 20 October in Ho Chi Minh City
+        assert.equal(zonedDateKey(new Date('2026-10-19T17:30:00Z'), ZONE), '2026-10-20');
+        assert.equal(zonedDateKey(new Date('2026-10-19T16:59:59Z'), ZONE), '2026-10-19');
+    });
+
+    it('keeps early UTC times on the same day', () => {
+        assert.equal(zonedDateKey(new Date('2026-10-20T00:30:00Z'), ZONE), '2026-10-20');
+    });
+});
+
+describe('zonedParts', () => {
+    it('reads hour and weekday in the zone', () => {
+        const parts = zonedParts(new Date('2026-10-19T17:30:00Z'), ZONE);
+
+        assert.equal(parts.hour, 0);
+        assert.equal(parts.minute, 30);
+        // 20 October 2026 is a Tuesday
+        assert.equal(parts.weekday, 2);
+    });
+});
+
+describe('zonedDayBounds', () => {
+    it('covers midnight to midnight Vietnam time', () => {
+        assert.deepEqual(zonedDayBounds('2026-10-20', ZONE), {
+            start: new Date('2026-10-19T17:00:00Z'),
+            end: new Date('2026-10-20T17:00:00Z'),
+        });
+    });
+
+    it('includes a job at 00:30 local and excludes one at 23:30 local the day before', () => {
+        const { start, end } = zonedDayBounds('2026-10-20', ZONE);
+        const inside = new Date('2026-10-20T00:30:00+07:00');
+        const before = new Date('2026-10-19T23:30:00+07:00');
+
+        assert.ok(inside >= start && inside < end);
+        assert.ok(before < start);
+    });
+
+    it('follows the offset of zones with daylight saving time', () => {
+        // Clocks in New York go back on 1 November 2026
+        const { start, end } = zonedDayBounds('2026-11-01', 'America/New_York');
+
+        assert.deepEqual(start, new Date('2026-11-01T04:00:00Z'));
+        assert.deepEqual(end, new Date('2026-11-02T05:00:00Z'));
+    });
+});
+
+describe('zonedMonthBounds', () => {
+    it('starts and ends at local midnight, rolling over the year', () => {
+        assert.deepEqual(zonedMonthBounds(2026, 12, ZONE), {
+            start: new Date('2026-11-30T17:00:00Z'),
+            end: new Date('2026-12-31T17:00:00Z'),
+        });
+    });
+});
+
+describe('zonedFilterBounds', () => {
+    it('includes the whole toDate when given calendar dates', () => {
+        assert.deepEqual(zonedFilterBounds('2026-10-01', '2026-10-20', ZONE), {
+            gte: new Date('2026-09-30T17:00:00Z'),
+            lt: new Date('2026-10-20T17:00:00Z'),
+        });
+    });
+
+    it('uses full timestamps as given', () => {
+        assert.deepEqual(zonedFilterBounds('2026-10-01T08:00:00+07:00', undefined, ZONE), {
+            gte: new Date('2026-10-01T01:00:00Z'),
+        });
+    });
+
+    it('leaves the filter open when no dates are given', () => {
+        assert.deepEqual(zonedFilterBounds(undefined, undefined, ZONE), {});
+    });
+});
+
+describe('rangeBounds', () => {
+    it('covers resolved calendar ranges in the business time zone', () => {
+        assert.deepEqual(rangeBounds({ fromDate: '2026-10-20', toDate: '2026-10-21' }), {
+            start: new Date('2026-10-19T17:00:00Z'),
+            end: new Date('2026-10-21T17:00:00Z'),
+        });
+    });
+});
@@ -0,0 +1,75 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { WarrantySubject } from '../../generated/prisma';
+import { addMonths, warrantiesFor, warrantyStatus } from '../../warranty/warranty';
+
+const completedAt = new Date('2025-01-31T10:00:00+07:00');
+
+describe('addMonths', () => {
+    it('keeps the time of day and clamps to the end of shorter months', () => {
+        assert.deepEqual(addMonths(completedAt, 1), new Date('2025-02-28T10:00:00+07:00'));
+        assert.deepEqual(addMonths(completedAt, 13), new Date('2026-02-28T10:00:00+07:00'));
+        assert.deepEqual(addMonths(new Date('2024-01-31T03:00:00Z'), 1), new Date('2024-02-29T03:00:00Z'));
+        assert.deepEqual(addMonths(new Date('2025-03-15T03:00:00Z'), 12), new Date('2026-03-15T03:00:00Z'));
+    });
+});
+
+describe('warrantiesFor', () => {
+    it('covers each service for the workmanship period and each part for its own', () => {
+        const terms = warrantiesFor(
+            {
+                services: [
+                    { serviceId: 10, name: 'AC repair', quantity: 1 },
+                    { serviceId: 10, name: 'AC repair', quantity: 1 },
+                ],
+                parts: [
+                    { serviceItemId: 20, name: 'Compressor', quantity: 1, warrantyPeriod: 12 },
+                    { serviceItemId: 21, name: 'Cable ties', quantity: 10, warrantyPeriod: null },
+                    { serviceItemId: 22, name: 'Capacitor', quantity: 2, warrantyPeriod: 0 },
+                ],
+            },
+            completedAt,
+            3
+        );
+
+        assert.deepEqual(terms, [
+            {
+                subject: WarrantySubject.SERVICE,
+                serviceId: 10,
+                serviceItemId: null,
+                name: 'AC repair',
+                quantity: 2,
+                startDate: completedAt,
+                endDate: new Date('2025-04-30T10:00:00+07:00'),
+            },
+            {
+                subject: WarrantySubject.PART,
+                serviceId: null,
+                serviceItemId: 20,
+                name: 'Compressor',
+                quantity: 1,
+                startDate: completedAt,
+                endDate: new Date('2026-01-31T10:00:00+07:00'),
+            },
+        ]);
+    });
+
+    it('gives services no warranty when the workmanship period is off', () => {
+        const terms = warrantiesFor({ services: [{ serviceId: 10, name: 'AC repair', quantity: 1 }], parts: [] }, completedAt, 0);
+
+        assert.deepEqual(terms, []);
+    });
+});
+
+describe('warrantyStatus', () => {
+    const endDate = new Date('2025-04-30T10:00:00+07:00');
+
+    it('counts started days as remaining', () => {
+        assert.deepEqual(warrantyStatus(endDate, new Date('2025-04-29T12:00:00+07:00')), { status: 'ACTIVE', remainingDays: 1 });
+        assert.deepEqual(warrantyStatus(endDate, new Date('2025-04-20T10:00:00+07:00')), { status: 'ACTIVE', remainingDays: 10 });
+    });
+
+    it('expires at the end date', () => {
+        assert.deepEqual(warrantyStatus(endDate, endDate), { status: 'EXPIRED', remainingDays: 0 });
+    });
+});
@@ -0,0 +1,137 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { estimateCheckOut, OpenSession, SweeperStore, WorkLogSweeper } from '../../jobs/work-log-sweeper';
+import { DEFAULT_WORK_POLICY, WorkPolicy } from '../../policy/work-policy';
+
+const HOUR_MS = 60 * 60 * 1000;
+
+const checkIn = new Date('2025-06-01T08:00:00Z');
+const hoursAfterCheckIn = (hours: number) => new Date(checkIn.getTime() + hours * HOUR_MS);
+
+const fourHourPolicy: WorkPolicy = { ...DEFAULT_WORK_POLICY, id: 3, name: 'Cleaning', scope: 'category', maxSessionMinutes: 240 };
+
+const session = (id: number, overrides: Partial<OpenSession> = {}): OpenSession => ({
+    id,
+    staffId: 1,
+    bookingId: id,
+    checkIn,
+    providerId: 5,
+    categoryId: null,
+    estimatedMinutes: null,
+    ...overrides,
+});
+
+// Keeps sessions in memory and records every auto-close
+class InMemoryStore implements SweeperStore {
+    readonly closed = new Map<number, { checkOut: Date; now: Date }>();
+    policyLookups = 0;
+
+    constructor(
+        private readonly sessions: OpenSession[],
+        private readonly policies: Record<string, WorkPolicy> = {}
+    ) {}
+
+    async findOpenSessions(): Promise<OpenSession[]> {
+        return this.sessions.filter((open) => !this.closed.has(open.id));
+    }
+
+    async resolvePolicy(providerId: number | null, categoryId: number | null): Promise<WorkPolicy> {
+        this.policyLookups++;
+        return this.policies[`${providerId}:${categoryId}`] ?? DEFAULT_WORK_POLICY;
+    }
+
+    async autoClose(sessionId: number, checkOut: Date, now: Date): Promise<boolean> {
+        if (this.closed.has(sessionId)) return false;
+        this.closed.set(sessionId, { checkOut, now });
+        return true;
+    }
+}
+
+describe('estimateCheckOut', () => {
+    it('uses the inspection estimate when it fits the policy', () => {
+        assert.deepEqual(estimateCheckOut(session(1, { estimatedMinutes: 90 }), fourHourPolicy), hoursAfterCheckIn(1.5));
+    });
+
+    it('caps the estimate at maxSessionMinutes', () => {
+        assert.deepEqual(estimateCheckOut(session(1, { estimatedMinutes: 600 }), fourHourPolicy), hoursAfterCheckIn(4));
+        assert.deepEqual(estimateCheckOut(session(1), fourHourPolicy), hoursAfterCheckIn(4));
+    });
+});
+
+describe('WorkLogSweeper', () => {
+    it('leaves sessions open until the policy limit has passed', async () => {
+        const store = new InMemoryStore([session(1)]);
+        const sweeper = new WorkLogSweeper(store, { now: () => hoursAfterCheckIn(24) });
+
+        const result = await sweeper.sweep();
+
+        assert.deepEqual(result, { scanned: 1, closed: [], failed: [] });
+    });
+
+    it('closes overdue sessions with the estimated check-out and the sweep time', async () => {
+        const store = new InMemoryStore([session(1), session(2, { categoryId: 9 })], { '5:9': fourHourPolicy });
+        const sweptAt = hoursAfterCheckIn(5);
+        const sweeper = new WorkLogSweeper(store, { now: () => sweptAt });
+
+        const result = await sweeper.sweep();
+
+        assert.deepEqual(result.closed, [2]);
+        assert.deepEqual(store.closed.get(2), { checkOut: hoursAfterCheckIn(4), now: sweptAt });
+    });
+
+    it('follows the injected clock between sweeps', async () => {
+        let now = hoursAfterCheckIn(1);
+        const store = new InMemoryStore([session(1)], { '5:null': fourHourPolicy });
+        const sweeper = new WorkLogSweeper(store, { now: () => now });
+
+        assert.deepEqual((await sweeper.sweep()).closed, []);
+
+        now = hoursAfterCheckIn(4.5);
+        assert.deepEqual((await sweeper.sweep()).closed, [1]);
+        assert.deepEqual((await sweeper.sweep()).scanned, 0);
+    });
+
+    it('resolves each provider/category policy once per sweep', async () => {
+        const store = new InMemoryStore([session(1), session(2), session(3, { providerId: 6 })]);
+        await new WorkLogSweeper(store, { now: () => checkIn }).sweep();
+
+        assert.equal(store.policyLookups, 2);
+    });
+
+    it('skips sessions that were checked out before the update', async () => {
+        const store = new InMemoryStore([session(1)]);
+        store.autoClose = async () => false;
+
+        const result = await new WorkLogSweeper(store, { now: () => hoursAfterCheckIn(25) }).sweep();
+
+        assert.deepEqual(result, { scanned: 1, closed: [], failed: [] });
+    });
+
+    it('keeps sweeping when one session fails', async () => {
+        const store = new InMemoryStore([session(1), session(2)]);
+        const autoClose = store.autoClose.bind(store);
+        store.autoClose = async (sessionId, checkOut, now) => {
+            if (sessionId === 1) throw new Error('connection reset');
+            return autoClose(sessionId, checkOut, now);
+        };
+        const sweeper = new WorkLogSweeper(store, { now: () => hoursAfterCheckIn(25) });
+
+        const originalError = console.error;
+        console.error = () => {};
+        try {
+            assert.deepEqual(await sweeper.sweep(), { scanned: 2, closed: [2], failed: [1] });
+        } finally {
+            console.error = originalError;
+        }
+    });
+
+    it('shares a sweep that is already running', async () => {
+        const store = new InMemoryStore([session(1)]);
+        const sweeper = new WorkLogSweeper(store, { now: () => hoursAfterCheckIn(25) });
+
+        const [first, second] = await Promise.all([sweeper.sweep(), sweeper.sweep()]);
+
+        assert.equal(first, second);
+        assert.equal(store.closed.size, 1);
+    });
+});
@@ -0,0 +1,113 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import {
+    assertCheckInWindow,
+    assertSessionLength,
+    candidateScopeKeys,
+    DEFAULT_WORK_POLICY,
+    resolveWorkPolicy,
+    WorkPolicy,
+    WorkPolicyRecord,
+    workPolicyScopeKey,
+} from '../../policy/work-policy';
+
+const record = (id: number, providerId: number | null, categoryId: number | null): WorkPolicyRecord => ({
+    id,
+    name: `policy-${id}`,
+    providerId,
+    categoryId,
+    checkInEarlyTolerance: 30,
+    checkInLateTolerance: 60,
+    maxSessionMinutes: 240,
+});
+
+const candidates = [record(1, null, null), record(2, null, 9), record(3, 5, null), record(4, 5, 9)];
+
+const emergency: WorkPolicy = {
+    id: 7,
+    name: 'Plumbing emergency',
+    scope: 'category',
+    checkInEarlyTolerance: 15,
+    checkInLateTolerance: 30,
+    maxSessionMinutes: 180,
+};
+
+const preferred = new Date('2025-06-01T09:00:00Z');
+const minutesAfter = (date: Date, minutes: number) => new Date(date.getTime() + minutes * 60 * 1000);
+
+describe('resolveWorkPolicy', () => {
+    it('prefers provider + category, then provider, then category, then global', () => {
+        assert.equal(resolveWorkPolicy(candidates, 5, 9).id, 4);
+        assert.equal(resolveWorkPolicy(candidates, 5, 1).id, 3);
+        assert.equal(resolveWorkPolicy(candidates, 6, 9).id, 2);
+        assert.equal(resolveWorkPolicy(candidates, 6, 1).id, 1);
+    });
+
+    it('reports the scope that matched', () => {
+        assert.equal(resolveWorkPolicy(candidates, 5, 9).scope, 'provider-category');
+        assert.equal(resolveWorkPolicy(candidates, 6, 1).scope, 'global');
+    });
+
+    it('ignores rows for other providers and categories', () => {
+        assert.equal(resolveWorkPolicy([record(3, 5, null), record(2, null, 9)], 6, 1), DEFAULT_WORK_POLICY);
+    });
+});
+
+describe('assertCheckInWindow', () => {
+    it('accepts check-ins inside the tolerance', () => {
+        assertCheckInWindow(emergency, preferred, minutesAfter(preferred, -15));
+        assertCheckInWindow(emergency, preferred, minutesAfter(preferred, 30));
+    });
+
+    it('names the policy and rule for an early check-in', () => {
+        assert.throws(() => assertCheckInWindow(emergency, preferred, minutesAfter(preferred, -16)), {
+            code: 'Error.DateMismatchPreferredDate',
+            details: {
+                policy: { id: 7, name: 'Plumbing emergency', scope: 'category' },
+                rule: 'checkInEarlyTolerance',
+                toleranceMinutes: 15,
+                offsetMinutes: -16,
+                preferredDate: preferred,
+                today: minutesAfter(preferred, -16),
+            },
+        });
+    });
+
+    it('rejects a late check-in under the late tolerance rule', () => {
+        assert.throws(() => assertCheckInWindow(emergency, preferred, minutesAfter(preferred, 31)), (error: any) => {
+            assert.equal(error.details.rule, 'checkInLateTolerance');
+            return true;
+        });
+    });
+});
+
+describe('assertSessionLength', () => {
+    it('rejects sessions longer than maxSessionMinutes', () => {
+        assertSessionLength(emergency, preferred, minutesAfter(preferred, 180));
+
+        assert.throws(() => assertSessionLength(emergency, preferred, minutesAfter(preferred, 181)), {
+            code: 'Error.CheckOutTooLate',
+            details: {
+                policy: { id: 7, name: 'Plumbing emergency', scope: 'category' },
+                rule: 'maxSessionMinutes',
+                maxSessionMinutes: 180,
+                sessionMinutes: 181,
+            },
+        });
+    });
+});
+
+describe('workPolicyScopeKey', () => {
+    it('gives every scope one non-null key, so the global policy is unique too', () => {
+        assert.equal(workPolicyScopeKey(null, null), 'global');
+        assert.equal(workPolicyScopeKey(5, null), 'provider:5');
+        assert.equal(workPolicyScopeKey(null, 9), 'category:9');
+        assert.equal(workPolicyScopeKey(5, 9), 'provider:5:category:9');
+    });
+
+    it('looks up only the scopes that can apply to a job, most specific first', () => {
+        assert.deepEqual(candidateScopeKeys(5, 9), ['provider:5:category:9', 'provider:5', 'category:9', 'global']);
+        assert.deepEqual(candidateScopeKeys(5, null), ['provider:5', 'global']);
+        assert.deepEqual(candidateScopeKeys(null, null), ['global']);
+    });
+});
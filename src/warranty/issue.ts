@@ -0,0 +1,65 @@
+import { Prisma, ProposalStatus, StockReservationStatus } from '../generated/prisma';
+import { warrantiesFor } from './warranty';
+
+type Tx = Prisma.TransactionClient;
+
+/**
+ * Records warranties for the services of the accepted proposal and the parts
+ * used on the job. Runs inside the transaction completing the booking; a
+ * warranty already on record for an item is never issued twice.
+ * @returns Number of warranties issued
+ */
+export async function issueWarranties(tx: Tx, bookingId: number, completedAt: Date): Promise<number> {
+  const booking = await tx.booking.findUniqueOrThrow({
+    where: { id: bookingId },
+    select: {
+      customerId: true,
+      providerId: true,
+      Proposal: {
+        select: {
+          status: true,
+          ProposalItem: { select: { quantity: true, Service: { select: { id: true, name: true } } } }
+        }
+      },
+      StockReservation: {
+        where: { status: StockReservationStatus.COMMITTED },
+        select: {
+          serviceItemId: true,
+          quantity: true,
+          ServiceItem: { select: { name: true, warrantyPeriod: true } }
+        }
+      }
+    }
+  });
+
+  const services = booking.Proposal?.status === ProposalStatus.ACCEPTED
+    ? booking.Proposal.ProposalItem.map((item) => ({
+      serviceId: item.Service.id,
+      name: item.Service.name,
+      quantity: item.quantity
+    }))
+    : [];
+
+  const parts = booking.StockReservation.map((reservation) => ({
+    serviceItemId: reservation.serviceItemId,
+    name: reservation.ServiceItem.name,
+    quantity: reservation.quantity,
+    warrantyPeriod: reservation.ServiceItem.warrantyPeriod
+  }));
+
+  const terms = warrantiesFor({ services, parts }, completedAt);
+  if (terms.length === 0) return 0;
+
+  const { count } = await tx.warranty.createMany({
+    data: terms.map((term) => ({
+      ...term,
+      itemId: (term.serviceId ?? term.serviceItemId)!,
+      bookingId,
+      customerId: booking.customerId,
+      providerId: booking.providerId
+    })),
+    skipDuplicates: true
+  });
+
+  return count;
+}
@@ -0,0 +1,107 @@
+import { WarrantySubject } from '../generated/prisma';
+
+export const WARRANTY_CONFIG = {
+  // Workmanship warranty on services; parts use their own warrantyPeriod
+  SERVICE_MONTHS: parseInt(process.env.SERVICE_WARRANTY_MONTHS || '3', 10),
+} as const;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface DeliveredService {
+  serviceId: number;
+  name: string;
+  quantity: number;
+}
+
+export interface DeliveredPart {
+  serviceItemId: number;
+  name: string;
+  quantity: number;
+  // ServiceItem.warrantyPeriod, in months
+  warrantyPeriod: number | null;
+}
+
+export interface WarrantyTerms {
+  subject: WarrantySubject;
+  serviceId: number | null;
+  serviceItemId: number | null;
+  name: string;
+  quantity: number;
+  startDate: Date;
+  endDate: Date;
+}
+
+/**
+ * Same day of the month `months` later, clamped to the end of shorter
+ * months (31 January + 1 month is 28 or 29 February).
+ */
+export function addMonths(date: Date, months: number): Date {
+  const end = new Date(date.getTime());
+  const day = end.getUTCDate();
+
+  end.setUTCDate(1);
+  end.setUTCMonth(end.getUTCMonth() + months);
+  const daysInMonth = new Date(Date.UTC(end.getUTCFullYear(), end.getUTCMonth() + 1, 0)).getUTCDate();
+  end.setUTCDate(Math.min(day, daysInMonth));
+
+  return end;
+}
+
+function merge<T extends { quantity: number }>(rows: T[], idOf: (row: T) => number): T[] {
+  const merged = new Map<number, T>();
+
+  for (const row of rows) {
+    const existing = merged.get(idOf(row));
+    merged.set(idOf(row), existing ? { ...existing, quantity: existing.quantity + row.quantity } : row);
+  }
+
+  return [...merged.values()];
+}
+
+/**
+ * Warranties owed for a finished job: one per service and per part, each
+ * running from completion. Parts without a warranty period get none.
+ */
+export function warrantiesFor(
+  delivered: { services: DeliveredService[]; parts: DeliveredPart[] },
+  startDate: Date,
+  serviceMonths: number = WARRANTY_CONFIG.SERVICE_MONTHS
+): WarrantyTerms[] {
+  const services = serviceMonths > 0
+    ? merge(delivered.services, (service) => service.serviceId).map((service): WarrantyTerms => ({
+      subject: WarrantySubject.SERVICE,
+      serviceId: service.serviceId,
+      serviceItemId: null,
+      name: service.name,
+      quantity: service.quantity,
+      startDate,
+      endDate: addMonths(startDate, serviceMonths)
+    }))
+    : [];
+
+  const parts = merge(delivered.parts, (part) => part.serviceItemId)
+    .filter((part) => (part.warrantyPeriod ?? 0) > 0)
+    .map((part): WarrantyTerms => ({
+      subject: WarrantySubject.PART,
+      serviceId: null,
+      serviceItemId: part.serviceItemId,
+      name: part.name,
+      quantity: part.quantity,
+      startDate,
+      endDate: addMonths(startDate, part.warrantyPeriod!)
+    }));
+
+  return [...services, ...parts];
+}
+
+/**
+ * Whether a warranty still covers work on `now`, with whole days left
+ * (rounded up, so a warranty ending this afternoon has 1 day left).
+ */
+export function warrantyStatus(endDate: Date, now: Date) {
+  const remainingMs = endDate.getTime() - now.getTime();
+
+  return remainingMs > 0
+    ? { status: 'ACTIVE' as const, remainingDays: Math.ceil(remainingMs / DAY_MS) }
+    : { status: 'EXPIRED' as const, remainingDays: 0 };
+}